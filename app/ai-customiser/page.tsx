@@ -7,6 +7,7 @@ import { TrainTab } from './_components/TrainTab';
 import { TestTab } from './_components/TestTab';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ToolListModal } from '@/components/ToolListModal';
 
 // Define a simplified type for the config needed by ConfigureTab
@@ -24,17 +25,45 @@ export interface AssistantConfig {
   // Add other relevant fields as needed by ConfigureTab
 }
 
+// An assistant registered to the practice, as returned by /api/assistants
+interface AssistantOption {
+  id: string;
+  vapiAssistantId: string;
+  name: string;
+}
+
 export default function AICustomiserPage() {
   const [assistantConfig, setAssistantConfig] = useState<AssistantConfig | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [errorMessage, setErrorMessage] = useState<string>('');
+  const [assistants, setAssistants] = useState<AssistantOption[] | null>(null);
+  const [assistantId, setAssistantId] = useState<string>('');
 
-  const assistantId = process.env.NEXT_PUBLIC_VAPI_ASSISTANT_ID;
+  // The practice's assistants; the first one is selected until the user picks another
+  useEffect(() => {
+    const fetchAssistants = async () => {
+      try {
+        const response = await fetch('/api/assistants');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to fetch assistants (status: ${response.status})`);
+        }
+        setAssistants(data);
+        setAssistantId(current => current || data[0]?.vapiAssistantId || '');
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error loading assistants.';
+        console.error("Fetch assistants error:", error);
+        setAssistants([]);
+        setErrorMessage(message);
+      }
+    };
+    fetchAssistants();
+  }, []);
 
   const fetchAssistantConfig = useCallback(async () => {
     if (!assistantId) {
-      setErrorMessage("Assistant ID not configured in environment variables.");
-      setIsLoading(false);
+      // Nothing to load until the assistants list has arrived (or if it is empty)
+      if (assistants !== null) setIsLoading(false);
       return;
     }
     setIsLoading(true);
@@ -55,7 +84,7 @@ export default function AICustomiserPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [assistantId]);
+  }, [assistantId, assistants]);
 
   useEffect(() => {
     fetchAssistantConfig();
@@ -63,13 +92,29 @@ export default function AICustomiserPage() {
 
   return (
     <div className="flex flex-col p-6 relative">
-      <h1 className="text-2xl font-bold mb-6">AI Customiser</h1>
-      {!assistantId && (
+      <div className="flex items-center justify-between mb-6 gap-4">
+        <h1 className="text-2xl font-bold">AI Customiser</h1>
+        {assistants && assistants.length > 0 && (
+          <Select value={assistantId} onValueChange={setAssistantId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select an assistant" />
+            </SelectTrigger>
+            <SelectContent>
+              {assistants.map(assistant => (
+                <SelectItem key={assistant.id} value={assistant.vapiAssistantId}>
+                  {assistant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {assistants && assistants.length === 0 && !errorMessage && (
         <Alert variant="destructive" className="mb-4">
           <AlertCircle className="h-4 w-4" />
-          <AlertTitle>Configuration Error</AlertTitle>
+          <AlertTitle>No Assistants</AlertTitle>
           <AlertDescription>
-            Assistant ID is not set. Please contact your administrator.
+            No voice assistants are registered for this practice. Please contact your administrator.
           </AlertDescription>
         </Alert>
       )}
@@ -85,7 +130,7 @@ export default function AICustomiserPage() {
            <AlertDescription>{errorMessage}</AlertDescription>
          </Alert>
       ) : assistantConfig && assistantId ? (
-        <Tabs defaultValue="configure" className="w-full">
+        <Tabs key={assistantId} defaultValue="configure" className="w-full">
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="configure">Configure</TabsTrigger>
             <TabsTrigger value="train">Train</TabsTrigger>
@@ -108,7 +153,7 @@ export default function AICustomiserPage() {
          <p>Could not load assistant configuration.</p> // Fallback if config is null but no error message
       )}
       
-      {assistantId && <ToolListModal assistantId={assistantId} />}
+      {assistantId && <ToolListModal key={assistantId} assistantId={assistantId} />}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { Role } from '@prisma/client';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string;
+  meta?: Record<string, unknown>;
+  message: string;
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' && 
+    error !== null && 
+    'code' in error && 
+    typeof (error as { code: unknown }).code === 'string'
+  );
+}
+
+const PostAppointmentTypeSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  durationMinutes: z.number().int().min(5).max(8 * 60),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6').optional(),
+  requiredRole: z.nativeEnum(Role).nullable().optional(),
+});
+
+// GET /api/appointment-types
+export async function GET(request: NextRequest) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const appointmentTypes = await scopedPrisma(organization.id).appointmentType.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(appointmentTypes);
+  } catch (error) {
+    console.error('Error fetching appointment types:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch appointment types' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'schedule:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const body = await request.json();
+    const validation = PostAppointmentTypeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const actor = await staffActor(request);
+    const appointmentType = await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const record = await tx.appointmentType.create({
+        data: {
+          ...validation.data,
+          organizationId: organization.id,
+          requiredRole: validation.data.requiredRole ?? null,
+        },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'AppointmentType',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
+    });
+
+    return NextResponse.json(appointmentType, { status: 201 });
+  } catch (error) {
+    console.error('Error creating appointment type:', error);
+
+    if (isPrismaError(error) && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'An appointment type with this name already exists in this organization' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create appointment type' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { auditedFields, recordAuditEvent, staffActor } from '@/lib/audit';
+import { appointmentInclude, CancelAppointmentSchema } from '@/lib/appointments';
+import { APPOINTMENT_TRANSITIONS, canTransition, isAppointmentTransition } from '@/lib/appointmentStatus';
+
+const STATUS_LABELS: Record<string, string> = {
+  SCHEDULED: 'scheduled',
+  CONFIRMED: 'confirmed',
+  CHECKED_IN: 'checked in',
+  CANCELLED: 'cancelled',
+  COMPLETED: 'completed',
+  NO_SHOW: 'a no-show',
+};
+
+// POST /api/appointments/[id]/{confirm|check-in|complete|no-show|cancel}
+// Moves an appointment to the transition's status if its current status allows it. Cancelling takes { reason }.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string; transition: string }> }
+) {
+  const { id, transition } = await params;
+
+  try {
+    if (!isAppointmentTransition(transition)) {
+      return NextResponse.json({ error: 'Unknown status change' }, { status: 404 });
+    }
+
+    const denied = await requirePermission(request, 'appointment:write');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const now = new Date();
+    const { to } = APPOINTMENT_TRANSITIONS[transition];
+    const data: Prisma.AppointmentUncheckedUpdateInput = { status: to };
+
+    if (transition === 'cancel') {
+      const validation = CancelAppointmentSchema.safeParse(await request.json().catch(() => ({})));
+      if (!validation.success) {
+        return NextResponse.json(
+          { error: 'Invalid input', details: validation.error.flatten() },
+          { status: 400 }
+        );
+      }
+      data.cancelledAt = now;
+      data.cancellationReason = validation.data.reason;
+    }
+    if (transition === 'check-in') {
+      data.checkedInAt = now;
+    }
+
+    const omit = await appointmentNotesOmit(request);
+    const appointment = await db.appointment.findUnique({ where: { id }, omit });
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    if (!canTransition(appointment.status, transition)) {
+      return NextResponse.json(
+        { error: `An appointment that is ${STATUS_LABELS[appointment.status]} can't be ${STATUS_LABELS[to]}` },
+        { status: 409 }
+      );
+    }
+    if (transition === 'no-show' && appointment.date > now) {
+      return NextResponse.json({ error: "An appointment can't be a no-show before it starts" }, { status: 409 });
+    }
+
+    // Guarded on the status just checked, so two staff acting at once can't both apply a change
+    const actor = await staffActor(request);
+    const updated = await db.$transaction(async (tx) => {
+      const { count } = await tx.appointment.updateMany({
+        where: { id, status: appointment.status },
+        data,
+      });
+      if (count === 0) return null;
+      const record = await tx.appointment.findUniqueOrThrow({ where: { id }, include: appointmentInclude, omit });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Appointment',
+        entityId: id,
+        action: transition,
+        before: auditedFields(appointment, Object.keys(data)),
+        after: auditedFields(record, Object.keys(data)),
+      }, tx);
+      return record;
+    });
+    if (!updated) {
+      return NextResponse.json({ error: 'The appointment was changed by someone else; reload and try again' }, { status: 409 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error(`Error applying appointment status change (${transition}):`, error);
+    return NextResponse.json({ error: 'Failed to update appointment status' }, { status: 500 });
+  }
+}
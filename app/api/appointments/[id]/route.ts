@@ -1,9 +1,13 @@
-import { PrismaClient } from '@prisma/client';
 import { NextResponse } from 'next/server';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { bookSlot } from '@/lib/booking';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { appointmentInclude, AppointmentUpdateSchema } from '@/lib/appointments';
+import { CLOSED_APPOINTMENT_STATUSES } from '@/lib/appointmentStatus';
+import { checkAppointmentAvailability, findAppointmentType } from '@/lib/scheduling';
 
-const prisma = new PrismaClient();
-
-// DELETE appointment by ID
+// DELETE erases an appointment record, e.g. one entered by mistake; visits that won't happen are cancelled
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -11,8 +15,15 @@ export async function DELETE(
   const { id } = await params;
   
   try {
+    const denied = await requirePermission(request, 'appointment:delete');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
     // Check if appointment exists
-    const appointment = await prisma.appointment.findUnique({
+    const appointment = await db.appointment.findUnique({
       where: { id },
     });
 
@@ -21,8 +32,17 @@ export async function DELETE(
     }
 
     // Delete appointment
-    await prisma.appointment.delete({
-      where: { id },
+    const actor = await staffActor(request);
+    await db.$transaction(async (tx) => {
+      await tx.appointment.delete({
+        where: { id },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Appointment',
+        entityId: id,
+        action: 'delete',
+        before: appointment,
+      }, tx);
     });
 
     return NextResponse.json({ success: true });
@@ -40,17 +60,13 @@ export async function GET(
   const { id } = await params;
   
   try {
-    const appointment = await prisma.appointment.findUnique({
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const appointment = await scopedPrisma(organization.id).appointment.findUnique({
       where: { id },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      omit: await appointmentNotesOmit(request),
+      include: appointmentInclude,
     });
 
     if (!appointment) {
@@ -62,4 +78,163 @@ export async function GET(
     console.error('Error fetching appointment:', error);
     return NextResponse.json({ error: 'Failed to fetch appointment' }, { status: 500 });
   }
-} 
\ No newline at end of file
+} 
+
+// PATCH edits an appointment; changing its time, length, provider, chair or type re-checks availability
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const denied = await requirePermission(request, 'appointment:write');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const body = await request.json();
+    const validation = AppointmentUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const update = validation.data;
+    const omit = await appointmentNotesOmit(request);
+
+    const appointment = await db.appointment.findUnique({
+      where: { id },
+      include: { appointmentType: true },
+      omit,
+    });
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    if (update.notes !== undefined && omit.notes) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+    }
+    const { notes, ...details } = update;
+    if (CLOSED_APPOINTMENT_STATUSES.includes(appointment.status) && Object.values(details).some(value => value !== undefined)) {
+      return NextResponse.json(
+        { error: 'Only the notes of cancelled, completed and no-show appointments can be changed' },
+        { status: 409 }
+      );
+    }
+
+    if (update.patientId && !(await db.patient.count({ where: { id: update.patientId } }))) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+    }
+    if (update.providerId && !(await db.user.count({ where: { id: update.providerId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+    if (update.operatoryId && !(await db.operatory.count({ where: { id: update.operatoryId } }))) {
+      return NextResponse.json({ error: 'Operatory not found' }, { status: 404 });
+    }
+    const appointmentType = update.appointmentTypeId
+      ? await findAppointmentType({ organizationId: organization.id, appointmentTypeId: update.appointmentTypeId })
+      : update.appointmentTypeId === null ? null : appointment.appointmentType;
+    if (update.appointmentTypeId && !appointmentType) {
+      return NextResponse.json({ error: 'Appointment type not found' }, { status: 404 });
+    }
+
+    const start = update.date ? new Date(update.date) : appointment.date;
+    // An explicit end time wins, then a new type's default length, else the visit keeps its length
+    let durationMinutes = Math.round((appointment.endTime.getTime() - appointment.date.getTime()) / 60000);
+    if (update.endTime) {
+      const end = new Date(update.endTime);
+      if (end <= start) {
+        return NextResponse.json({ error: 'endTime must be after the start' }, { status: 400 });
+      }
+      durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    } else if (update.appointmentTypeId && appointmentType) {
+      durationMinutes = appointmentType.durationMinutes;
+    }
+    const providerId = update.providerId !== undefined ? update.providerId : appointment.providerId;
+    const operatoryId = update.operatoryId !== undefined ? update.operatoryId : appointment.operatoryId;
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+
+    const data = {
+      reason: update.reason,
+      notes,
+      patientType: update.patientType,
+      patientId: update.patientId,
+      appointmentTypeId: update.appointmentTypeId,
+      operatoryId: update.operatoryId,
+    };
+
+    const moved = start.getTime() !== appointment.date.getTime();
+    const actor = await staffActor(request);
+    const auditUpdate = (after: unknown) => ({
+      entityType: 'Appointment',
+      entityId: id,
+      action: moved ? 'reschedule' : 'update',
+      before: appointment,
+      after,
+    } as const);
+    const timingChanged = moved
+      || end.getTime() !== appointment.endTime.getTime()
+      || providerId !== appointment.providerId
+      || operatoryId !== appointment.operatoryId
+      || (update.appointmentTypeId !== undefined && update.appointmentTypeId !== appointment.appointmentTypeId);
+
+    let updated;
+    if (timingChanged) {
+      // Validate against business hours, provider schedules and other appointments, ignoring this one
+      const availabilityOptions = {
+        organizationId: organization.id,
+        providerId,
+        providerRole: appointmentType?.requiredRole,
+        durationMinutes,
+        excludeAppointmentId: id,
+        operatoryId,
+      };
+      const availability = await checkAppointmentAvailability(start, availabilityOptions);
+      if (!availability.valid) {
+        return NextResponse.json(
+          { error: availability.message, conflicts: availability.conflicts },
+          { status: availability.conflicts.length > 0 ? 409 : 400 }
+        );
+      }
+
+      const booking = await bookSlot(start, availabilityOptions, async (tx, slot) => {
+        const record = await tx.appointment.update({
+          where: { id },
+          data: { ...data, date: start, endTime: slot.end, providerId: slot.providerId },
+          include: appointmentInclude,
+          omit,
+        });
+        await recordAuditEvent(organization.id, actor, auditUpdate(record), tx);
+        return record;
+      });
+      if (!booking.booked) {
+        return NextResponse.json(
+          { error: booking.availability.message, conflicts: booking.availability.conflicts },
+          { status: 409 }
+        );
+      }
+      updated = booking.record;
+    } else {
+      updated = await db.$transaction(async (tx) => {
+        const record = await tx.appointment.update({
+          where: { id },
+          data,
+          include: appointmentInclude,
+          omit,
+        });
+        await recordAuditEvent(organization.id, actor, auditUpdate(record), tx);
+        return record;
+      });
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error updating appointment:', error);
+    return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { auditedFields, recordAuditEvent, staffActor } from '@/lib/audit';
+import { appointmentInclude, CancelAppointmentSchema } from '@/lib/appointments';
+import { APPOINTMENT_TRANSITIONS, canTransition } from '@/lib/appointmentStatus';
+
+// POST /api/appointments/[id]/series/cancel { reason }
+// Cancels this visit and every later visit in its series that can still be cancelled
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const denied = await requirePermission(request, 'appointment:write');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const validation = CancelAppointmentSchema.safeParse(await request.json().catch(() => ({})));
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const omit = await appointmentNotesOmit(request);
+    const appointment = await db.appointment.findUnique({ where: { id }, omit });
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+    if (!appointment.seriesId) {
+      return NextResponse.json({ error: 'This appointment is not part of a series' }, { status: 409 });
+    }
+    if (!canTransition(appointment.status, 'cancel')) {
+      return NextResponse.json({ error: "This visit can't be cancelled" }, { status: 409 });
+    }
+
+    const cancellable = [...APPOINTMENT_TRANSITIONS.cancel.from];
+    const occurrences = await db.appointment.findMany({
+      where: { seriesId: appointment.seriesId, date: { gte: appointment.date }, status: { in: cancellable } },
+      omit,
+      orderBy: { date: 'asc' },
+    });
+    const ids = occurrences.map(occurrence => occurrence.id);
+
+    // Guarded on the statuses just read, so a visit checked in meanwhile is left alone
+    const actor = await staffActor(request);
+    const updated = await db.$transaction(async (tx) => {
+      const data = { status: 'CANCELLED', cancelledAt: new Date(), cancellationReason: validation.data.reason } as const;
+      await tx.appointment.updateMany({
+        where: { id: { in: ids }, status: { in: cancellable } },
+        data,
+      });
+      const records = await tx.appointment.findMany({
+        where: { id: { in: ids } },
+        include: appointmentInclude,
+        omit,
+        orderBy: { date: 'asc' },
+      });
+      for (const [index, after] of records.entries()) {
+        if (after.status !== 'CANCELLED') continue;
+        await recordAuditEvent(organization.id, actor, {
+          entityType: 'Appointment',
+          entityId: after.id,
+          action: 'cancel',
+          before: auditedFields(occurrences[index], Object.keys(data)),
+          after: auditedFields(after, Object.keys(data)),
+        }, tx);
+      }
+      return records;
+    });
+
+    return NextResponse.json({ appointments: updated.filter(after => after.status === 'CANCELLED') });
+  } catch (error) {
+    console.error('Error cancelling appointment series:', error);
+    return NextResponse.json({ error: 'Failed to cancel appointment series' }, { status: 500 });
+  }
+}
@@ -0,0 +1,270 @@
+import { NextResponse } from 'next/server';
+import type { AppointmentSeries, Prisma } from '@prisma/client';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { bookSlots } from '@/lib/booking';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import type { AuditActor, AuditWriter } from '@/lib/audit';
+import { appointmentInclude, AppointmentSeriesUpdateSchema } from '@/lib/appointments';
+import { CLOSED_APPOINTMENT_STATUSES } from '@/lib/appointmentStatus';
+import { addZonedDays, setZonedTime, toZoned } from '@/lib/dates';
+import { findAppointmentType, getPracticeTimeZone } from '@/lib/scheduling';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps a series' stored rule describing its visits once `movedIds` have been
+ * moved by `shiftMs`. When every visit moved the series shifts with them;
+ * otherwise the visits left behind keep it, now ending with the last of them,
+ * and the moved ones become a series of their own with the same rule. Returns
+ * the series the moved visits belong to.
+ */
+async function reanchorSeries(
+  tx: Prisma.TransactionClient,
+  series: AppointmentSeries,
+  movedIds: string[],
+  shiftMs: number,
+  actor: AuditActor
+): Promise<string> {
+  const audit = (action: 'create' | 'update', after: AppointmentSeries) =>
+    recordAuditEvent(series.organizationId, actor, {
+      entityType: 'AppointmentSeries',
+      entityId: after.id,
+      action,
+      before: action === 'update' ? series : undefined,
+      after,
+    }, tx);
+
+  const until = series.until && new Date(series.until.getTime() + shiftMs);
+  const remaining = await tx.appointment.findMany({
+    where: { seriesId: series.id, id: { notIn: movedIds } },
+    select: { date: true },
+    orderBy: { date: 'asc' },
+  });
+
+  if (remaining.length === 0) {
+    // A rule counting visits still holds as it is
+    if (!until) return series.id;
+    await audit('update', await tx.appointmentSeries.update({ where: { id: series.id }, data: { until } }));
+    return series.id;
+  }
+
+  const created = await tx.appointmentSeries.create({
+    data: {
+      frequency: series.frequency,
+      interval: series.interval,
+      count: series.count && movedIds.length,
+      until,
+      organizationId: series.organizationId,
+    },
+  });
+  await audit('create', created);
+  await audit('update', await tx.appointmentSeries.update({
+    where: { id: series.id },
+    data: {
+      count: series.count && remaining.length,
+      until: series.until && remaining[remaining.length - 1].date,
+    },
+  }));
+  return created.id;
+}
+
+// PATCH /api/appointments/[id]/series
+// Applies one edit to this visit and every later open visit in its series. A new start moves each of them
+// by the same number of days to the new time of day, and every moved visit is re-checked for availability,
+// against other bookings and each other; if any can't be moved, none are. Earlier and closed visits are
+// left as they are, and the series' rule is re-anchored to the new start.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const denied = await requirePermission(request, 'appointment:write');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const body = await request.json();
+    const validation = AppointmentSeriesUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+    const update = validation.data;
+    const omit = await appointmentNotesOmit(request);
+
+    const appointment = await db.appointment.findUnique({ where: { id }, omit });
+    if (!appointment) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+    if (!appointment.seriesId) {
+      return NextResponse.json({ error: 'This appointment is not part of a series' }, { status: 409 });
+    }
+    if (CLOSED_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      return NextResponse.json(
+        { error: 'Series changes start from a visit that is still open' },
+        { status: 409 }
+      );
+    }
+    if (update.notes !== undefined && omit.notes) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+    }
+
+    if (update.providerId && !(await db.user.count({ where: { id: update.providerId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+    if (update.operatoryId && !(await db.operatory.count({ where: { id: update.operatoryId } }))) {
+      return NextResponse.json({ error: 'Operatory not found' }, { status: 404 });
+    }
+    const newType = update.appointmentTypeId
+      ? await findAppointmentType({ organizationId: organization.id, appointmentTypeId: update.appointmentTypeId })
+      : null;
+    if (update.appointmentTypeId && !newType) {
+      return NextResponse.json({ error: 'Appointment type not found' }, { status: 404 });
+    }
+
+    const start = update.date ? new Date(update.date) : appointment.date;
+    // An explicit end time or a new type sets every visit's length; otherwise each keeps its own
+    let durationMinutes: number | null = null;
+    if (update.endTime) {
+      const end = new Date(update.endTime);
+      if (end <= start) {
+        return NextResponse.json({ error: 'endTime must be after the start' }, { status: 400 });
+      }
+      durationMinutes = Math.round((end.getTime() - start.getTime()) / 60000);
+    } else if (newType) {
+      durationMinutes = newType.durationMinutes;
+    }
+
+    const series = await db.appointmentSeries.findUnique({ where: { id: appointment.seriesId } });
+    if (!series) {
+      return NextResponse.json({ error: 'Appointment series not found' }, { status: 404 });
+    }
+
+    const occurrences = await db.appointment.findMany({
+      where: {
+        seriesId: appointment.seriesId,
+        date: { gte: appointment.date },
+        status: { notIn: [...CLOSED_APPOINTMENT_STATUSES] },
+      },
+      include: { appointmentType: true },
+      omit,
+      orderBy: { date: 'asc' },
+    });
+
+    // Practice-local days between the old and new start, and the new time of day
+    const timeZone = await getPracticeTimeZone(organization.id);
+    const from = toZoned(appointment.date, timeZone);
+    const to = toZoned(start, timeZone);
+    const dayShift = Math.round(
+      (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / DAY_MS
+    );
+
+    // The visits being moved free up their own times for each other
+    const movedIds = occurrences.map(occurrence => occurrence.id);
+    const planned = occurrences.map(occurrence => {
+      const occurrenceStart = update.date
+        ? setZonedTime(addZonedDays(occurrence.date, dayShift, timeZone), { hour: to.hour, minute: to.minute }, timeZone)
+        : occurrence.date;
+      const minutes = durationMinutes ?? Math.round((occurrence.endTime.getTime() - occurrence.date.getTime()) / 60000);
+      const appointmentType = update.appointmentTypeId === null ? null : newType ?? occurrence.appointmentType;
+      return {
+        occurrence,
+        start: occurrenceStart,
+        options: {
+          organizationId: organization.id,
+          providerId: update.providerId !== undefined ? update.providerId : occurrence.providerId,
+          providerRole: appointmentType?.requiredRole,
+          durationMinutes: minutes,
+          excludeAppointmentIds: movedIds,
+          operatoryId: update.operatoryId !== undefined ? update.operatoryId : occurrence.operatoryId,
+        },
+      };
+    });
+
+    const data = {
+      reason: update.reason,
+      notes: update.notes,
+      patientType: update.patientType,
+      appointmentTypeId: update.appointmentTypeId,
+      operatoryId: update.operatoryId,
+    };
+    const timingChanged = [update.date, update.endTime, update.providerId, update.operatoryId, update.appointmentTypeId]
+      .some(value => value !== undefined);
+
+    const shiftMs = start.getTime() - appointment.date.getTime();
+    const actor = await staffActor(request);
+
+    // Each visit's audit event is written in the transaction that changes it
+    const auditRows = async (tx: AuditWriter, rows: { id: string; date: Date }[]) => {
+      for (const [index, after] of rows.entries()) {
+        const before = occurrences[index];
+        await recordAuditEvent(organization.id, actor, {
+          entityType: 'Appointment',
+          entityId: after.id,
+          action: after.date.getTime() !== before.date.getTime() ? 'reschedule' : 'update',
+          before,
+          after,
+        }, tx);
+      }
+    };
+
+    let updated;
+    if (timingChanged) {
+      const booking = await bookSlots(planned, async (tx, slots) => {
+        const seriesId = shiftMs !== 0 ? await reanchorSeries(tx, series, movedIds, shiftMs, actor) : undefined;
+        const rows = [];
+        for (const [index, slot] of slots.entries()) {
+          rows.push(await tx.appointment.update({
+            where: { id: planned[index].occurrence.id },
+            data: { ...data, date: planned[index].start, endTime: slot.end, providerId: slot.providerId, seriesId },
+            include: appointmentInclude,
+            omit,
+          }));
+        }
+        await auditRows(tx, rows);
+        return rows;
+      });
+      if (!booking.booked) {
+        return NextResponse.json(
+          {
+            error: `${booking.failures.length} of the ${planned.length} visits can't be changed`,
+            occurrences: booking.failures.map(failure => ({
+              date: failure.start,
+              error: failure.availability.message,
+              conflicts: failure.availability.conflicts,
+            })),
+          },
+          { status: 409 }
+        );
+      }
+      updated = booking.record;
+    } else {
+      updated = await db.$transaction(async (tx) => {
+        const rows = [];
+        for (const occurrence of occurrences) {
+          rows.push(await tx.appointment.update({
+            where: { id: occurrence.id },
+            data,
+            include: appointmentInclude,
+            omit,
+          }));
+        }
+        await auditRows(tx, rows);
+        return rows;
+      });
+    }
+
+    return NextResponse.json({ appointments: updated });
+  } catch (error) {
+    console.error('Error updating appointment series:', error);
+    return NextResponse.json({ error: 'Failed to update appointment series' }, { status: 500 });
+  }
+}
@@ -1,92 +1,242 @@
 import { NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { AppointmentStatus } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { bookSlot, bookSlots } from '@/lib/booking';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { checkAppointmentAvailability, DEFAULT_APPOINTMENT_MINUTES, findAppointmentType, getPracticeTimeZone } from '@/lib/scheduling';
+import { auditedFields, recordAuditEvent, staffActor } from '@/lib/audit';
+import { appointmentInclude, AppointmentCreateSchema } from '@/lib/appointments';
+import { MAX_SERIES_OCCURRENCES, occurrenceStarts } from '@/lib/recurrence';
 
-const prisma = new PrismaClient();
+const AppointmentQuerySchema = z.object({
+  start: z.string().datetime({ offset: true }).optional(),
+  end: z.string().datetime({ offset: true }).optional(),
+  providerId: z.string().min(1).optional(),
+  patientId: z.string().min(1).optional(),
+  // One status or several separated by commas
+  status: z
+    .string()
+    .transform((value) => value.split(',').map((status) => status.trim()))
+    .pipe(z.array(z.nativeEnum(AppointmentStatus)))
+    .optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(200),
+});
 
-// Validate if the appointment time is within business hours - now ANY time is allowed
-function isValidAppointmentTime(): { valid: boolean; message?: string } {
-  // Always return valid for demo purposes
-  return { valid: true };
-}
-
-// GET all appointments with patient details
-export async function GET() {
+// GET /api/appointments?start=&end=&providerId=&patientId=&status=&cursor=&limit=
+// The practice's appointments with patient details, earliest first; with start/end, only those overlapping that range.
+// Returns { appointments, nextCursor }; pass nextCursor back as cursor for the next page until it is null.
+export async function GET(request: NextRequest) {
   try {
-    const appointments = await prisma.appointment.findMany({
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
-      orderBy: {
-        date: 'asc',
-      },
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = AppointmentQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { start, end, providerId, patientId, status, cursor, limit } = validation.data;
+
+    const where: Prisma.AppointmentWhereInput = {
+      ...(end && { date: { lt: new Date(end) } }),
+      ...(start && { endTime: { gt: new Date(start) } }),
+      ...(providerId && { providerId }),
+      ...(patientId && { patientId }),
+      ...(status && { status: { in: status } }),
+    };
+
+    // One extra row tells whether there is another page
+    const rows = await scopedPrisma(organization.id).appointment.findMany({
+      where,
+      include: appointmentInclude,
+      omit: await appointmentNotesOmit(request),
+      orderBy: [{ date: 'asc' }, { id: 'asc' }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
     });
 
-    return NextResponse.json(appointments);
+    const appointments = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? appointments[appointments.length - 1].id : null;
+
+    return NextResponse.json({ appointments, nextCursor });
   } catch (error) {
     console.error('Error fetching appointments:', error);
     return NextResponse.json({ error: 'Failed to fetch appointments' }, { status: 500 });
   }
 }
 
-// POST new appointment
+// POST new appointment; with `recurrence`, books every visit of a series and returns { series, appointments }
 export async function POST(request: Request) {
   try {
+    const denied = await requirePermission(request, 'appointment:write');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
     const body = await request.json();
-    const { date, patientId, reason, patientType, notes } = body;
+    const validation = AppointmentCreateSchema.safeParse(body);
 
-    // Validate required fields
-    if (!date || !patientId || !reason) {
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Missing required fields: date, patientId, and reason are required' },
+        { error: 'Invalid input', details: validation.error.flatten() },
         { status: 400 }
       );
     }
-
-    // Parse the appointment date
+    const { date, endTime, patientId, reason, patientType, notes, appointmentTypeId, providerId, operatoryId, recurrence } = validation.data;
     const appointmentDate = new Date(date);
-    
-    // Validate that the appointment time is within business hours
-    const timeValidation = isValidAppointmentTime();
-    if (!timeValidation.valid) {
-      console.error('Appointment validation failed:', timeValidation.message);
+
+    const patient = await db.patient.findUnique({
+      where: { id: patientId },
+      select: { id: true },
+    });
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+    }
+    if (providerId && !(await db.user.count({ where: { id: providerId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+    if (operatoryId && !(await db.operatory.count({ where: { id: operatoryId } }))) {
+      return NextResponse.json({ error: 'Operatory not found' }, { status: 404 });
+    }
+
+    const appointmentType = await findAppointmentType({ organizationId: organization.id, appointmentTypeId });
+    // Without a reason of its own, the visit takes the type's name
+    const appointmentReason = reason || appointmentType?.name;
+    if ((appointmentTypeId && !appointmentType) || !appointmentReason) {
+      return NextResponse.json({ error: 'Appointment type not found' }, { status: 404 });
+    }
+
+    // An explicit end time wins, otherwise the type's default length
+    let durationMinutes = appointmentType?.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+    if (endTime) {
+      const appointmentEnd = new Date(endTime);
+      if (appointmentEnd <= appointmentDate) {
+        return NextResponse.json({ error: 'endTime must be a valid date after the start' }, { status: 400 });
+      }
+      durationMinutes = Math.round((appointmentEnd.getTime() - appointmentDate.getTime()) / 60000);
+    }
+
+    const availabilityOptions = {
+      organizationId: organization.id,
+      providerId: providerId ?? null,
+      providerRole: appointmentType?.requiredRole,
+      durationMinutes,
+      operatoryId: operatoryId ?? null,
+    };
+    const appointmentData = {
+      patientId,
+      reason: appointmentReason,
+      patientType,
+      notes: notes || '',
+      status: 'SCHEDULED',
+      appointmentTypeId: appointmentType?.id ?? null,
+      operatoryId: operatoryId ?? null,
+      organizationId: organization.id,
+    } as const;
+    const omit = await appointmentNotesOmit(request);
+    const actor = await staffActor(request);
+
+    if (recurrence) {
+      const { frequency, interval, count, until } = recurrence;
+
+      const starts = occurrenceStarts(appointmentDate, recurrence, await getPracticeTimeZone(organization.id));
+      if (starts.length < 2) {
+        return NextResponse.json({ error: 'The end date leaves only one visit in the series' }, { status: 400 });
+      }
+      if (starts.length > MAX_SERIES_OCCURRENCES) {
+        return NextResponse.json(
+          { error: `A series can have at most ${MAX_SERIES_OCCURRENCES} visits; choose an earlier end date` },
+          { status: 400 }
+        );
+      }
+
+      // Every occurrence is checked under the booking lock; if any is taken, none are booked
+      const booking = await bookSlots(
+        starts.map(start => ({ start, options: availabilityOptions })),
+        async (tx, slots) => {
+          const series = await tx.appointmentSeries.create({
+            data: { frequency, interval, count: count ?? null, until: until ? new Date(until) : null, organizationId: organization.id },
+          });
+          await recordAuditEvent(organization.id, actor, {
+            entityType: 'AppointmentSeries',
+            entityId: series.id,
+            action: 'create',
+            after: series,
+          }, tx);
+          const appointments = [];
+          for (const [index, slot] of slots.entries()) {
+            const data = { ...appointmentData, date: starts[index], endTime: slot.end, providerId: slot.providerId, seriesId: series.id };
+            const appointment = await tx.appointment.create({ data, include: appointmentInclude, omit });
+            await recordAuditEvent(organization.id, actor, {
+              entityType: 'Appointment',
+              entityId: appointment.id,
+              action: 'create',
+              after: auditedFields(appointment, Object.keys(data)),
+            }, tx);
+            appointments.push(appointment);
+          }
+          return { series, appointments };
+        }
+      );
+      if (!booking.booked) {
+        return NextResponse.json(
+          {
+            error: `${booking.failures.length} of the ${starts.length} visits in this series can't be booked`,
+            occurrences: booking.failures.map(failure => ({
+              date: failure.start,
+              error: failure.availability.message,
+              conflicts: failure.availability.conflicts,
+            })),
+          },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(booking.record);
+    }
+
+    // Validate against business hours, provider schedules and overlapping appointments
+    const availability = await checkAppointmentAvailability(appointmentDate, availabilityOptions);
+    if (!availability.valid) {
       return NextResponse.json(
-        { error: timeValidation.message },
-        { status: 400 }
+        { error: availability.message, conflicts: availability.conflicts },
+        { status: availability.conflicts.length > 0 ? 409 : 400 }
       );
     }
 
-    // Create new appointment
-    const appointment = await prisma.appointment.create({
-      data: {
-        date: appointmentDate,
-        patientId,
-        reason,
-        patientType: patientType || 'EXISTING',
-        notes: notes || '',
-        status: 'SCHEDULED',
-      },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+    // Create new appointment, re-checking under the booking lock so a concurrent booking can't take the same chair
+    const booking = await bookSlot(appointmentDate, availabilityOptions, async (tx, slot) => {
+      const data = { ...appointmentData, date: appointmentDate, endTime: slot.end, providerId: slot.providerId };
+      const appointment = await tx.appointment.create({ data, include: appointmentInclude, omit });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Appointment',
+        entityId: appointment.id,
+        action: 'create',
+        after: auditedFields(appointment, Object.keys(data)),
+      }, tx);
+      return appointment;
     });
+    if (!booking.booked) {
+      return NextResponse.json(
+        { error: booking.availability.message, conflicts: booking.availability.conflicts },
+        { status: 409 }
+      );
+    }
 
-    return NextResponse.json(appointment);
+    return NextResponse.json(booking.record);
   } catch (error) {
     console.error('Error creating appointment:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Detailed error:', errorMessage);
-    return NextResponse.json({ error: `Failed to create appointment: ${errorMessage}` }, { status: 500 });
+    return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
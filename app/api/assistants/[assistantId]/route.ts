@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { AssistantSchema, assistantInclude, assistantOmit, normalizeAssistantPhoneNumbers } from '@/lib/assistants';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+// Define params as a Promise type for Next.js 15
+type ParamsPromise = Promise<{ assistantId: string }>;
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string;
+  meta?: Record<string, unknown>;
+  message: string;
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as { code: unknown }).code === 'string'
+  );
+}
+
+const PutAssistantSchema = AssistantSchema.partial();
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: ParamsPromise }
+) {
+  try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const { assistantId } = await params;
+    const body = await request.json();
+    const validation = PutAssistantSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { phoneNumbers, defaultProviderId, ...fields } = validation.data;
+    if (defaultProviderId && !(await db.user.count({ where: { id: defaultProviderId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    const before = await db.assistant.findUniqueOrThrow({ where: { id: assistantId }, omit: assistantOmit });
+    const actor = await staffActor(request);
+    const assistant = await db.$transaction(async (tx) => {
+      const record = await tx.assistant.update({
+        where: { id: assistantId },
+        data: {
+          ...fields,
+          ...(phoneNumbers && { phoneNumbers: normalizeAssistantPhoneNumbers(phoneNumbers) }),
+          ...(defaultProviderId !== undefined && { defaultProviderId }),
+        },
+        include: assistantInclude,
+        omit: assistantOmit,
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Assistant',
+        entityId: assistantId,
+        action: 'update',
+        before,
+        after: record,
+      }, tx);
+      return record;
+    });
+
+    return NextResponse.json(assistant);
+  } catch (error) {
+    console.error('Error updating assistant:', error);
+
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Assistant not found' }, { status: 404 });
+    }
+    if (isPrismaError(error) && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This Vapi assistant is already registered' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update assistant' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: ParamsPromise }
+) {
+  try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const { assistantId } = await params;
+
+    const actor = await staffActor(request);
+    await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const deleted = await tx.assistant.delete({
+        where: { id: assistantId },
+        omit: assistantOmit,
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Assistant',
+        entityId: assistantId,
+        action: 'delete',
+        before: deleted,
+      }, tx);
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting assistant:', error);
+
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Assistant not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete assistant' },
+      { status: 500 }
+    );
+  }
+}
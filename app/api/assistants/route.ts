@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { AssistantSchema, assistantInclude, assistantOmit, normalizeAssistantPhoneNumbers } from '@/lib/assistants';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string;
+  meta?: Record<string, unknown>;
+  message: string;
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as { code: unknown }).code === 'string'
+  );
+}
+
+// GET /api/assistants - the practice's voice assistants
+export async function GET(request: NextRequest) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const assistants = await scopedPrisma(organization.id).assistant.findMany({
+      include: assistantInclude,
+      omit: assistantOmit,
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(assistants);
+  } catch (error) {
+    console.error('Error fetching assistants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch assistants' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/assistants - register a Vapi assistant as answering for the practice
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const body = await request.json();
+    const validation = AssistantSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { phoneNumbers, defaultProviderId, timezone, ...fields } = validation.data;
+    if (defaultProviderId && !(await db.user.count({ where: { id: defaultProviderId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    const actor = await staffActor(request);
+    const assistant = await db.$transaction(async (tx) => {
+      const record = await tx.assistant.create({
+        data: {
+          ...fields,
+          phoneNumbers: normalizeAssistantPhoneNumbers(phoneNumbers),
+          defaultProviderId: defaultProviderId ?? null,
+          timezone: timezone ?? null,
+          organizationId: organization.id,
+        },
+        include: assistantInclude,
+        omit: assistantOmit,
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Assistant',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
+    });
+
+    return NextResponse.json(assistant, { status: 201 });
+  } catch (error) {
+    console.error('Error creating assistant:', error);
+
+    if (isPrismaError(error) && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This Vapi assistant is already registered' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create assistant' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/app/types/auditEvent';
+import { requirePermission } from '@/lib/auth';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+
+const AuditEventQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actorType: z.enum(['STAFF', 'ASSISTANT']).optional(),
+  actorUserId: z.string().min(1).optional(),
+  callId: z.string().trim().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+// GET /api/audit-events?page=&pageSize=&entityType=&entityId=&action=&actorType=&actorUserId=&callId=&from=&to=
+// The practice's audit log, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'audit:read');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = AuditEventQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { page, pageSize, from, to, ...filters } = validation.data;
+
+    const where: Prisma.AuditEventWhereInput = {
+      ...(filters.entityType && { entityType: filters.entityType }),
+      ...(filters.entityId && { entityId: filters.entityId }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.actorType && { actorType: filters.actorType }),
+      ...(filters.actorUserId && { actorUserId: filters.actorUserId }),
+      ...(filters.callId && { callId: filters.callId }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      }),
+    };
+
+    const [events, total] = await db.$transaction([
+      db.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      db.auditEvent.count({ where }),
+    ]);
+
+    return NextResponse.json({ events, total, page, pageSize });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit events' }, { status: 500 });
+  }
+}
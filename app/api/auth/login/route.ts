@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { createSession, setSessionCookie } from '@/lib/auth';
+import { hashPassword, verifyPassword } from '@/lib/passwords';
+
+const LoginSchema = z.object({
+  email: z.string().trim().min(1, 'Email is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const validation = LoginSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400 });
+    }
+    const { email, password } = validation.data;
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true, name: true, email: true, role: true, organizationId: true, passwordHash: true },
+    });
+
+    let valid = false;
+    if (user?.passwordHash) {
+      valid = await verifyPassword(password, user.passwordHash);
+    } else {
+      // Spend the same time as a real check so response times don't reveal which emails exist
+      await hashPassword(password);
+    }
+    // One answer for every failure, for the same reason
+    if (!user || !valid) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    const { token, expiresAt } = await createSession(user.id, request.headers.get('user-agent'));
+    const { id, name, role, organizationId } = user;
+    const response = NextResponse.json({ id, name, email: user.email, role, organizationId });
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, endSession } from '@/lib/auth';
+
+export async function POST(request: Request) {
+  try {
+    await endSession(request);
+  } catch (error) {
+    // The cookie is cleared regardless; an orphaned session row just expires
+    console.error('Error ending session:', error);
+  }
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return NextResponse.json({ error: 'Failed to fetch current user' }, { status: 500 });
+  }
+}
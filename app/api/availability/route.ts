@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
+import { findAppointmentType } from '@/lib/scheduling';
+import { findOpenSlots } from '@/lib/slotSearch';
+
+const AvailabilityQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  count: z.coerce.number().int().min(1).max(50).default(5),
+  appointmentTypeId: z.string().min(1).optional(),
+  durationMinutes: z.coerce.number().int().min(5).max(8 * 60).optional(),
+  providerId: z.string().min(1).optional(),
+  partOfDay: z.enum(['morning', 'afternoon']).optional(),
+  dayOfWeek: z.coerce.number().int().min(0).max(6).optional(),
+  searchDays: z.coerce.number().int().min(1).max(180).optional(),
+  stepMinutes: z.coerce.number().int().min(5).max(120).optional(),
+});
+
+// GET /api/availability?from=&count=&appointmentTypeId=&providerId=&partOfDay=&dayOfWeek=
+// Returns the earliest open slots after `from` (default now)
+export async function GET(request: NextRequest) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = AvailabilityQuerySchema.safeParse(query);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { from, appointmentTypeId, durationMinutes, ...options } = validation.data;
+
+    const appointmentType = await findAppointmentType({ organizationId: organization.id, appointmentTypeId });
+    if (appointmentTypeId && !appointmentType) {
+      return NextResponse.json({ error: 'Appointment type not found' }, { status: 404 });
+    }
+
+    const slots = await findOpenSlots(from ? new Date(from) : new Date(), {
+      ...options,
+      organizationId: organization.id,
+      durationMinutes: durationMinutes ?? appointmentType?.durationMinutes,
+      providerRole: appointmentType?.requiredRole,
+    });
+
+    return NextResponse.json({ slots });
+  } catch (error) {
+    console.error('Error finding available slots:', error);
+    return NextResponse.json(
+      { error: 'Failed to find available slots' },
+      { status: 500 }
+    );
+  }
+}
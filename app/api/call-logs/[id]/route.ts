@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+
+type ParamsPromise = Promise<{ id: string }>;
+
+// GET a single stored call, by our id or by the Vapi call id (as stored on Task.callId)
+export async function GET(
+  request: Request,
+  { params }: { params: ParamsPromise }
+) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const { id } = await params;
+    const callLog = await db.callLog.findFirst({
+      where: { OR: [{ id }, { vapiCallId: id }] },
+      include: {
+        patient: {
+          select: { id: true, firstName: true, lastName: true, dateOfBirth: true, phoneNumber: true, email: true },
+        },
+      },
+    });
+
+    if (!callLog) {
+      return NextResponse.json({ error: 'Call log not found' }, { status: 404 });
+    }
+
+    const taskGeneration = await db.taskGenerationRun.findUnique({
+      where: { callId: callLog.vapiCallId },
+      select: { status: true, error: true, attempts: true, startedAt: true, finishedAt: true },
+    });
+
+    return NextResponse.json({ ...callLog, taskGeneration });
+  } catch (error) {
+    console.error('Error fetching call log:', error);
+    return NextResponse.json({ error: 'Failed to fetch call log' }, { status: 500 });
+  }
+}
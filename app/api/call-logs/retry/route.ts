@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { retryVapiEvents } from '@/lib/vapiWebhook';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+const RetrySchema = z.object({
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/call-logs/retry - re-run follow-up work (call logs, tasks) for webhook events that failed
+export async function POST(request: Request) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const body = await request.json().catch(() => ({}));
+    const validation = RetrySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const result = await retryVapiEvents(organization.id, validation.data);
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'CallLog',
+      entityId: organization.id,
+      action: 'sync',
+      after: result,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error retrying Vapi events:', error);
+    return NextResponse.json({ error: 'Failed to retry Vapi events' }, { status: 500 });
+  }
+}
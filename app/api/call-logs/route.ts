@@ -1,101 +1,75 @@
 import { NextResponse } from 'next/server';
-import { VapiClient } from '@vapi-ai/server-sdk';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { callLogSummarySelect } from '@/lib/callLogs';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
 
-// Interface for the data we want to send to the frontend
-interface CallLogInfo {
-  id: string; // Use id instead of callId for consistency
-  createdAt: string; // ISO string
-  endedAt: string | null; // ISO string or null
-  durationSeconds: number | null; // Calculated duration
-  status: string; // Use string for status
-  endedReason: string | null;
-  transcript: string | null;
-  summary: string | null;
-  structuredData: Record<string, unknown> | null;
-  recordingUrl: string | null; // Added recording URL
-}
-
-// Logging Utility
-function log(message: string, data?: unknown) {
-    console.log(`[${new Date().toISOString()}] [api/call-logs] ${message}`);
-    if (data !== undefined) {
-        console.log(JSON.stringify(data, null, 2));
-    }
-}
-
-export async function GET(request: Request) {
-    log("GET request received");
-  const { searchParams } = new URL(request.url);
-    // Keep assistantId filtering optional for now, can fetch all org logs
-  const assistantId = searchParams.get('assistantId');
-    // Default to 10 most recent calls unless specified otherwise
-    const limit = Number.parseInt(searchParams.get('limit') || '10', 10);
-
-    const VAPI_API_KEY = process.env.VAPI_API_KEY;
-    if (!VAPI_API_KEY) {
-        log("VAPI_API_KEY is not set");
-        return NextResponse.json({ error: 'Server configuration error: API key missing' }, { status: 500 });
-  }
+const CallLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().trim().min(1).optional(),
+  status: z.string().min(1).optional(),
+  endedReason: z.string().min(1).optional(),
+  assistantId: z.string().min(1).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
 
+// GET /api/call-logs?page=&pageSize=&search=&status=&endedReason=&assistantId=&from=&to=
+// Stored calls, newest first. Transcripts are left out; fetch /api/call-logs/[id] for the full record.
+export async function GET(request: NextRequest) {
   try {
-        const client = new VapiClient({ token: VAPI_API_KEY });
-
-        log(`Fetching calls ${assistantId ? `for assistant ${assistantId}` : 'for organization'} with limit ${limit}`);
-        // Prepare list options
-        const listOptions: { assistantId?: string; limit: number } = { limit };
-        if (assistantId) {
-            listOptions.assistantId = assistantId;
-        }
-
-        // Get the list of basic call info
-        const callsList = await client.calls.list(listOptions);
-        log(`Found ${callsList.length} calls in list.`);
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
 
-        // Fetch detailed information concurrently
-        const detailPromises = callsList.map(async (basicCall) => {
-            if (!basicCall.id) return null;
-      try {
-        const detailedCall = await client.calls.get(basicCall.id);
-                log(`Fetched details for call: ${detailedCall.id}`);
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const validation = CallLogQuerySchema.safeParse(query);
 
-                // Calculate duration
-                let durationSeconds: number | null = null;
-                if (detailedCall.startedAt && detailedCall.endedAt) {
-                    durationSeconds = Math.round(
-                        (new Date(detailedCall.endedAt).getTime() - new Date(detailedCall.startedAt).getTime()) / 1000
-                    );
-                }
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
 
-                // Map to our frontend interface
-                const callLogInfo: CallLogInfo = {
-                    id: detailedCall.id || '',  // Ensure id is always a string
-                    createdAt: detailedCall.createdAt as string || new Date().toISOString(), // Fallback to current time
-          endedAt: detailedCall.endedAt as string | null,
-                    durationSeconds: durationSeconds,
-                    status: detailedCall.status || 'unknown',
-                    endedReason: detailedCall.endedReason || null,
-                    transcript: detailedCall.artifact?.transcript || null,
-                    summary: detailedCall.analysis?.summary || null,
-                    structuredData: detailedCall.analysis?.structuredData || null,
-                    recordingUrl: detailedCall.artifact?.recordingUrl || null, // Get recording URL
-                };
-                return callLogInfo;
-            } catch (callDetailError) {
-                log(`Error fetching details for call ${basicCall.id}:`, callDetailError);
-                return null; // Skip this call if details fail
-            }
-        });
+    const { page, pageSize, search, status, endedReason, assistantId, from, to } = validation.data;
 
-        const detailedCallsResults = await Promise.all(detailPromises);
-        const successfulDetailedCalls = detailedCallsResults.filter((call): call is CallLogInfo => call !== null);
+    const where: Prisma.CallLogWhereInput = {
+      ...(status && { status }),
+      ...(endedReason && { endedReason }),
+      ...(assistantId && { assistantId }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { gte: new Date(from) }),
+          ...(to && { lte: new Date(to) }),
+        },
+      }),
+      ...(search && {
+        OR: [
+          { summary: { contains: search, mode: 'insensitive' } },
+          { transcript: { contains: search, mode: 'insensitive' } },
+          { callerPhone: { contains: search } },
+          { vapiCallId: search },
+        ],
+      }),
+    };
 
-        log(`Returning ${successfulDetailedCalls.length} detailed call logs.`);
-        return NextResponse.json(successfulDetailedCalls);
+    const [calls, total] = await db.$transaction([
+      db.callLog.findMany({
+        where,
+        select: callLogSummarySelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      db.callLog.count({ where }),
+    ]);
 
+    return NextResponse.json({ calls, total, page, pageSize });
   } catch (error) {
-        log('Error fetching call logs:', error);
-        const message = error instanceof Error ? error.message : 'Failed to retrieve call logs.';
-        // Don't return mock data in production, return the error
-        return NextResponse.json({ error: message }, { status: 500 });
+    console.error('Error fetching call logs:', error);
+    return NextResponse.json({ error: 'Failed to fetch call logs' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
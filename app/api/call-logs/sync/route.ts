@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { syncCallLogsFromVapi } from '@/lib/callLogs';
+import { findOrganizationAssistant } from '@/lib/assistants';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+const SyncSchema = z.object({
+  assistantId: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/call-logs/sync - backfill calls the webhook missed from the Vapi API
+export async function POST(request: Request) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const body = await request.json().catch(() => ({}));
+    const validation = SyncSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { assistantId } = validation.data;
+    if (assistantId && !(await findOrganizationAssistant(organization.id, assistantId))) {
+      return NextResponse.json({ error: 'Assistant not found' }, { status: 404 });
+    }
+
+    const result = await syncCallLogsFromVapi(validation.data);
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'CallLog',
+      entityId: assistantId ?? organization.id,
+      action: 'sync',
+      after: result,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error syncing call logs:', error);
+    const message = error instanceof Error ? error.message : 'Failed to sync call logs';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -9,6 +12,10 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
     const { fileIds, toolName, kbName, kbDescription } = await request.json();
 
     if (!Array.isArray(fileIds) || fileIds.length === 0) {
@@ -77,6 +84,12 @@ export async function POST(request: Request) {
     }
 
     console.log(`Successfully created query tool "${toolName}". Tool ID: ${responseData.id}`);
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'VapiTool',
+      entityId: responseData.id,
+      action: 'create',
+      after: responseData,
+    });
     return NextResponse.json({ toolId: responseData.id });
 
   } catch (error) {
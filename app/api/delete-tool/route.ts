@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { VapiClient } from '@vapi-ai/server-sdk';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -11,6 +14,10 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
     // Parse request body
     const body = await request.json() as { toolId: string };
     const { toolId } = body;
@@ -25,10 +32,19 @@ export async function POST(request: Request) {
     // Initialize Vapi Client
     const vapi = new VapiClient({ token: VAPI_API_KEY });
 
+    // Kept for the audit log, which is all that will be left of the tool
+    const tool = await vapi.tools.get(toolId);
+
     // Delete the tool
     await vapi.tools.delete(toolId);
     
     console.log(`[delete-tool] Successfully deleted tool ${toolId}`);
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'VapiTool',
+      entityId: toolId,
+      action: 'delete',
+      before: tool,
+    });
     return NextResponse.json({ success: true });
   } catch (error) {
     // Log and return error
@@ -1,113 +1,94 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import type { Role, TaskPriority } from '@prisma/client';
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
 import { z } from 'zod';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { generatedTaskInclude, generateTasksForCall } from '@/lib/taskGeneration';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { requirePermission } from '@/lib/auth';
 
-// Define the schema for task generation
-const TaskSchema = z.object({
-  description: z.string().min(5).describe("Clear, concise description of the task."),
-  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).describe("Estimated task priority."),
-  assignedRole: z.enum([
-    "ADMIN",
-    "DENTIST", 
-    "RECEPTIONIST", 
-    "OFFICE_MANAGER", 
-    "BILLING_SPECIALIST"
-  ]).nullable().describe("The role best suited for this task based on responsibilities, or null if unsure.")
+const GenerateTasksSchema = z.object({
+  callId: z.string().min(1),
+  // Drop this call's earlier suggestions that are still pending
+  replace: z.boolean().optional().default(false),
+  // Link the call to this patient first, e.g. when caller ID matched nobody or the wrong person
+  patientId: z.string().min(1).optional(),
 });
 
-const TaskListSchema = z.object({
-  tasks: z.array(TaskSchema).describe("List of generated tasks.")
-});
-
-// Task type for the generated tasks
-type GeneratedTask = {
-  description: string;
-  priority: "LOW" | "MEDIUM" | "HIGH" | "URGENT";
-  assignedRole: Role | null;
-};
-
+// POST /api/generate-tasks - explicit (re-)run of task generation for a stored call.
+// Generation also runs automatically once when the call's end-of-call report arrives;
+// a call that already has tasks only gets new ones with replace: true.
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission(request, 'task:create');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
     const body = await request.json();
-    
-    // Validate required fields
-    if (!body.organizationId || !body.callId || !body.summary || !body.transcript) {
+    const validation = GenerateTasksSchema.safeParse(body);
+
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Missing required fields' },
+        { error: 'Invalid input', details: validation.error.flatten() },
         { status: 400 }
       );
     }
-    
-    // Fetch role responsibilities for the organization
-    const roleResponsibilities = await prisma.roleResponsibility.findMany({
-      where: {
-        organizationId: body.organizationId,
-      },
-    });
-
-    // Format role responsibilities for the prompt
-    const roleDescriptions = roleResponsibilities.map(resp => 
-      `ROLE: ${resp.role}, RESPONSIBILITIES: ${resp.description}`
-    ).join('\n');
-    
-    // Construct the prompt
-    const prompt = `
-You are an AI assistant for a dental practice. Your job is to analyze call data and generate appropriate follow-up tasks.
-
-CALL SUMMARY:
-${body.summary}
 
-CALL TRANSCRIPT:
-${body.transcript}
+    const { callId, replace, patientId } = validation.data;
+    const actor = await staffActor(request);
 
-${body.structuredData ? `STRUCTURED DATA FROM CALL:\n${JSON.stringify(body.structuredData, null, 2)}\n` : ''}
-
-ROLE RESPONSIBILITIES IN THE DENTAL PRACTICE:
-${roleDescriptions}
+    const call = await db.callLog.findUnique({ where: { vapiCallId: callId }, select: { id: true, patientId: true } });
+    if (!call) {
+      return NextResponse.json({ error: 'Call not found' }, { status: 404 });
+    }
 
-Based on the call information above and the defined role responsibilities, generate a list of necessary follow-up tasks. 
-For each task, provide a clear description, suggest a priority (LOW, MEDIUM, HIGH, URGENT), and assign it to the most appropriate role based on the responsibilities.
-Only create tasks that are necessary and relevant to the call content.
-If no specific role fits for a task, assign null.
-`;
+    if (patientId) {
+      const patient = await db.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+      if (!patient) {
+        return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+      }
+      await db.$transaction(async (tx) => {
+        await tx.callLog.update({ where: { vapiCallId: callId }, data: { patientId } });
+        await recordAuditEvent(organization.id, actor, {
+          entityType: 'CallLog',
+          entityId: call.id,
+          action: 'update',
+          before: { patientId: call.patientId },
+          after: { patientId },
+        }, tx);
+      });
+    }
 
-    // Generate tasks using OpenAI
-    const { object } = await generateObject({
-      model: openai('gpt-4o-mini'),
-      schema: TaskListSchema,
-      prompt,
-    });
+    const result = await generateTasksForCall(callId, { replace, actor });
 
-    // Save generated tasks to database
-    const createdTasks = await Promise.all(
-      object.tasks.map((task: GeneratedTask) => 
-        prisma.task.create({
-          data: {
-            description: task.description,
-            priority: task.priority as TaskPriority,
-            assignedRole: task.assignedRole as Role | null,
-            callId: body.callId,
-            organizationId: body.organizationId,
-            // Connect to appointment if provided
-            appointmentId: body.appointmentId || null,
-          },
-          include: {
-            assignedTo: true,
-            appointment: {
-              include: {
-                patient: true,
-              },
-            },
+    switch (result.outcome) {
+      case 'call-not-found':
+        return NextResponse.json({ error: 'Call not found' }, { status: 404 });
+      case 'nothing-to-analyse':
+        return NextResponse.json({ error: 'Call has no summary or transcript yet' }, { status: 422 });
+      case 'in-progress':
+        return NextResponse.json(
+          { error: 'Tasks are already being generated for this call', run: result.run },
+          { status: 409 }
+        );
+      case 'already-generated':
+        return NextResponse.json(
+          {
+            error: 'Tasks were already generated for this call. Replace previous suggestions to generate them again.',
+            run: result.run,
+            tasks: await db.task.findMany({
+              where: { generationRunId: result.run.id },
+              include: generatedTaskInclude,
+              orderBy: { createdAt: 'asc' },
+            }),
           },
-        })
-      )
-    );
-
-    return NextResponse.json(createdTasks);
+          { status: 409 }
+        );
+      case 'generated':
+        return NextResponse.json({ run: result.run, tasks: result.tasks });
+    }
   } catch (error) {
     console.error('Error generating tasks:', error);
     return NextResponse.json(
@@ -115,4 +96,4 @@ If no specific role fits for a task, assign null.
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -17,6 +18,10 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'assistantId is required.' }, { status: 400 });
     }
 
+    // Only the practice's own assistants can be read or changed
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
     console.log(`API: Fetching config for assistant ID: ${assistantId}`);
     const response = await fetch(`https://api.vapi.ai/assistant/${assistantId}`, {
       method: 'GET',
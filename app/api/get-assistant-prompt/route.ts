@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
-const VAPI_ASSISTANT_ID = process.env.VAPI_ASSISTANT_ID;
 
 // Define interface for message object
 interface VapiMessage {
@@ -9,15 +9,26 @@ interface VapiMessage {
   content: string;
 }
 
-export async function GET() {
-  if (!VAPI_API_KEY || !VAPI_ASSISTANT_ID) {
-    console.error('API Key or Assistant ID is missing in server environment variables.');
+export async function GET(request: Request) {
+  if (!VAPI_API_KEY) {
+    console.error('API Key missing in server environment.');
     return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
   }
 
   try {
-    console.log(`Fetching assistant configuration for ID: ${VAPI_ASSISTANT_ID}`);
-    const response = await fetch(`https://api.vapi.ai/assistant/${VAPI_ASSISTANT_ID}`, {
+    const url = new URL(request.url);
+    const assistantId = url.searchParams.get('id');
+
+    if (!assistantId) {
+      return NextResponse.json({ error: 'assistantId is required.' }, { status: 400 });
+    }
+
+    // Only the practice's own assistants can be read
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
+    console.log(`Fetching assistant configuration for ID: ${assistantId}`);
+    const response = await fetch(`https://api.vapi.ai/assistant/${assistantId}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${VAPI_API_KEY}`,
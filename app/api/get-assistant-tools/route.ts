@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { VapiClient } from '@vapi-ai/server-sdk';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -38,6 +39,10 @@ export async function GET(request: Request) {
   console.log(`[get-assistant-tools] Received request for assistantId: ${assistantId}`);
 
   try {
+    // Only the practice's own assistants can be inspected
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
     // Initialize Vapi Client
     const vapi = new VapiClient({ token: VAPI_API_KEY });
 
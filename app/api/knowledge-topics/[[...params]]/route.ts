@@ -1,17 +1,14 @@
 import { NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
 import { z } from 'zod'; // For input validation
+import { findOrganizationAssistant } from '@/lib/assistants';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
 import { uploadFileToVapi, generateVapiNamesUtil, vapiFetch } from '@/lib/vapiUtils'; // Import helpers
-
-const prisma = new PrismaClient();
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { createLogger, errorMessage } from '@/lib/logger';
 
 // --- Logging Utility ---
-function log(message: string, data?: unknown) {
-    console.log(`[${new Date().toISOString()}] [knowledge-topics] ${message}`);
-    if (data !== undefined) {
-        console.log(JSON.stringify(data, null, 2));
-    }
-}
+const log = createLogger('knowledge-topics');
 
 // --- CORS Headers ---
 const corsHeaders = {
@@ -48,18 +45,19 @@ export async function GET(request: Request) {
     }
 
     try {
-        const topics = await prisma.knowledgeTopic.findMany({
+        const organization = await resolveRequestOrganization(request);
+        if (!organization) return organizationRequiredResponse(corsHeaders);
+        const db = scopedPrisma(organization.id);
+        const topics = await db.knowledgeTopic.findMany({
             where: { assistantId: assistantId },
             orderBy: { createdAt: 'asc' },
         });
         log(`Found ${topics.length} topics for assistant ${assistantId}`);
         return NextResponse.json(topics, { status: 200, headers: corsHeaders });
     } catch (error) {
-        log('Error fetching knowledge topics from DB', error);
+        log('Error fetching knowledge topics from DB', { error: errorMessage(error) });
         const message = error instanceof Error ? error.message : 'Failed to retrieve knowledge topics.';
         return NextResponse.json({ error: message }, { status: 500, headers: corsHeaders });
-    } finally {
-        await prisma.$disconnect().catch(e => log('Error disconnecting Prisma', e));
     }
 }
 
@@ -67,11 +65,16 @@ export async function GET(request: Request) {
 export async function POST(request: Request) {
     log("POST request received");
     try {
+        const denied = await requirePermission(request, 'assistant:manage', corsHeaders);
+        if (denied) return denied;
+        const organization = await resolveRequestOrganization(request);
+        if (!organization) return organizationRequiredResponse(corsHeaders);
+        const db = scopedPrisma(organization.id);
         const body = await request.json();
         const validation = PostTopicSchema.safeParse(body);
 
         if (!validation.success) {
-            log('Invalid POST request body', validation.error.errors);
+            log('Invalid POST request body', { issues: validation.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`) });
             return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400, headers: corsHeaders });
         }
 
@@ -80,6 +83,11 @@ export async function POST(request: Request) {
         const { topicName, content } = validation.data;
         log(`Processing POST for topic "${topicName}" for assistant ${assistantId}`);
 
+        // Topics are attached to the assistant in Vapi, so it must be one of the practice's own
+        if (!(await findOrganizationAssistant(organization.id, assistantId))) {
+            return NextResponse.json({ error: 'Assistant not found' }, { status: 404, headers: corsHeaders });
+        }
+
         const { vapiFileName, vapiToolName, vapiKbName, vapiDescription } = generateVapiNamesUtil(topicName);
 
         let vapiFileId: string | null = null;
@@ -148,7 +156,7 @@ export async function POST(request: Request) {
             let currentModelObject: VapiModelPartial | null = null;
             if (assistantData && typeof assistantData === 'object' && 'model' in assistantData && assistantData.model && typeof assistantData.model === 'object') {
                 currentModelObject = assistantData.model as VapiModelPartial;
-                log('Successfully retrieved current model object from assistant', currentModelObject);
+                log('Successfully retrieved current model object from assistant', { provider: currentModelObject.provider, model: currentModelObject.model });
             } else {
                 // Fallback or throw error if model object is missing/invalid
                 log('Warning: Could not retrieve valid current model object from assistant. Check Vapi response. Throwing error.');
@@ -170,7 +178,7 @@ export async function POST(request: Request) {
                     toolIds: newToolIds    // Override only the toolIds
                 }
             };
-            log('Sending FULL model object PATCH payload to update assistant', assistantUpdatePayload);
+            log('Sending FULL model object PATCH payload to update assistant');
             // -------------------------------------------------------------
 
             await vapiFetch(`/assistant/${assistantId}`, {
@@ -182,25 +190,36 @@ export async function POST(request: Request) {
 
             // 4. Create KnowledgeTopic in Local DB
             log(`Saving KnowledgeTopic "${topicName}" to local DB...`);
-            const newTopic = await prisma.knowledgeTopic.create({
-                data: {
-                    topicName: topicName.trim(),
-                    content: content,
-                    assistantId: assistantId,
-                    vapiToolId: vapiToolId,
-                    vapiFileId: vapiFileId,
-                    vapiKbName: vapiKbName,
-                    vapiToolName: vapiToolName,
-                    vapiFileName: vapiFileName,
-                    vapiDescription: vapiDescription,
-                }
+            const actor = await staffActor(request);
+            const newTopic = await db.$transaction(async (tx) => {
+                const record = await tx.knowledgeTopic.create({
+                    data: {
+                        organizationId: organization.id,
+                        topicName: topicName.trim(),
+                        content: content,
+                        assistantId: assistantId,
+                        vapiToolId: vapiToolId,
+                        vapiFileId: vapiFileId,
+                        vapiKbName: vapiKbName,
+                        vapiToolName: vapiToolName,
+                        vapiFileName: vapiFileName,
+                        vapiDescription: vapiDescription,
+                    }
+                });
+                await recordAuditEvent(organization.id, actor, {
+                    entityType: 'KnowledgeTopic',
+                    entityId: record.id,
+                    action: 'create',
+                    after: record,
+                }, tx);
+                return record;
             });
-            log('KnowledgeTopic saved to DB successfully', newTopic);
+            log('KnowledgeTopic saved to DB successfully', { id: newTopic.id });
 
             return NextResponse.json(newTopic, { status: 201, headers: corsHeaders });
 
         } catch (vapiError) {
-            log('Error during Vapi operations or DB save', vapiError);
+            log('Error during Vapi operations or DB save', { error: errorMessage(vapiError) });
             // --- Rollback Vapi Resources ---
              if (vapiToolId && assistantUpdated) {
                  log(`Attempting rollback: Detach tool ${vapiToolId} from assistant ${assistantId}`);
@@ -217,7 +236,7 @@ export async function POST(request: Request) {
                      });
                      log(`Rollback: Tool ${vapiToolId} detached from assistant ${assistantId}`);
                  } catch (rollbackError) {
-                     log(`CRITICAL: Failed to detach tool ${vapiToolId} during rollback`, rollbackError);
+                     log(`CRITICAL: Failed to detach tool ${vapiToolId} during rollback`, { error: errorMessage(rollbackError) });
                  }
             }
             if (vapiToolId) {
@@ -226,7 +245,7 @@ export async function POST(request: Request) {
                      await vapiFetch(`/tool/${vapiToolId}`, { method: 'DELETE' });
                      log(`Rollback: Tool ${vapiToolId} deleted`);
                  } catch (rollbackError) {
-                     log(`CRITICAL: Failed to delete tool ${vapiToolId} during rollback`, rollbackError);
+                     log(`CRITICAL: Failed to delete tool ${vapiToolId} during rollback`, { error: errorMessage(rollbackError) });
                  }
             }
              if (vapiFileId) {
@@ -235,7 +254,7 @@ export async function POST(request: Request) {
                      await vapiFetch(`/file/${vapiFileId}`, { method: 'DELETE' });
                      log(`Rollback: File ${vapiFileId} deleted`);
                  } catch (rollbackError) {
-                     log(`CRITICAL: Failed to delete file ${vapiFileId} during rollback`, rollbackError);
+                     log(`CRITICAL: Failed to delete file ${vapiFileId} during rollback`, { error: errorMessage(rollbackError) });
                  }
             }
             const message = vapiError instanceof Error ? vapiError.message : 'Failed to create knowledge topic.';
@@ -243,11 +262,9 @@ export async function POST(request: Request) {
         }
 
     } catch (error) {
-        log('Unhandled error in POST handler', error);
+        log('Unhandled error in POST handler', { error: errorMessage(error) });
         const message = error instanceof Error ? error.message : 'An unknown server error occurred.';
         return NextResponse.json({ error: message }, { status: 500, headers: corsHeaders });
-    } finally {
-        await prisma.$disconnect().catch(e => log('Error disconnecting Prisma', e));
     }
 }
 
@@ -267,11 +284,16 @@ export async function PUT(
 
     let assistantIdFromBody: string | undefined; // For use in catch/finally
     try {
+        const denied = await requirePermission(request, 'assistant:manage', corsHeaders);
+        if (denied) return denied;
+        const organization = await resolveRequestOrganization(request);
+        if (!organization) return organizationRequiredResponse(corsHeaders);
+        const db = scopedPrisma(organization.id);
         const body = await request.json();
         const validation = PutTopicSchema.safeParse(body);
 
         if (!validation.success) {
-            log('Invalid PUT request body', validation.error.errors);
+            log('Invalid PUT request body', { issues: validation.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`) });
             return NextResponse.json({ error: 'Invalid input', details: validation.error.flatten() }, { status: 400, headers: corsHeaders });
         }
 
@@ -280,7 +302,7 @@ export async function PUT(
         log(`Processing PUT for topic "${topicName}" (toolId: ${toolId})`);
 
         // 1. Fetch existing topic from DB
-        const existingTopic = await prisma.knowledgeTopic.findUnique({
+        const existingTopic = await db.knowledgeTopic.findUnique({
             where: { vapiToolId: toolId },
         });
 
@@ -339,31 +361,42 @@ export async function PUT(
              if (oldVapiFileId) {
                  log(`Deleting old Vapi file ${oldVapiFileId}...`);
                  await vapiFetch(`/file/${oldVapiFileId}`, { method: 'DELETE' }).catch(delErr => {
-                      log(`WARNING: Failed to delete old Vapi file ${oldVapiFileId}. Manual cleanup might be needed.`, delErr);
+                      log(`WARNING: Failed to delete old Vapi file ${oldVapiFileId}. Manual cleanup might be needed.`, { error: errorMessage(delErr) });
                  });
                  log(`Old Vapi file ${oldVapiFileId} deleted (or deletion attempted).`);
              }
 
             // 5. Update KnowledgeTopic in Local DB
             log(`Updating KnowledgeTopic ${existingTopic.id} in local DB...`);
-            const updatedTopic = await prisma.knowledgeTopic.update({
-                where: { id: existingTopic.id },
-                data: {
-                    topicName: topicName.trim(),
-                    content: content,
-                    vapiFileId: newVapiFileId,
-                    vapiFileName: names.vapiFileName,
-                    vapiDescription: names.vapiDescription,
-                    vapiToolName: names.vapiToolName, // Update tool name if regenerated
-                    vapiKbName: names.vapiKbName,     // Update KB name if regenerated
-                }
+            const actor = await staffActor(request);
+            const updatedTopic = await db.$transaction(async (tx) => {
+                const record = await tx.knowledgeTopic.update({
+                    where: { id: existingTopic.id },
+                    data: {
+                        topicName: topicName.trim(),
+                        content: content,
+                        vapiFileId: newVapiFileId,
+                        vapiFileName: names.vapiFileName,
+                        vapiDescription: names.vapiDescription,
+                        vapiToolName: names.vapiToolName, // Update tool name if regenerated
+                        vapiKbName: names.vapiKbName,     // Update KB name if regenerated
+                    }
+                });
+                await recordAuditEvent(organization.id, actor, {
+                    entityType: 'KnowledgeTopic',
+                    entityId: record.id,
+                    action: 'update',
+                    before: existingTopic,
+                    after: record,
+                }, tx);
+                return record;
             });
-            log('KnowledgeTopic updated in DB successfully', updatedTopic);
+            log('KnowledgeTopic updated in DB successfully', { id: updatedTopic.id });
 
             return NextResponse.json(updatedTopic, { status: 200, headers: corsHeaders });
 
         } catch (vapiError) {
-            log('Error during Vapi operations or DB update', vapiError);
+            log('Error during Vapi operations or DB update', { error: errorMessage(vapiError) });
              // --- Rollback attempt for new file ---
              if (newVapiFileId) {
                  log(`Attempting rollback: Delete newly uploaded file ${newVapiFileId}`);
@@ -371,7 +404,7 @@ export async function PUT(
                      await vapiFetch(`/file/${newVapiFileId}`, { method: 'DELETE' });
                      log(`Rollback: New file ${newVapiFileId} deleted`);
                  } catch (rollbackError) {
-                     log(`CRITICAL: Failed to delete newly uploaded file ${newVapiFileId} during PUT rollback`, rollbackError);
+                     log(`CRITICAL: Failed to delete newly uploaded file ${newVapiFileId} during PUT rollback`, { error: errorMessage(rollbackError) });
                  }
              }
             const message = vapiError instanceof Error ? vapiError.message : 'Failed to update knowledge topic.';
@@ -379,11 +412,9 @@ export async function PUT(
         }
 
     } catch (error) {
-        log('Unhandled error in PUT handler', error);
+        log('Unhandled error in PUT handler', { error: errorMessage(error) });
         const message = error instanceof Error ? error.message : 'An unknown server error occurred.';
         return NextResponse.json({ error: message }, { status: 500, headers: corsHeaders });
-    } finally {
-        await prisma.$disconnect().catch(e => log('Error disconnecting Prisma', e));
     }
 }
 
@@ -402,8 +433,13 @@ export async function DELETE(
     }
 
      try {
+        const denied = await requirePermission(request, 'assistant:manage', corsHeaders);
+        if (denied) return denied;
+        const organization = await resolveRequestOrganization(request);
+        if (!organization) return organizationRequiredResponse(corsHeaders);
+        const db = scopedPrisma(organization.id);
         // 1. Fetch existing topic from DB to get Vapi IDs and assistantId
-        const existingTopic = await prisma.knowledgeTopic.findUnique({
+        const existingTopic = await db.knowledgeTopic.findUnique({
             where: { vapiToolId: toolId },
         });
 
@@ -433,7 +469,7 @@ export async function DELETE(
                     toolIds: filteredToolIds // Send ONLY the updated toolIds array
                 }
             };
-            log('Sending minimal PATCH payload to update assistant', assistantUpdatePayload);
+            log('Sending minimal PATCH payload to update assistant', { toolIds: filteredToolIds });
             
             await vapiFetch(`/assistant/${assistantId}`, {
                 method: 'PATCH',
@@ -470,13 +506,22 @@ export async function DELETE(
 
         // 5. Delete from Local DB
         log(`Deleting KnowledgeTopic ${existingTopic.id} from local DB...`);
-        await prisma.knowledgeTopic.delete({
-            where: { id: existingTopic.id },
+        const actor = await staffActor(request);
+        await db.$transaction(async (tx) => {
+            await tx.knowledgeTopic.delete({
+                where: { id: existingTopic.id },
+            });
+            await recordAuditEvent(organization.id, actor, {
+                entityType: 'KnowledgeTopic',
+                entityId: existingTopic.id,
+                action: 'delete',
+                before: existingTopic,
+            }, tx);
         });
         log('KnowledgeTopic deleted from DB successfully.');
 
         if (vapiErrors.length > 0) {
-             log('DELETE completed with Vapi errors. Local DB record deleted.', vapiErrors);
+             log('DELETE completed with Vapi errors. Local DB record deleted.', { errors: vapiErrors });
              // Return 200 with message instead of 204
              return NextResponse.json({ message: "Knowledge topic deleted from database. Some Vapi resources might require manual cleanup.", details: vapiErrors }, { status: 200, headers: corsHeaders });
         }
@@ -485,11 +530,9 @@ export async function DELETE(
         return new NextResponse(null, { status: 204, headers: corsHeaders }); // No content on successful delete
 
     } catch (error) {
-        log('Unhandled error in DELETE handler', error);
+        log('Unhandled error in DELETE handler', { error: errorMessage(error) });
         const message = error instanceof Error ? error.message : 'An unknown server error occurred while deleting the knowledge topic.';
         return NextResponse.json({ error: message }, { status: 500, headers: corsHeaders });
-    } finally {
-        await prisma.$disconnect().catch(e => log('Error disconnecting Prisma', e));
     }
 }
 
@@ -0,0 +1,11 @@
+import { laineTools } from '@/lib/laineTools';
+import { createToolCallRoute, toolCallOptions } from '@/lib/vapiToolCalls';
+
+// Calls without a recognised tool name are treated as cancellations
+export const POST = createToolCallRoute({
+  scope: 'cancel-appointment',
+  tools: laineTools,
+  defaultTool: 'cancelAppointment',
+});
+
+export const OPTIONS = toolCallOptions;
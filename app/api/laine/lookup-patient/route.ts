@@ -0,0 +1,11 @@
+import { laineTools } from '@/lib/laineTools';
+import { createToolCallRoute, toolCallOptions } from '@/lib/vapiToolCalls';
+
+// Calls without a recognised tool name are treated as patient lookups
+export const POST = createToolCallRoute({
+  scope: 'lookup-patient',
+  tools: laineTools,
+  defaultTool: 'lookupPatient',
+});
+
+export const OPTIONS = toolCallOptions;
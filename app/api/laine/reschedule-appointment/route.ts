@@ -0,0 +1,11 @@
+import { laineTools } from '@/lib/laineTools';
+import { createToolCallRoute, toolCallOptions } from '@/lib/vapiToolCalls';
+
+// Calls without a recognised tool name are treated as reschedules
+export const POST = createToolCallRoute({
+  scope: 'reschedule-appointment',
+  tools: laineTools,
+  defaultTool: 'rescheduleAppointment',
+});
+
+export const OPTIONS = toolCallOptions;
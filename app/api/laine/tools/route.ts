@@ -0,0 +1,10 @@
+import { laineTools } from '@/lib/laineTools';
+import { createToolCallRoute, toolCallOptions } from '@/lib/vapiToolCalls';
+
+// Single server URL for all laine tools; each call is dispatched by its function name
+export const POST = createToolCallRoute({
+  scope: 'laine-tools',
+  tools: laineTools,
+});
+
+export const OPTIONS = toolCallOptions;
@@ -1,4 +1,9 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { readNexhealthToken } from '@/lib/nexhealthToken';
+import { addZonedDays, parseInTimeZone } from '@/lib/dates';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
 
 const NEXHEALTH_API_BASE_URL = 'https://nexhealth.info';
 const NEXHEALTH_API_VERSION_HEADER = 'application/vnd.Nexhealth+json;version=2';
@@ -16,13 +21,19 @@ const getHeaders = (bearerToken: string, includeContentType = false) => {
 };
 
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
     try {
-        const { credentials, bearerToken, action, params } = await request.json();
+        const denied = await requirePermission(request, 'integration:manage');
+        if (denied) return denied;
+        const { credentials, action, params } = await request.json();
+        const bearerToken = readNexhealthToken(request);
         const { subdomain, locationId } = credentials;
 
         // Basic validation
-        if (!bearerToken || !subdomain || !locationId || !action || !params) {
+        if (!bearerToken) {
+            return NextResponse.json({ success: false, message: 'Not connected to NexHealth. Test the connection first.' }, { status: 401 });
+        }
+        if (!subdomain || !locationId || !action || !params) {
             return NextResponse.json({ success: false, message: 'Missing required fields in request.' }, { status: 400 });
         }
 
@@ -33,12 +44,23 @@ export async function POST(request: Request) {
                  return NextResponse.json({ success: false, message: 'Missing start or end date for fetching.' }, { status: 400 });
             }
 
+            // The dates are days at the practice, so their boundaries depend on its time zone
+            const organization = await resolveRequestOrganization(request);
+            if (!organization) return organizationRequiredResponse();
+            const timeZone = organization.timezone;
+            const rangeStart = parseInTimeZone(startDate, timeZone);
+            const lastDay = parseInTimeZone(endDate, timeZone);
+            if (!rangeStart || !lastDay) {
+                 return NextResponse.json({ success: false, message: 'Invalid start or end date for fetching.' }, { status: 400 });
+            }
+            const rangeEnd = new Date(addZonedDays(lastDay, 1, timeZone).getTime() - 1000);
+
             // Construct URL with required params
             const url = new URL(`${NEXHEALTH_API_BASE_URL}/appointments`);
             url.searchParams.append('subdomain', subdomain);
             url.searchParams.append('location_id', locationId);
-            url.searchParams.append('start', `${startDate}T00:00:00Z`); // Assume start of day UTC
-            url.searchParams.append('end', `${endDate}T23:59:59Z`);     // Assume end of day UTC
+            url.searchParams.append('start', rangeStart.toISOString());
+            url.searchParams.append('end', rangeEnd.toISOString());
             url.searchParams.append('per_page', '100'); // Limit results per page
             // Include related data for better display
             url.searchParams.append('include[]', 'patient');
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { readNexhealthToken } from '@/lib/nexhealthToken';
+import { requirePermission } from '@/lib/auth';
 
 const NEXHEALTH_API_BASE_URL = 'https://nexhealth.info';
 const NEXHEALTH_API_VERSION_HEADER = 'application/vnd.Nexhealth+json;version=2';
@@ -37,12 +40,18 @@ const formatForSelect = (items: Record<string, unknown>[] | null, idField = 'id'
 };
 
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
     try {
-        const { credentials, bearerToken } = await request.json();
+        const denied = await requirePermission(request, 'integration:manage');
+        if (denied) return denied;
+        const { credentials } = await request.json();
+        const bearerToken = readNexhealthToken(request);
         const { subdomain, locationId } = credentials;
 
-        if (!bearerToken || !subdomain || !locationId) {
+        if (!bearerToken) {
+            return NextResponse.json({ success: false, message: 'Not connected to NexHealth. Test the connection first.' }, { status: 401 });
+        }
+        if (!subdomain || !locationId) {
             return NextResponse.json({ success: false, message: 'Missing required fields.' }, { status: 400 });
         }
 
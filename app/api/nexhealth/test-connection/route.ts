@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
+import { setNexhealthTokenCookie } from '@/lib/nexhealthToken';
+import { requirePermission } from '@/lib/auth';
 
 const NEXHEALTH_API_BASE_URL = 'https://nexhealth.info'; // Use test environment
 const NEXHEALTH_API_VERSION_HEADER = 'application/vnd.Nexhealth+json;version=2';
 
 export async function POST(request: Request) {
   try {
+    const denied = await requirePermission(request, 'integration:manage');
+    if (denied) return denied;
     const { apiKey, subdomain, locationId } = await request.json();
 
     // Basic validation
@@ -86,19 +90,23 @@ export async function POST(request: Request) {
          successMessage = `Connection successful! Authenticated and fetched ${testData.data.appointments.length} appointment(s) (limit 1).`;
       }
 
-      // *** Return the token on success ***
-      return NextResponse.json(
-        { success: true, message: successMessage, bearerToken: bearerToken },
+      // The token stays server-side; later NexHealth calls read it from the cookie
+      const response = NextResponse.json(
+        { success: true, message: successMessage },
         { status: 200 }
       );
+      setNexhealthTokenCookie(response, bearerToken);
+      return response;
 
     } catch (error: unknown) {
       console.error('Error during NexHealth test API call:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      return NextResponse.json(
-        { success: true, message: `Authentication successful, but test API call failed: ${errorMessage}`, bearerToken: bearerToken },
+      const response = NextResponse.json(
+        { success: true, message: `Authentication successful, but test API call failed: ${errorMessage}` },
         { status: 200 } // Status 200 because auth worked
       );
+      setNexhealthTokenCookie(response, bearerToken);
+      return response;
     }
 
   } catch (error: unknown) {
@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string;
+  meta?: Record<string, unknown>;
+  message: string;
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as { code: unknown }).code === 'string'
+  );
+}
+
+const PostOperatorySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+});
+
+// GET /api/operatories
+export async function GET(request: NextRequest) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const operatories = await scopedPrisma(organization.id).operatory.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(operatories);
+  } catch (error) {
+    console.error('Error fetching operatories:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch operatories' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'schedule:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const body = await request.json();
+    const validation = PostOperatorySchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const actor = await staffActor(request);
+    const operatory = await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const record = await tx.operatory.create({
+        data: {
+          ...validation.data,
+          organizationId: organization.id,
+        },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Operatory',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
+    });
+
+    return NextResponse.json(operatory, { status: 201 });
+  } catch (error) {
+    console.error('Error creating operatory:', error);
+
+    if (isPrismaError(error) && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'An operatory with this name already exists in this organization' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create operatory' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
 
-export async function GET() {
+// Only the practice the request acts for; other practices sharing the deployment are not listed
+export async function GET(request: Request) {
   try {
+    const context = await resolveRequestOrganization(request);
+    if (!context) return organizationRequiredResponse();
+
     const organizations = await prisma.organization.findMany({
-      orderBy: {
-        name: 'asc',
-      },
+      where: { id: context.id },
     });
 
     return NextResponse.json(organizations);
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext'
+import { requirePermission } from '@/lib/auth'
+import { staffActor } from '@/lib/audit'
+import { searchPatients } from '@/lib/patientSearch'
+import { mergePatients } from '@/lib/patients'
+
+type ParamsPromise = Promise<{ id: string }>
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string
+  meta?: Record<string, unknown>
+  message: string
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as { code: unknown }).code === 'string'
+  )
+}
+
+const MergeSchema = z.object({
+  // The record to fold into this one; it is deleted
+  duplicateId: z.string().min(1, 'Duplicate patient ID is required'),
+})
+
+// GET other records that look like the same person: same phone or email, or same name and date of birth
+export async function GET(request: NextRequest, { params }: { params: ParamsPromise }) {
+  try {
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
+    const { id } = await params
+    const patient = await scopedPrisma(organization.id).patient.findUnique({ where: { id } })
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    const matches = await searchPatients({
+      phone: patient.phoneNumber,
+      email: patient.email,
+      name: `${patient.firstName} ${patient.lastName}`,
+      dateOfBirth: patient.dateOfBirth,
+      organizationId: organization.id,
+    })
+
+    return NextResponse.json(
+      matches
+        .filter(match => match.patient.id !== id)
+        .map(({ patient: duplicate, matchedOn }) => ({
+          patient: {
+            id: duplicate.id,
+            firstName: duplicate.firstName,
+            lastName: duplicate.lastName,
+            email: duplicate.email,
+            phoneNumber: duplicate.phoneNumber,
+            dateOfBirth: duplicate.dateOfBirth,
+            createdAt: duplicate.createdAt,
+          },
+          matchedOn,
+        }))
+    )
+  } catch (error) {
+    console.error('Error finding duplicate patients:', error)
+    return NextResponse.json(
+      { error: 'Failed to find duplicate patients' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST merges the duplicate named in the body into this patient
+export async function POST(request: NextRequest, { params }: { params: ParamsPromise }) {
+  try {
+    const denied = await requirePermission(request, 'patient:manage')
+    if (denied) return denied
+
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
+    const { id } = await params
+    const body = await request.json()
+    const validation = MergeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { duplicateId } = validation.data
+    if (duplicateId === id) {
+      return NextResponse.json({ error: 'A patient cannot be merged into itself' }, { status: 400 })
+    }
+
+    const { merged, moved } = await mergePatients(
+      scopedPrisma(organization.id),
+      organization.id,
+      await staffActor(request),
+      id,
+      duplicateId
+    )
+
+    return NextResponse.json({ patient: merged, moved })
+  } catch (error) {
+    console.error('Error merging patients:', error)
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to merge patients' },
+      { status: 500 }
+    )
+  }
+}
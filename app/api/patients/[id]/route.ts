@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { TaskStatus } from '@prisma/client'
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext'
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth'
+import { recordAuditEvent, staffActor } from '@/lib/audit'
+import { callLogSummarySelect } from '@/lib/callLogs'
+import { PatientUpdateSchema, patientUpdateData } from '@/lib/patients'
+
+type ParamsPromise = Promise<{ id: string }>
+
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string
+  meta?: Record<string, unknown>
+  message: string
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    typeof (error as { code: unknown }).code === 'string'
+  )
+}
+
+const providerSelect = { select: { id: true, name: true, email: true } } as const
+
+// GET one patient with their appointment history, linked calls and open tasks
+export async function GET(request: NextRequest, { params }: { params: ParamsPromise }) {
+  try {
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
+    const { id } = await params
+    const patient = await scopedPrisma(organization.id).patient.findUnique({
+      where: { id },
+      include: {
+        user: providerSelect,
+        appointments: {
+          include: {
+            appointmentType: { select: { id: true, name: true, color: true } },
+            provider: providerSelect,
+          },
+          omit: await appointmentNotesOmit(request),
+          orderBy: { date: 'desc' },
+        },
+        callLogs: {
+          select: callLogSummarySelect,
+          orderBy: { createdAt: 'desc' },
+        },
+        tasks: {
+          where: { status: { in: [TaskStatus.PENDING, TaskStatus.IN_PROGRESS] } },
+          include: { assignedTo: providerSelect },
+          orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }],
+        },
+      },
+    })
+
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(patient)
+  } catch (error) {
+    console.error('Error fetching patient:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch patient' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: ParamsPromise }) {
+  try {
+    const denied = await requirePermission(request, 'patient:write')
+    if (denied) return denied
+
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+    const db = scopedPrisma(organization.id)
+
+    const { id } = await params
+    const body = await request.json()
+    const validation = PatientUpdateSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    // The responsible provider must work at the same practice
+    if (validation.data.userId) {
+      const user = await db.user.findUnique({ where: { id: validation.data.userId }, select: { id: true } })
+      if (!user) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+    }
+
+    const before = await db.patient.findUniqueOrThrow({ where: { id } })
+    const actor = await staffActor(request)
+    const patient = await db.$transaction(async (tx) => {
+      const updated = await tx.patient.update({
+        where: { id },
+        data: patientUpdateData(validation.data),
+        include: { user: providerSelect },
+      })
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Patient',
+        entityId: id,
+        action: 'update',
+        before,
+        after: updated,
+      }, tx)
+      return updated
+    })
+
+    return NextResponse.json(patient)
+  } catch (error) {
+    console.error('Error updating patient:', error)
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+    if (isPrismaError(error) && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'Another patient already uses this email' },
+        { status: 409 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to update patient' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: ParamsPromise }) {
+  try {
+    const denied = await requirePermission(request, 'patient:manage')
+    if (denied) return denied
+
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+    const db = scopedPrisma(organization.id)
+
+    const { id } = await params
+
+    // Appointment history is never thrown away; a duplicate with visits is merged instead
+    const appointments = await db.appointment.count({ where: { patientId: id } })
+    if (appointments > 0) {
+      return NextResponse.json(
+        { error: 'Patient has appointments. Merge the record into another patient instead.' },
+        { status: 409 }
+      )
+    }
+
+    const actor = await staffActor(request)
+    await db.$transaction(async (tx) => {
+      const deleted = await tx.patient.delete({ where: { id } })
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Patient',
+        entityId: id,
+        action: 'delete',
+        before: deleted,
+      }, tx)
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting patient:', error)
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+    return NextResponse.json(
+      { error: 'Failed to delete patient' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,18 +1,47 @@
 import { NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
+import type { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { Role } from '@prisma/client'
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext'
+import { patientPhoneFields } from '@/lib/phone'
+import { recordAuditEvent, staffActor } from '@/lib/audit'
+import { patientSearchWhere } from '@/lib/patients'
+import { parseDateOfBirth } from '@/lib/patientSearch'
+import { requirePermission } from '@/lib/auth'
 
-const prisma = new PrismaClient()
+const PatientQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  dateOfBirth: z.string().refine(value => parseDateOfBirth(value) !== null, 'Invalid date of birth').optional(),
+})
 
-// GET all patients
-export async function GET() {
+// GET /api/patients?search=&dateOfBirth=
+// The practice's patients, optionally narrowed by name, phone, email or date of birth
+export async function GET(request: NextRequest) {
   try {
-    const patients = await prisma.patient.findMany({
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries())
+    const validation = PatientQuerySchema.safeParse(query)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { search, dateOfBirth } = validation.data
+
+    const patients = await scopedPrisma(organization.id).patient.findMany({
+      where: patientSearchWhere(search, dateOfBirth ? parseDateOfBirth(dateOfBirth) : null),
       select: {
         id: true,
         firstName: true,
         lastName: true,
         email: true,
         phoneNumber: true,
+        dateOfBirth: true,
       },
       orderBy: {
         lastName: 'asc',
@@ -31,26 +60,51 @@ export async function GET() {
 
 export async function POST(request: Request) {
   try {
+    const denied = await requirePermission(request, 'patient:write')
+    if (denied) return denied
+
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+    const db = scopedPrisma(organization.id)
+
     const body = await request.json()
     const { firstName, lastName, email, phoneNumber, dateOfBirth, userId } = body
+
+    // The responsible provider must work at the same practice; default to one of its dentists
+    const user = userId
+      ? await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+      : await db.user.findFirst({ where: { role: Role.DENTIST }, select: { id: true } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
     
-    const patient = await prisma.patient.create({
-      data: {
-        firstName,
-        lastName,
-        email,
-        phoneNumber,
-        dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
-        userId,
-      },
-      include: {
-        user: {
-          select: {
-            name: true,
-            email: true,
+    const actor = await staffActor(request)
+    const patient = await db.$transaction(async (tx) => {
+      const created = await tx.patient.create({
+        data: {
+          firstName,
+          lastName,
+          email,
+          ...patientPhoneFields(phoneNumber),
+          dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
+          userId: user.id,
+        },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
           },
         },
-      },
+      })
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Patient',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      }, tx)
+      return created
     })
     
     return NextResponse.json(patient, { status: 201 })
@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
 import { Role } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 // Define params as a Promise type for Next.js 15
 type ParamsPromise = Promise<{ responsibilityId: string }>;
@@ -33,6 +35,11 @@ export async function PUT(
   { params }: { params: ParamsPromise }
 ) {
   try {
+    const denied = await requirePermission(request, 'staff:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     // Get the responsibilityId by awaiting the params promise
     const { responsibilityId } = await params;
     const body = await request.json();
@@ -61,14 +68,30 @@ export async function PUT(
       updateData.role = body.role;
     }
 
-    const roleResponsibility = await prisma.roleResponsibility.update({
-      where: { id: responsibilityId },
-      data: updateData,
+    const db = scopedPrisma(organization.id);
+    const before = await db.roleResponsibility.findUniqueOrThrow({ where: { id: responsibilityId } });
+    const actor = await staffActor(request);
+    const roleResponsibility = await db.$transaction(async (tx) => {
+      const record = await tx.roleResponsibility.update({
+        where: { id: responsibilityId },
+        data: updateData,
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'RoleResponsibility',
+        entityId: responsibilityId,
+        action: 'update',
+        before,
+        after: record,
+      }, tx);
+      return record;
     });
 
     return NextResponse.json(roleResponsibility);
   } catch (error) {
     console.error('Error updating role responsibility:', error);
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Role responsibility not found' }, { status: 404 });
+    }
     
     // Handle unique constraint violation
     if (isPrismaError(error) && error.code === 'P2002') {
@@ -90,16 +113,33 @@ export async function DELETE(
   { params }: { params: ParamsPromise }
 ) {
   try {
+    const denied = await requirePermission(request, 'staff:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     // Get the responsibilityId by awaiting the params promise
     const { responsibilityId } = await params;
 
-    await prisma.roleResponsibility.delete({
-      where: { id: responsibilityId },
+    const actor = await staffActor(request);
+    await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const deleted = await tx.roleResponsibility.delete({
+        where: { id: responsibilityId },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'RoleResponsibility',
+        entityId: responsibilityId,
+        action: 'delete',
+        before: deleted,
+      }, tx);
     });
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting role responsibility:', error);
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Role responsibility not found' }, { status: 404 });
+    }
     return NextResponse.json(
       { error: 'Failed to delete role responsibility' },
       { status: 500 }
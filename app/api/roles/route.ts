@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
 import { Role } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 // Interface for Prisma error with a code property
 interface PrismaError {
@@ -22,20 +24,10 @@ function isPrismaError(error: unknown): error is PrismaError {
 
 export async function GET(request: NextRequest) {
   try {
-    const searchParams = request.nextUrl.searchParams;
-    const organizationId = searchParams.get('organizationId');
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
 
-    if (!organizationId) {
-      return NextResponse.json(
-        { error: 'Organization ID is required' },
-        { status: 400 }
-      );
-    }
-
-    const roleResponsibilities = await prisma.roleResponsibility.findMany({
-      where: {
-        organizationId,
-      },
+    const roleResponsibilities = await scopedPrisma(organization.id).roleResponsibility.findMany({
       orderBy: {
         role: 'asc',
       },
@@ -53,10 +45,15 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission(request, 'staff:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     const body = await request.json();
 
     // Validate required fields
-    if (!body.role || !body.description || !body.organizationId) {
+    if (!body.role || !body.description) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -72,12 +69,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const roleResponsibility = await prisma.roleResponsibility.create({
-      data: {
-        role: body.role,
-        description: body.description,
-        organizationId: body.organizationId,
-      },
+    const actor = await staffActor(request);
+    const roleResponsibility = await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const record = await tx.roleResponsibility.create({
+        data: {
+          role: body.role,
+          description: body.description,
+          organizationId: organization.id,
+        },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'RoleResponsibility',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
     });
 
     return NextResponse.json(roleResponsibility);
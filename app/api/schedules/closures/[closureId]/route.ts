@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+// Define params as a Promise type for Next.js 15
+type ParamsPromise = Promise<{ closureId: string }>;
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: ParamsPromise }
+) {
+  try {
+    const denied = await requirePermission(request, 'schedule:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
+    const { closureId } = await params;
+
+    // Scoped, so another practice's closure is never matched
+    const db = scopedPrisma(organization.id);
+    const closure = await db.scheduleClosure.findUnique({ where: { id: closureId } });
+    const actor = await staffActor(request);
+    const count = await db.$transaction(async (tx) => {
+      const deleted = await tx.scheduleClosure.deleteMany({
+        where: { id: closureId },
+      });
+      if (deleted.count > 0) {
+        await recordAuditEvent(organization.id, actor, {
+          entityType: 'ScheduleClosure',
+          entityId: closureId,
+          action: 'delete',
+          before: closure,
+        }, tx);
+      }
+      return deleted.count;
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Closure not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting closure:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete closure' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+const PostClosureSchema = z.object({
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt: z.string().datetime({ offset: true }),
+  reason: z.string().optional(),
+  // Omit to close the whole practice
+  providerId: z.string().min(1).optional(),
+}).refine(c => new Date(c.startsAt) < new Date(c.endsAt), {
+  message: 'startsAt must be before endsAt',
+});
+
+// POST /api/schedules/closures - add a holiday, closure or provider time off
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'schedule:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const body = await request.json();
+    const validation = PostClosureSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { startsAt, endsAt, reason, providerId } = validation.data;
+
+    if (providerId && !(await db.user.count({ where: { id: providerId } }))) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    const actor = await staffActor(request);
+    const closure = await db.$transaction(async (tx) => {
+      const record = await tx.scheduleClosure.create({
+        data: {
+          organizationId: organization.id,
+          startsAt: new Date(startsAt),
+          endsAt: new Date(endsAt),
+          reason: reason || null,
+          providerId: providerId || null,
+        },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'ScheduleClosure',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
+    });
+
+    return NextResponse.json(closure, { status: 201 });
+  } catch (error) {
+    console.error('Error creating closure:', error);
+    return NextResponse.json(
+      { error: 'Failed to create closure' },
+      { status: 500 }
+    );
+  }
+}
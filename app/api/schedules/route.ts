@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { isValidTimeZone } from '@/lib/dates';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import type { ScopedPrisma } from '@/lib/organizationContext';
+import { TIME_OF_DAY_REGEX, parseTimeOfDay } from '@/lib/scheduling';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+
+const TimeOfDay = z.string().regex(TIME_OF_DAY_REGEX, 'Times must be HH:mm');
+const DayOfWeek = z.number().int().min(0).max(6);
+
+const BusinessHoursSchema = z.object({
+  dayOfWeek: DayOfWeek,
+  openTime: TimeOfDay,
+  closeTime: TimeOfDay,
+}).refine(h => parseTimeOfDay(h.openTime) < parseTimeOfDay(h.closeTime), {
+  message: 'openTime must be before closeTime',
+});
+
+const ProviderScheduleSchema = z.object({
+  providerId: z.string().min(1),
+  dayOfWeek: DayOfWeek,
+  startTime: TimeOfDay,
+  endTime: TimeOfDay,
+  lunchStart: TimeOfDay.nullable().optional(),
+  lunchEnd: TimeOfDay.nullable().optional(),
+}).refine(s => parseTimeOfDay(s.startTime) < parseTimeOfDay(s.endTime), {
+  message: 'startTime must be before endTime',
+}).refine(s => (!s.lunchStart && !s.lunchEnd) || (
+  !!s.lunchStart && !!s.lunchEnd && parseTimeOfDay(s.lunchStart) < parseTimeOfDay(s.lunchEnd)
+), {
+  message: 'lunchStart and lunchEnd must both be set, with lunchStart first',
+});
+
+const PutSchedulesSchema = z.object({
+  // IANA zone the hours below are in, e.g. "America/New_York"
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+  businessHours: z.array(BusinessHoursSchema).optional(),
+  providerSchedules: z.array(ProviderScheduleSchema).optional(),
+});
+
+// The weekly schedule without row ids, which change on every save, for the audit log
+async function scheduleSnapshot(db: Pick<ScopedPrisma, 'organization' | 'businessHours' | 'providerSchedule'>, organizationId: string) {
+  const [organization, businessHours, providerSchedules] = await Promise.all([
+    db.organization.findUnique({ where: { id: organizationId }, select: { timezone: true } }),
+    db.businessHours.findMany({
+      select: { dayOfWeek: true, openTime: true, closeTime: true },
+      orderBy: { dayOfWeek: 'asc' },
+    }),
+    db.providerSchedule.findMany({
+      select: { providerId: true, dayOfWeek: true, startTime: true, endTime: true, lunchStart: true, lunchEnd: true },
+      orderBy: [{ providerId: 'asc' }, { dayOfWeek: 'asc' }],
+    }),
+  ]);
+  return { timezone: organization?.timezone ?? null, businessHours, providerSchedules };
+}
+
+// GET /api/schedules
+export async function GET(request: NextRequest) {
+  try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
+    const [businessHours, providerSchedules, closures] = await Promise.all([
+      db.businessHours.findMany({
+        orderBy: { dayOfWeek: 'asc' },
+      }),
+      db.providerSchedule.findMany({
+        include: { provider: { select: { id: true, name: true } } },
+        orderBy: [{ providerId: 'asc' }, { dayOfWeek: 'asc' }],
+      }),
+      db.scheduleClosure.findMany({
+        where: { endsAt: { gte: new Date() } },
+        orderBy: { startsAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      timezone: organization.timezone,
+      businessHours,
+      providerSchedules,
+      closures,
+    });
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/schedules - sets the practice time zone and/or replaces the weekly business hours and provider schedules
+export async function PUT(request: NextRequest) {
+  try {
+    const denied = await requirePermission(request, 'schedule:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const organizationId = organization.id;
+    const db = scopedPrisma(organizationId);
+
+    const body = await request.json();
+    const validation = PutSchedulesSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { timezone, businessHours, providerSchedules } = validation.data;
+
+    // Schedules can only be set for the practice's own providers
+    const providerIds = [...new Set(providerSchedules?.map(s => s.providerId) ?? [])];
+    if (providerIds.length > 0 && await db.user.count({ where: { id: { in: providerIds } } }) !== providerIds.length) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    const before = await scheduleSnapshot(db, organizationId);
+    const actor = await staffActor(request);
+    await db.$transaction(async (tx) => {
+      if (timezone) {
+        await tx.organization.update({ where: { id: organizationId }, data: { timezone } });
+      }
+      if (businessHours) {
+        await tx.businessHours.deleteMany({ where: { organizationId } });
+        await tx.businessHours.createMany({
+          data: businessHours.map(h => ({ ...h, organizationId })),
+        });
+      }
+      if (providerSchedules) {
+        await tx.providerSchedule.deleteMany({ where: { organizationId } });
+        await tx.providerSchedule.createMany({
+          data: providerSchedules.map(s => ({
+            ...s,
+            lunchStart: s.lunchStart ?? null,
+            lunchEnd: s.lunchEnd ?? null,
+            organizationId,
+          })),
+        });
+      }
+
+      await recordAuditEvent(organizationId, actor, {
+        entityType: 'Schedule',
+        entityId: organizationId,
+        action: 'update',
+        before,
+        after: await scheduleSnapshot(tx, organizationId),
+      }, tx);
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to update schedules' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,83 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
+import { appointmentNotesOmit } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 // Define params as a Promise type for Next.js 15
 type ParamsPromise = Promise<{ taskId: string }>;
 
+// Interface for Prisma error with a code property
+interface PrismaError {
+  code: string;
+  meta?: Record<string, unknown>;
+  message: string;
+}
+
+// Type guard to check if an error is a Prisma error
+function isPrismaError(error: unknown): error is PrismaError {
+  return (
+    typeof error === 'object' && 
+    error !== null && 
+    'code' in error && 
+    typeof (error as { code: unknown }).code === 'string'
+  );
+}
+
 export async function PUT(
   request: NextRequest,
   { params }: { params: ParamsPromise }
 ) {
   try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     // Get the taskId by awaiting the params promise
     const { taskId } = await params;
     const body = await request.json();
 
-    const task = await prisma.task.update({
-      where: { id: taskId },
-      data: {
-        description: body.description,
-        status: body.status,
-        priority: body.priority,
-        dueDate: body.dueDate ? new Date(body.dueDate) : undefined,
-        assignedToId: body.assignedToId,
-        assignedRole: body.assignedRole,
-      },
-      include: {
-        assignedTo: true,
-        appointment: {
-          include: {
-            patient: true,
+    const db = scopedPrisma(organization.id);
+    const before = await db.task.findUniqueOrThrow({ where: { id: taskId } });
+    const actor = await staffActor(request);
+    const omit = await appointmentNotesOmit(request);
+    const task = await db.$transaction(async (tx) => {
+      const record = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          description: body.description,
+          status: body.status,
+          priority: body.priority,
+          dueDate: body.dueDate ? new Date(body.dueDate) : undefined,
+          assignedToId: body.assignedToId,
+          assignedRole: body.assignedRole,
+        },
+        include: {
+          assignedTo: true,
+          appointment: {
+            include: {
+              patient: true,
+            },
+            omit,
           },
         },
-      },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Task',
+        entityId: taskId,
+        action: 'update',
+        before,
+        after: record,
+      }, tx);
+      return record;
     });
 
     return NextResponse.json(task);
   } catch (error) {
     console.error('Error updating task:', error);
+    // Not found, or belongs to another practice
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
     return NextResponse.json(
       { error: 'Failed to update task' },
       { status: 500 }
@@ -49,16 +90,32 @@ export async function DELETE(
   { params }: { params: ParamsPromise }
 ) {
   try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     // Get the taskId by awaiting the params promise
     const { taskId } = await params;
 
-    await prisma.task.delete({
-      where: { id: taskId },
+    const actor = await staffActor(request);
+    await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const deleted = await tx.task.delete({
+        where: { id: taskId },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Task',
+        entityId: taskId,
+        action: 'delete',
+        before: deleted,
+      }, tx);
     });
 
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting task:', error);
+    // Not found, or belongs to another practice
+    if (isPrismaError(error) && error.code === 'P2025') {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
     return NextResponse.json(
       { error: 'Failed to delete task' },
       { status: 500 }
@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext';
 import type { Role, TaskStatus } from '@prisma/client';
+import { appointmentNotesOmit, requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 // Define types for the where clause that match Prisma's expected types
 interface TaskWhereInput {
@@ -9,7 +11,6 @@ interface TaskWhereInput {
   assignedToId?: string;
   assignedRole?: Role | null;
   callId?: string;
-  organizationId?: string;
 }
 
 // Interface for Prisma error with a code property
@@ -31,12 +32,14 @@ function isPrismaError(error: unknown): error is PrismaError {
 
 export async function GET(request: NextRequest) {
   try {
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+
     const searchParams = request.nextUrl.searchParams;
     const status = searchParams.get('status') as TaskStatus | null;
     const assignedToId = searchParams.get('assignedToId');
     const assignedRole = searchParams.get('assignedRole') as Role | null;
     const callId = searchParams.get('callId');
-    const organizationId = searchParams.get('organizationId');
 
     // Build where clause based on filters
     const where: TaskWhereInput = {};
@@ -45,16 +48,17 @@ export async function GET(request: NextRequest) {
     if (assignedToId) where.assignedToId = assignedToId;
     if (assignedRole) where.assignedRole = assignedRole;
     if (callId) where.callId = callId;
-    if (organizationId) where.organizationId = organizationId;
 
-    const tasks = await prisma.task.findMany({
+    const tasks = await scopedPrisma(organization.id).task.findMany({
       where,
       include: {
         assignedTo: true,
+        patient: true,
         appointment: {
           include: {
             patient: true,
           },
+          omit: await appointmentNotesOmit(request),
         },
       },
       orderBy: [
@@ -75,36 +79,70 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission(request, 'task:create');
+    if (denied) return denied;
+
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
+    const db = scopedPrisma(organization.id);
+
     const body = await request.json();
 
     // Validate required fields
-    if (!body.description || !body.organizationId) {
+    if (!body.description) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    const task = await prisma.task.create({
-      data: {
-        description: body.description,
-        priority: body.priority || 'MEDIUM',
-        status: body.status || 'PENDING',
-        dueDate: body.dueDate ? new Date(body.dueDate) : null,
-        assignedToId: body.assignedToId || null,
-        assignedRole: body.assignedRole || null,
-        callId: body.callId || null,
-        appointmentId: body.appointmentId || null,
-        organizationId: body.organizationId,
-      },
-      include: {
-        assignedTo: true,
-        appointment: {
-          include: {
-            patient: true,
+    // Anything the task points at must belong to the same practice
+    const [assignee, appointment, patient] = await Promise.all([
+      body.assignedToId ? db.user.count({ where: { id: body.assignedToId } }) : 1,
+      body.appointmentId ? db.appointment.count({ where: { id: body.appointmentId } }) : 1,
+      body.patientId ? db.patient.count({ where: { id: body.patientId } }) : 1,
+    ]);
+    if (!assignee || !appointment || !patient) {
+      return NextResponse.json(
+        { error: 'Assignee, appointment or patient not found' },
+        { status: 404 }
+      );
+    }
+
+    const actor = await staffActor(request);
+    const omit = await appointmentNotesOmit(request);
+    const task = await db.$transaction(async (tx) => {
+      const record = await tx.task.create({
+        data: {
+          description: body.description,
+          priority: body.priority || 'MEDIUM',
+          status: body.status || 'PENDING',
+          dueDate: body.dueDate ? new Date(body.dueDate) : null,
+          assignedToId: body.assignedToId || null,
+          assignedRole: body.assignedRole || null,
+          callId: body.callId || null,
+          appointmentId: body.appointmentId || null,
+          patientId: body.patientId || null,
+          organizationId: organization.id,
+        },
+        include: {
+          assignedTo: true,
+          patient: true,
+          appointment: {
+            include: {
+              patient: true,
+            },
+            omit,
           },
         },
-      },
+      });
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'Task',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx);
+      return record;
     });
 
     return NextResponse.json(task);
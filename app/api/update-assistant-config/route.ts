@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -9,6 +12,8 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
     const { assistantId, updatePayload } = await request.json();
 
     if (!assistantId || typeof assistantId !== 'string') {
@@ -18,6 +23,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'updatePayload object is required.' }, { status: 400 });
     }
 
+    // Only the practice's own assistants can be read or changed
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
     console.log(`API: Updating config for assistant ${assistantId}...`);
 
     const updateResponse = await fetch(`https://api.vapi.ai/assistant/${assistantId}`, {
@@ -37,6 +46,13 @@ export async function POST(request: Request) {
     }
 
     console.log(`API: Successfully updated assistant ${assistantId}.`);
+    // Vapi isn't asked for the old values, so only the fields sent are recorded
+    await recordAuditEvent(access.assistant.organizationId, await staffActor(request), {
+      entityType: 'AssistantConfig',
+      entityId: assistantId,
+      action: 'update',
+      after: updatePayload,
+    });
     return NextResponse.json({ success: true, assistant: responseData });
 
   } catch (error) {
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 // Note: We get assistantId from the request body now, but keep VAPI_ASSISTANT_ID for potential fallback or validation if needed.
@@ -17,6 +20,8 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
     const { assistantId, newPrompt } = await request.json();
 
     if (!assistantId || typeof assistantId !== 'string') {
@@ -26,6 +31,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'newPrompt (string) is required in the request body' }, { status: 400 });
     }
 
+    // Only the practice's own assistants can be read or changed
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
     console.log(`Fetching current config for assistant ${assistantId} before updating prompt...`);
 
     // --- 1. Fetch current assistant config ---
@@ -47,6 +56,7 @@ export async function POST(request: Request) {
     const currentModel = currentAssistant.model || { provider: 'openai', model: 'gpt-4o', messages: [] }; // Provide defaults
     const currentMessages = Array.isArray(currentModel.messages) ? currentModel.messages : [];
 
+    const previousPrompt = currentMessages.find((msg: VapiMessage) => msg.role === 'system')?.content ?? null;
     let systemPromptFound = false;
     const updatedMessages = currentMessages.map((msg: VapiMessage) => {
       if (msg.role === 'system') {
@@ -92,6 +102,13 @@ export async function POST(request: Request) {
     }
 
     console.log(`Successfully updated assistant ${assistantId}.`);
+    await recordAuditEvent(access.assistant.organizationId, await staffActor(request), {
+      entityType: 'AssistantPrompt',
+      entityId: assistantId,
+      action: 'update',
+      before: { prompt: previousPrompt },
+      after: { prompt: newPrompt },
+    });
     return NextResponse.json({ success: true, assistant: responseData });
 
   } catch (error) {
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { resolveRequestAssistant } from '@/lib/organizationContext';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -36,6 +39,8 @@ export async function POST(request: Request) {
   let toolIdToAdd: string | undefined;
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
     const body = await request.json();
     assistantId = body.assistantId;
     toolIdToAdd = body.toolId;
@@ -47,6 +52,10 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'toolId (string) is required in the request body' }, { status: 400 });
     }
 
+    // Only the practice's own assistants can be read or changed
+    const access = await resolveRequestAssistant(request, assistantId);
+    if ('response' in access) return access.response;
+
     console.log(`[update-assistant-tool] Request received for assistant ${assistantId} to add tool ${toolIdToAdd}`);
 
     // --- 1. Fetch current assistant configuration ---
@@ -118,6 +127,13 @@ export async function POST(request: Request) {
     }
 
     console.log(`[update-assistant-tool] Successfully updated assistant ${assistantId}.`);
+    await recordAuditEvent(access.assistant.organizationId, await staffActor(request), {
+      entityType: 'AssistantTool',
+      entityId: assistantId,
+      action: 'update',
+      before: { toolIds: existingToolIds },
+      after: { toolIds: finalToolIds },
+    });
     return NextResponse.json({ success: true, assistant: responseData });
 
   } catch (error) {
@@ -2,6 +2,9 @@
 import { NextResponse } from 'next/server';
 import { VapiClient } from '@vapi-ai/server-sdk';
 import type { ToolUpdatePayload } from '@/app/types/vapi';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -13,6 +16,10 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
     // Parse request body
     const body = await request.json() as { updatePayload: ToolUpdatePayload };
     const { updatePayload } = body;
@@ -33,6 +40,7 @@ export async function POST(request: Request) {
     // Update the tool
     // Use type assertion to bypass TypeScript checking since we know our data structure is valid
     // for Vapi's API but TypeScript definitions might be stricter
+    const previousTool = await vapi.tools.get(toolId);
     const updatedTool = await vapi.tools.update(toolId, toolData as any);
     
     if (!updatedTool) {
@@ -41,6 +49,13 @@ export async function POST(request: Request) {
     }
 
     console.log(`[update-tool] Successfully updated tool ${toolId}`);
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'VapiTool',
+      entityId: toolId,
+      action: 'update',
+      before: previousTool,
+      after: updatedTool,
+    });
     return NextResponse.json({ success: true, tool: updatedTool });
   } catch (error) {
     // Log and return error
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { recordAuditEvent, staffActor } from '@/lib/audit';
+import { organizationRequiredResponse, resolveRequestOrganization } from '@/lib/organizationContext';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 
@@ -9,6 +12,10 @@ export async function POST(request: Request) {
   }
 
   try {
+    const denied = await requirePermission(request, 'assistant:manage');
+    if (denied) return denied;
+    const organization = await resolveRequestOrganization(request);
+    if (!organization) return organizationRequiredResponse();
     const { content, filename } = await request.json();
 
     if (!content || typeof content !== 'string' || content.trim() === '') {
@@ -46,6 +53,13 @@ export async function POST(request: Request) {
     }
 
     console.log(`Successfully uploaded ${filename}. File ID: ${responseData.id}`);
+    // The file's metadata only; its content stays with Vapi
+    await recordAuditEvent(organization.id, await staffActor(request), {
+      entityType: 'KnowledgeFile',
+      entityId: responseData.id,
+      action: 'create',
+      after: { filename, bytes: responseData.bytes ?? content.length },
+    });
     return NextResponse.json({ fileId: responseData.id });
 
   } catch (error) {
@@ -1,19 +1,22 @@
 import { NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
-import { PrismaClient } from '@prisma/client'
 import type { Role } from '@prisma/client'
-
-const prismaClient = new PrismaClient()
+import { organizationRequiredResponse, resolveRequestOrganization, scopedPrisma } from '@/lib/organizationContext'
+import { hashPassword, MIN_PASSWORD_LENGTH } from '@/lib/passwords'
+import { getRequestUser, requirePermission } from '@/lib/auth'
+import { recordAuditEvent, staffActor } from '@/lib/audit'
 
 export async function GET(request: Request) {
   try {
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
     const { searchParams } = new URL(request.url)
     const roleParam = searchParams.get('role')
     
     // Set up filter with proper typing
     const filter = roleParam ? { role: roleParam as Role } : {}
     
-    const users = await prismaClient.user.findMany({
+    const users = await scopedPrisma(organization.id).user.findMany({
       where: filter,
       select: {
         id: true,
@@ -38,15 +41,48 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
+    const denied = await requirePermission(request, 'staff:manage')
+    if (denied) return denied
+    const organization = await resolveRequestOrganization(request)
+    if (!organization) return organizationRequiredResponse()
+
     const body = await request.json()
-    const { name, email, role } = body
+    const { name, email, role, password } = body
+
+    // Office managers manage staff, but only an admin can make another admin
+    if (role === 'ADMIN' && (await getRequestUser(request))?.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only admins can create admin users' },
+        { status: 403 }
+      )
+    }
+
+    // Without a password the user exists (e.g. as a provider) but cannot sign in
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
     
-    const user = await prisma.user.create({
-      data: {
-        name,
-        email,
-        role: role || 'USER',
-      },
+    const actor = await staffActor(request)
+    const passwordHash = password ? await hashPassword(password) : null
+    const user = await scopedPrisma(organization.id).$transaction(async (tx) => {
+      const record = await tx.user.create({
+        data: {
+          name,
+          email,
+          role: role || 'USER',
+          passwordHash,
+        },
+      })
+      await recordAuditEvent(organization.id, actor, {
+        entityType: 'User',
+        entityId: record.id,
+        action: 'create',
+        after: record,
+      }, tx)
+      return record
     })
     
     return NextResponse.json(user, { status: 201 })
@@ -0,0 +1,63 @@
+import { NextResponse, after } from 'next/server';
+import { laineTools } from '@/lib/laineTools';
+import { answerToolCalls, parseServerMessage } from '@/lib/vapiToolCalls';
+import { verifyVapiRequest } from '@/lib/vapiAuth';
+import { resolveCallOrganization } from '@/lib/organizationContext';
+import {
+  PersistedServerMessageSchema,
+  processVapiEvent,
+  recordVapiEvent,
+  shouldPersist,
+} from '@/lib/vapiWebhook';
+
+// Server URL for the Vapi assistant: call lifecycle messages are stored and
+// processed after the response; tool calls are answered inline.
+export async function POST(request: Request) {
+  let rawBody: string;
+  let body: { message?: { type?: unknown } };
+  try {
+    rawBody = await request.text();
+    body = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  // Verified against the secret of the assistant the message is about, so the body is read first
+  const { call } = parseServerMessage(body);
+  const verification = await verifyVapiRequest(request, rawBody, call);
+  if (!verification.ok) {
+    return NextResponse.json({ error: verification.error }, { status: verification.status });
+  }
+
+  const messageType = body?.message?.type;
+  if (messageType === 'tool-calls') {
+    return answerToolCalls(body, request, { scope: 'vapi-webhook', tools: laineTools });
+  }
+
+  const validation = PersistedServerMessageSchema.safeParse(body?.message);
+  if (!validation.success) {
+    // Other server messages (speech-update, conversation-update, ...) are acknowledged and dropped
+    if (typeof messageType === 'string' && !PersistedServerMessageSchema.optionsMap.has(messageType)) {
+      return NextResponse.json({ received: true });
+    }
+    return NextResponse.json(
+      { error: 'Invalid input', details: validation.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  const message = validation.data;
+  if (!shouldPersist(message)) {
+    return NextResponse.json({ received: true });
+  }
+
+  try {
+    const resolved = await resolveCallOrganization(call);
+    const event = await recordVapiEvent(message, resolved?.organization.id ?? null);
+    after(() => processVapiEvent(event.id));
+    return NextResponse.json({ received: true, eventId: event.id });
+  } catch (error) {
+    console.error('Error storing Vapi event:', error);
+    return NextResponse.json({ error: 'Failed to store event' }, { status: 500 });
+  }
+}
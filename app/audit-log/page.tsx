@@ -0,0 +1,306 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, ChevronDown, ChevronLeft, ChevronRight, ChevronUp, RefreshCw, Search } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/app/types/auditEvent';
+import type { AuditEventEntry, AuditEventPage } from '@/app/types/auditEvent';
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+// Splits "RoleResponsibility" into "Role Responsibility"
+const formatEntityType = (entityType: string) => entityType.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function ChangeList({ event }: { event: AuditEventEntry }) {
+  const fields = [...new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})])];
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes were recorded.</p>;
+  }
+  return (
+    <div className="grid grid-cols-[minmax(120px,auto)_1fr_1fr] gap-x-4 gap-y-1 text-xs">
+      <span className="font-medium text-muted-foreground">Field</span>
+      <span className="font-medium text-muted-foreground">Before</span>
+      <span className="font-medium text-muted-foreground">After</span>
+      {fields.map(field => (
+        <Fragment key={field}>
+          <span className="font-mono">{field}</span>
+          <span className="break-all whitespace-pre-wrap text-red-700">{event.before ? formatValue(event.before[field]) : '—'}</span>
+          <span className="break-all whitespace-pre-wrap text-green-700">{event.after ? formatValue(event.after[field]) : '—'}</span>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEventEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [actorType, setActorType] = useState(ALL);
+  const [entityIdInput, setEntityIdInput] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (entityType !== ALL) params.set('entityType', entityType);
+      if (action !== ALL) params.set('action', action);
+      if (actorType !== ALL) params.set('actorType', actorType);
+      if (entityId) params.set('entityId', entityId);
+      // Whole days in the browser's time zone
+      if (fromDate) params.set('from', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) params.set('to', new Date(`${toDate}T23:59:59.999`).toISOString());
+
+      const res = await fetch(`/api/audit-events?${params.toString()}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ error: 'Failed to parse error response' }));
+        throw new Error(errorData.error || `Failed to fetch the audit log (${res.status})`);
+      }
+
+      const data: AuditEventPage = await res.json();
+      setEvents(data.events);
+      setTotal(data.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      console.error("Error fetching audit log:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, entityType, action, actorType, entityId, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // Debounce typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setEntityId(entityIdInput.trim());
+      setPage(1);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [entityIdInput]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const formatDate = (dateStr: string) => new Date(dateStr).toLocaleString(undefined, {
+    dateStyle: 'short',
+    timeStyle: 'medium',
+  });
+
+  // Filters reset paging so the first page of the new results is shown
+  const withPageReset = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 space-y-6">
+      <div className="flex justify-between items-center flex-wrap gap-2">
+        <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">Audit Log</h1>
+        <Button variant="outline" size="sm" onClick={fetchEvents} disabled={loading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Record ID..."
+            value={entityIdInput}
+            onChange={(e) => setEntityIdInput(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Select value={entityType} onValueChange={withPageReset(setEntityType)}>
+          <SelectTrigger className="lg:w-[200px]">
+            <SelectValue placeholder="Record type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All record types</SelectItem>
+            {AUDIT_ENTITY_TYPES.map(value => (
+              <SelectItem key={value} value={value}>{formatEntityType(value)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={withPageReset(setAction)}>
+          <SelectTrigger className="lg:w-[150px]">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {AUDIT_ACTIONS.map(value => (
+              <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={actorType} onValueChange={withPageReset(setActorType)}>
+          <SelectTrigger className="lg:w-[160px]">
+            <SelectValue placeholder="Changed by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Staff and assistants</SelectItem>
+            <SelectItem value="STAFF">Staff</SelectItem>
+            <SelectItem value="ASSISTANT">Voice assistant</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From date"
+          value={fromDate}
+          onChange={(e) => withPageReset(setFromDate)(e.target.value)}
+          className="lg:w-[160px]"
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={toDate}
+          onChange={(e) => withPageReset(setToDate)(e.target.value)}
+          className="lg:w-[160px]"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Audit Log</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="border rounded-lg overflow-hidden shadow-sm bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[180px]">Date/Time</TableHead>
+              <TableHead>Changed By</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead className="text-right">Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={`skeleton-row-${i}`}>
+                  <TableCell><Skeleton className="h-5 w-32" /></TableCell>
+                  <TableCell><Skeleton className="h-5 w-28" /></TableCell>
+                  <TableCell><Skeleton className="h-5 w-40" /></TableCell>
+                  <TableCell><Skeleton className="h-6 w-20 rounded-full" /></TableCell>
+                  <TableCell className="text-right"><Skeleton className="ml-auto h-8 w-10" /></TableCell>
+                </TableRow>
+              ))
+            ) : events.length === 0 && !error ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                  No audit events found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <Fragment key={event.id}>
+                  <TableRow>
+                    <TableCell className="font-medium text-xs sm:text-sm">{formatDate(event.createdAt)}</TableCell>
+                    <TableCell className="text-xs sm:text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={event.actorType === 'STAFF' ? 'secondary' : 'outline'} className="text-xs">
+                          {event.actorType === 'STAFF' ? 'Staff' : 'Assistant'}
+                        </Badge>
+                        <span>{event.actorLabel || 'Unknown'}</span>
+                      </div>
+                      {event.callId && (
+                        <div className="mt-1 font-mono text-xs text-muted-foreground">Call {event.callId}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm">
+                      <div>{formatEntityType(event.entityType)}</div>
+                      <button
+                        type="button"
+                        className="font-mono text-xs text-muted-foreground hover:underline"
+                        title="Show all changes to this record"
+                        onClick={() => setEntityIdInput(event.entityId)}
+                      >
+                        {event.entityId}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={event.action === 'delete' ? 'destructive' : 'default'} className="capitalize text-xs">
+                        {event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => toggleExpanded(event.id)}>
+                        {expanded.has(event.id) ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        <span className="sr-only">Toggle changes</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {expanded.has(event.id) && (
+                    <TableRow className="bg-muted/40 hover:bg-muted/40">
+                      <TableCell colSpan={5}>
+                        <ChangeList event={event} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total} {total === 1 ? 'event' : 'events'}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={loading || page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous page</span>
+          </Button>
+          <span>Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={loading || page >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next page</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,21 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import { Calendar, Views, dateFnsLocalizer } from 'react-big-calendar';
-import type { ToolbarProps } from 'react-big-calendar';
-import { format, parse, startOfWeek, getDay } from 'date-fns';
+import type { EventProps, SlotInfo, ToolbarProps, View } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
+import type { EventInteractionArgs } from 'react-big-calendar/lib/addons/dragAndDrop';
+import { format, parse, startOfWeek, endOfWeek, startOfDay, endOfDay, getDay } from 'date-fns';
 import { enUS } from 'date-fns/locale/en-US';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle, CalendarPlus, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CalendarPlus, ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
 import AppointmentFormModal from '@/components/AppointmentFormModal';
 import AppointmentDetailModal from '@/components/AppointmentDetailModal';
+import ActionToast from '@/components/ActionToast';
+import type { ActionToastState } from '@/components/ActionToast';
+import { CLOSED_APPOINTMENT_STATUSES } from '@/lib/appointmentStatus';
 
 // Define types
 interface Patient {
@@ -21,23 +27,57 @@ interface Patient {
   // Add other patient fields as needed by the form
 }
 
+interface AppointmentType {
+  id: string;
+  name: string;
+  durationMinutes: number;
+  color: string;
+}
+
+// A provider or chair appointments can be assigned to
+interface Assignable {
+  id: string;
+  name: string | null;
+}
+
 interface Appointment {
   id: string;
   date: Date; // Should be a Date object after parsing
+  endTime: Date;
   reason: string;
-  status: 'SCHEDULED' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED'; // Example statuses
+  status: 'SCHEDULED' | 'CONFIRMED' | 'CHECKED_IN' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW';
   patientType: 'NEW' | 'EXISTING';
   notes?: string | null;
+  checkedInAt?: Date | null;
+  cancelledAt?: Date | null;
+  cancellationReason?: string | null;
   patientId: string;
   patient: Patient; // Include patient data for display/form
+  appointmentType?: AppointmentType | null;
+  providerId?: string | null;
+  provider?: Assignable | null;
+  operatoryId?: string | null;
+  operatory?: { id: string; name: string } | null;
+  // Set when the visit is one occurrence of a recurring series
+  seriesId?: string | null;
+  series?: { id: string; frequency: 'WEEKLY' | 'MONTHLY'; interval: number; count: number | null; until: string | null } | null;
 }
 
 // Type for data coming directly from API before parsing date
-interface AppointmentData extends Omit<Appointment, 'date' | 'patient'> {
+interface AppointmentData extends Omit<Appointment, 'date' | 'endTime' | 'checkedInAt' | 'cancelledAt' | 'patient'> {
   date: string; // Date as string from API
+  endTime: string;
+  checkedInAt?: string | null;
+  cancelledAt?: string | null;
   patient: Patient;
 }
 
+// One page of GET /api/appointments
+interface AppointmentPage {
+  appointments: AppointmentData[];
+  nextCursor: string | null;
+}
+
 // Type for event object used by react-big-calendar
 interface CalendarEvent {
   title: string;
@@ -46,6 +86,37 @@ interface CalendarEvent {
   resource: Appointment; // Store original appointment
 }
 
+// A column of the day/week grid when appointments are grouped by provider or chair
+interface CalendarResource {
+  id: string;
+  title: string;
+}
+
+// How the grid is split into columns
+type GroupBy = 'none' | 'provider' | 'operatory';
+
+// Column, and filter value, for appointments with no provider or chair; Radix selects can't use an empty string
+const UNASSIGNED = 'unassigned';
+// Filter value for not filtering at all
+const ALL = 'all';
+
+const STATUS_OPTIONS: { value: Appointment['status']; label: string }[] = [
+  { value: 'SCHEDULED', label: 'Scheduled' },
+  { value: 'CONFIRMED', label: 'Confirmed' },
+  { value: 'CHECKED_IN', label: 'Checked in' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'NO_SHOW', label: 'No-show' },
+  { value: 'CANCELLED', label: 'Cancelled' },
+];
+
+// A new start/end and, when dropped in another column, a new provider or chair
+interface AppointmentMove {
+  start: Date;
+  end: Date;
+  providerId?: string | null;
+  operatoryId?: string | null;
+}
+
 const locales = { 'en-US': enUS };
 const localizer = dateFnsLocalizer({
   format,
@@ -55,6 +126,43 @@ const localizer = dateFnsLocalizer({
   locales,
 });
 
+const DnDCalendar = withDragAndDrop<CalendarEvent, CalendarResource>(Calendar);
+
+type DateRange = { start: Date; end: Date };
+
+// The dates the calendar shows for a view, so only those are fetched
+const rangeForView = (date: Date, view: View): DateRange => (
+  view === Views.DAY
+    ? { start: startOfDay(date), end: endOfDay(date) }
+    : { start: startOfWeek(date, { locale: enUS }), end: endOfWeek(date, { locale: enUS }) }
+);
+
+// Parse the API's date strings into Date objects
+const parseAppointment = (apt: AppointmentData): Appointment => ({
+  ...apt,
+  date: new Date(apt.date),
+  endTime: new Date(apt.endTime),
+  checkedInAt: apt.checkedInAt ? new Date(apt.checkedInAt) : null,
+  cancelledAt: apt.cancelledAt ? new Date(apt.cancelledAt) : null,
+});
+
+// The id of the column an appointment sits in when grouped
+const resourceIdFor = (appointment: Appointment, groupBy: GroupBy): string => (
+  (groupBy === 'provider' ? appointment.providerId : appointment.operatoryId) ?? UNASSIGNED
+);
+
+const matchesFilter = (value: string | null | undefined, filter: string) => (
+  filter === ALL || (value ?? UNASSIGNED) === filter
+);
+
+// Event body, marking visits that belong to a recurring series
+const CalendarEventContent = ({ event }: EventProps<CalendarEvent>) => (
+  <span className="flex min-w-0 items-center gap-1">
+    {event.resource.seriesId && <Repeat className="h-3 w-3 shrink-0" aria-label="Recurring" />}
+    <span className="truncate">{event.title}</span>
+  </span>
+);
+
 // Custom Toolbar Component
 const CustomToolbar = (toolbar: ToolbarProps<CalendarEvent>) => {
   const goToBack = () => toolbar.onNavigate('PREV');
@@ -111,64 +219,229 @@ const CustomToolbar = (toolbar: ToolbarProps<CalendarEvent>) => {
 export default function CalendarPage() {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientsLoaded, setPatientsLoaded] = useState(false);
+  const [appointmentTypes, setAppointmentTypes] = useState<AppointmentType[]>([]);
+  const [providers, setProviders] = useState<Assignable[]>([]);
+  const [operatories, setOperatories] = useState<Assignable[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [view, setView] = useState<View>(Views.WEEK);
+  const [toast, setToast] = useState<ActionToastState | null>(null);
+
+  // Columns and filters
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [providerFilter, setProviderFilter] = useState(ALL);
+  const [operatoryFilter, setOperatoryFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+
+  const visibleRange = useMemo(() => rangeForView(currentDate, view), [currentDate, view]);
 
   // Modal State
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
-  const [newAppointmentSlot, setNewAppointmentSlot] = useState<{ start: Date; end: Date } | null>(null);
+  const [newAppointmentSlot, setNewAppointmentSlot] = useState<{ start: Date; end: Date; providerId?: string | null; operatoryId?: string | null } | null>(null);
 
-  // Load appointments and patients
-  const fetchData = useCallback(async () => {
-    setLoading(true);
+  // Replaces what is loaded for a date range with the server's current appointments in it
+  const loadRange = useCallback(async (range: DateRange) => {
     setError(null);
     try {
-      const [appointmentsRes, patientsRes] = await Promise.all([
-        fetch('/api/appointments'),
-        fetch('/api/patients')
+      const fetched: Appointment[] = [];
+      let cursor: string | null = null;
+      // A busy week can run past one page; follow the cursor until the range is complete
+      do {
+        const params = new URLSearchParams({ start: range.start.toISOString(), end: range.end.toISOString() });
+        if (cursor) params.set('cursor', cursor);
+        const appointmentsRes = await fetch(`/api/appointments?${params.toString()}`);
+        if (!appointmentsRes.ok) throw new Error(`Appointments fetch failed: ${appointmentsRes.statusText} (${appointmentsRes.status})`);
+
+        const page: AppointmentPage = await appointmentsRes.json();
+        fetched.push(...page.appointments.map(parseAppointment));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      setAppointments((current) => [
+        ...current.filter((apt) => !(apt.date < range.end && apt.endTime > range.start)),
+        ...fetched,
       ]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred fetching data';
+      setError(message);
+      console.error('Error fetching appointments:', err);
+    }
+  }, []);
 
-      if (!appointmentsRes.ok) throw new Error(`Appointments fetch failed: ${appointmentsRes.statusText} (${appointmentsRes.status})`);
-      if (!patientsRes.ok) throw new Error(`Patients fetch failed: ${patientsRes.statusText} (${patientsRes.status})`);
+  const refreshVisibleRange = useCallback(() => loadRange(visibleRange), [loadRange, visibleRange]);
 
-      const appointmentsData: AppointmentData[] = await appointmentsRes.json();
-      const patientsData: Patient[] = await patientsRes.json();
+  // Appointment types, providers and chairs don't depend on the dates shown
+  useEffect(() => {
+    const fetchFormData = async () => {
+      try {
+        const [typesRes, providersRes, operatoriesRes] = await Promise.all([
+          fetch('/api/appointment-types'),
+          fetch('/api/users?role=DENTIST'),
+          fetch('/api/operatories')
+        ]);
+        if (!typesRes.ok) throw new Error(`Appointment types fetch failed: ${typesRes.statusText} (${typesRes.status})`);
+        if (!providersRes.ok) throw new Error(`Providers fetch failed: ${providersRes.statusText} (${providersRes.status})`);
+        if (!operatoriesRes.ok) throw new Error(`Chairs fetch failed: ${operatoriesRes.statusText} (${operatoriesRes.status})`);
 
-      // Important: Parse date strings into Date objects
-      const parsedAppointments = appointmentsData.map((apt) => ({
-          ...apt,
-          date: new Date(apt.date)
-        }));
-        
-        setAppointments(parsedAppointments);
-        setPatients(patientsData);
+        setAppointmentTypes(await typesRes.json());
+        setProviders(await providersRes.json());
+        setOperatories(await operatoriesRes.json());
       } catch (err) {
-      const message = err instanceof Error ? err.message : 'An error occurred fetching data';
-      setError(message);
+        const message = err instanceof Error ? err.message : 'An error occurred fetching data';
+        setError(message);
         console.error('Error fetching data:', err);
-      } finally {
-        setLoading(false);
       }
+    };
+    fetchFormData();
   }, []);
-    
+
+  // The patient list is only needed for booking, so it waits until the form is first opened
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  // Transform appointments for react-big-calendar events
-  const calendarEvents: CalendarEvent[] = useMemo(() => appointments.map(apt => {
-    // Basic assumption: 30 min duration. Adjust if you store duration.
-    const endTime = new Date(apt.date.getTime() + 30 * 60000); 
-    return {
+    if (!isFormOpen || patientsLoaded) return;
+    const fetchPatients = async () => {
+      try {
+        const patientsRes = await fetch('/api/patients');
+        if (!patientsRes.ok) throw new Error(`Patients fetch failed: ${patientsRes.statusText} (${patientsRes.status})`);
+        setPatients(await patientsRes.json());
+        setPatientsLoaded(true);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'An error occurred fetching data';
+        setError(message);
+        console.error('Error fetching patients:', err);
+      }
+    };
+    fetchPatients();
+  }, [isFormOpen, patientsLoaded]);
+
+  // Only the dates on screen are fetched, again whenever the user navigates or switches view.
+  // Whatever was loaded for other dates is dropped so paging through years of history doesn't pile up.
+  useEffect(() => {
+    setLoading(true);
+    refreshVisibleRange()
+      .then(() => setAppointments((current) => current.filter((apt) => (
+        apt.date < visibleRange.end && apt.endTime > visibleRange.start
+      ))))
+      .finally(() => setLoading(false));
+  }, [refreshVisibleRange, visibleRange]);
+
+  // Saves a dragged or resized appointment, or with wholeSeries it and the later visits in its series;
+  // the server re-checks availability and conflicts
+  const moveAppointment = useCallback(async (appointment: Appointment, move: AppointmentMove, wholeSeries = false, undoing = false) => {
+    const { start, end, ...assignment } = move;
+    // Only what this move changes is restored by undo
+    const previous: AppointmentMove = { start: appointment.date, end: appointment.endTime };
+    if ('providerId' in assignment) previous.providerId = appointment.providerId ?? null;
+    if ('operatoryId' in assignment) previous.operatoryId = appointment.operatoryId ?? null;
+    const affected = {
+      start: new Date(Math.min(previous.start.getTime(), start.getTime())),
+      end: new Date(Math.max(previous.end.getTime(), end.getTime())),
+    };
+
+    // Show the change straight away; the refetch below settles it either way
+    setAppointments((current) => current.map((apt) => (
+      apt.id === appointment.id ? { ...apt, ...assignment, date: start, endTime: end } : apt
+    )));
+
+    let failure: string | null = null;
+    try {
+      const res = await fetch(`/api/appointments/${appointment.id}${wholeSeries ? '/series' : ''}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...assignment, date: start.toISOString(), endTime: end.toISOString() }),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => null);
+        failure = errData?.error || `Failed to move appointment (${res.status})`;
+      }
+    } catch (err) {
+      failure = err instanceof Error ? err.message : 'Failed to move appointment';
+    }
+    await loadRange(affected);
+
+    const patientName = `${appointment.patient.firstName} ${appointment.patient.lastName}`;
+    let where = format(start, 'EEE MMM d, h:mm a');
+    if ('providerId' in assignment) {
+      const provider = providers.find(item => item.id === assignment.providerId);
+      where += provider ? ` with ${provider.name ?? 'an unnamed provider'}` : ' with any provider';
+    }
+    if ('operatoryId' in assignment) {
+      const operatory = operatories.find(item => item.id === assignment.operatoryId);
+      where += operatory ? ` in ${operatory.name}` : ' with no chair';
+    }
+    // The later visits are weeks away, so refetching around this one is still enough
+    if (wholeSeries) where += ', along with the later visits in the series';
+    if (failure) {
+      setToast({ message: `Couldn't move ${patientName}'s appointment: ${failure}`, variant: 'destructive' });
+    } else if (undoing) {
+      setToast({ message: `${patientName}'s appointment is back at ${where}` });
+    } else {
+      setToast({
+        message: `${patientName}'s appointment moved to ${where}`,
+        actionLabel: 'Undo',
+        onAction: () => moveAppointment({ ...appointment, ...assignment, date: start, endTime: end }, previous, wholeSeries, true),
+      });
+    }
+  }, [loadRange, providers, operatories]);
+
+  const handleEventChange = useCallback(({ event, start, end, isAllDay, resourceId }: EventInteractionArgs<CalendarEvent>) => {
+    // Visits always have a time; the all-day row isn't somewhere they can go
+    if (isAllDay) return;
+    const appointment = event.resource;
+    const move: AppointmentMove = { start: new Date(start), end: new Date(end) };
+
+    // Dropped in another provider's or chair's column
+    if (groupBy !== 'none' && resourceId !== undefined && String(resourceId) !== resourceIdFor(appointment, groupBy)) {
+      const assignedId = resourceId === UNASSIGNED ? null : String(resourceId);
+      if (groupBy === 'provider') move.providerId = assignedId;
+      else move.operatoryId = assignedId;
+    }
+
+    const timeChanged = move.start.getTime() !== appointment.date.getTime() || move.end.getTime() !== appointment.endTime.getTime();
+    if (!timeChanged && !('providerId' in move) && !('operatoryId' in move)) return;
+    const wholeSeries = Boolean(appointment.seriesId) && window.confirm(
+      'This visit is part of a recurring series. Make the same change to the later visits in the series too?\n\nOK changes them all; Cancel changes only this visit.'
+    );
+    moveAppointment(appointment, move, wholeSeries);
+  }, [moveAppointment, groupBy]);
+
+  // Visits that are over can't be moved
+  const isMovable = useCallback((event: CalendarEvent) => !CLOSED_APPOINTMENT_STATUSES.includes(event.resource.status), []);
+
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  // Transform the appointments that pass the filters for react-big-calendar events
+  const calendarEvents: CalendarEvent[] = useMemo(() => appointments
+    .filter(apt => (
+      matchesFilter(apt.providerId, providerFilter) &&
+      matchesFilter(apt.operatoryId, operatoryFilter) &&
+      matchesFilter(apt.appointmentType?.id, typeFilter) &&
+      (statusFilter === ALL || apt.status === statusFilter)
+    ))
+    .map(apt => ({
       title: `${apt.patient.firstName} ${apt.patient.lastName} - ${apt.reason}`,
       start: apt.date,
-      end: endTime,
+      end: apt.endTime,
       resource: apt, // Attach original data
-    };
-  }), [appointments]);
+    })), [appointments, providerFilter, operatoryFilter, typeFilter, statusFilter]);
+
+  // One column per provider or chair, narrowed by that filter, plus one for appointments without one
+  const resources: CalendarResource[] | undefined = useMemo(() => {
+    if (groupBy === 'none') return undefined;
+    const filter = groupBy === 'provider' ? providerFilter : operatoryFilter;
+    const columns = (groupBy === 'provider' ? providers : operatories).map(item => ({
+      id: item.id,
+      title: item.name ?? 'Unnamed provider',
+    }));
+    columns.push({ id: UNASSIGNED, title: groupBy === 'provider' ? 'Any provider' : 'No chair' });
+    return columns.filter(column => filter === ALL || column.id === filter);
+  }, [groupBy, providers, operatories, providerFilter, operatoryFilter]);
+
+  const eventResourceId = useCallback((event: CalendarEvent) => resourceIdFor(event.resource, groupBy), [groupBy]);
 
   // Event Handlers
   const handleSelectEvent = useCallback((event: CalendarEvent) => {
@@ -177,40 +450,85 @@ export default function CalendarPage() {
     console.log("Selected Event:", event.resource); // For debugging
   }, []);
   
-  const handleSelectSlot = useCallback((slotInfo: { start: Date; end: Date }) => {
-    setNewAppointmentSlot({ start: slotInfo.start, end: slotInfo.end });
+  const handleSelectSlot = useCallback((slotInfo: SlotInfo) => {
+    // A slot picked in a provider's or chair's column books it with them
+    const assignedId = slotInfo.resourceId === undefined || slotInfo.resourceId === UNASSIGNED ? null : String(slotInfo.resourceId);
+    setNewAppointmentSlot({
+      start: slotInfo.start,
+      end: slotInfo.end,
+      providerId: groupBy === 'provider' ? assignedId : null,
+      operatoryId: groupBy === 'operatory' ? assignedId : null,
+    });
     setSelectedAppointment(null); // Ensure no previous detail is shown
     setIsFormOpen(true);
     console.log("Selected Slot:", slotInfo); // For debugging
-  }, []);
+  }, [groupBy]);
 
   const handleNavigate = useCallback((newDate: Date) => {
     setCurrentDate(newDate);
   }, []);
 
+  const handleView = useCallback((newView: View) => {
+    setView(newView);
+  }, []);
+
   // Modal Success Handlers
   const handleAppointmentSaveSuccess = () => {
     setIsFormOpen(false);
     setNewAppointmentSlot(null);
-    fetchData(); // Re-fetch data to show the new appointment
+    refreshVisibleRange(); // Re-fetch the dates on screen to show the new appointment
   }
 
-  const handleAppointmentDeleteSuccess = () => {
+  const handleAppointmentStatusChange = () => {
     setIsDetailOpen(false);
     setSelectedAppointment(null);
-    fetchData(); // Re-fetch data after deleting
+    refreshVisibleRange(); // Re-fetch the dates on screen to show the new status
   }
 
-  // Style Getter (Phase 5)
+  // Style Getter: colored by appointment type, with the status shown on top of that
   const eventStyleGetter = (event: CalendarEvent, start: Date, end: Date, isSelected: boolean) => {
     const appointment = event.resource;
     let newClassName = 'rbc-event flex items-center text-xs leading-tight'; // Base styles
-    
-    // Add status-specific styles (adjust Tailwind classes as needed for your theme)
+    const typeColor = appointment.appointmentType?.color;
+
+    if (typeColor) {
+      switch (appointment.status) {
+        case 'CHECKED_IN':
+          newClassName += ' ring-2 ring-inset ring-amber-400';
+          break;
+        case 'NO_SHOW':
+        case 'CANCELLED':
+          newClassName += ' line-through opacity-60';
+          break;
+        case 'COMPLETED':
+          newClassName += ' opacity-80';
+          break;
+        default:
+          break;
+      }
+      if (isSelected) newClassName += ' rbc-selected';
+      return {
+        className: newClassName,
+        style: {
+          backgroundColor: `color-mix(in srgb, ${typeColor} 20%, var(--background))`,
+          borderColor: typeColor,
+          borderLeft: `4px solid ${typeColor}`,
+          color: 'var(--foreground)',
+        },
+      };
+    }
+
+    // Without a type, color by status (adjust Tailwind classes as needed for your theme)
     switch (appointment.status) {
       case 'CONFIRMED':
         newClassName += ' bg-green-100 border-green-300 text-green-800 hover:bg-green-200';
         break;
+      case 'CHECKED_IN':
+        newClassName += ' bg-amber-100 border-amber-300 text-amber-800 hover:bg-amber-200';
+        break;
+      case 'NO_SHOW':
+        newClassName += ' bg-orange-100 border-orange-300 text-orange-800 hover:bg-orange-200 line-through opacity-75';
+        break;
       case 'CANCELLED':
         newClassName += ' bg-red-100 border-red-300 text-red-800 hover:bg-red-200 line-through opacity-75';
         break;
@@ -272,22 +590,86 @@ export default function CalendarPage() {
         </Alert>
       )}
 
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+          <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No columns</SelectItem>
+            <SelectItem value="provider">Column per provider</SelectItem>
+            <SelectItem value="operatory">Column per chair</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={providerFilter} onValueChange={setProviderFilter}>
+          <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All providers</SelectItem>
+            {providers.map(provider => (
+              <SelectItem key={provider.id} value={provider.id}>{provider.name ?? 'Unnamed provider'}</SelectItem>
+            ))}
+            <SelectItem value={UNASSIGNED}>Any provider</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={operatoryFilter} onValueChange={setOperatoryFilter}>
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All chairs</SelectItem>
+            {operatories.map(operatory => (
+              <SelectItem key={operatory.id} value={operatory.id}>{operatory.name}</SelectItem>
+            ))}
+            <SelectItem value={UNASSIGNED}>No chair</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {appointmentTypes.map(type => (
+              <SelectItem key={type.id} value={type.id}>
+                <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: type.color }} />
+                {type.name}
+              </SelectItem>
+            ))}
+            <SelectItem value={UNASSIGNED}>No type</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {STATUS_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
       <div className="flex-1 min-h-0 bg-card p-2 sm:p-4 rounded-lg border shadow-sm">
-        <Calendar
+        <DnDCalendar
           localizer={localizer}
           events={calendarEvents}
           startAccessor="start"
           endAccessor="end"
           style={{ height: '100%' }}
           views={[Views.WEEK, Views.DAY]}
-          defaultView={Views.WEEK}
+          view={view}
+          onView={handleView}
           date={currentDate}
           onNavigate={handleNavigate}
           onSelectEvent={handleSelectEvent}
           onSelectSlot={handleSelectSlot}
+          onEventDrop={handleEventChange}
+          onEventResize={handleEventChange}
+          draggableAccessor={isMovable}
+          resizableAccessor={isMovable}
+          resizable
+          resources={resources}
+          resourceIdAccessor="id"
+          resourceTitleAccessor="title"
+          resourceAccessor={eventResourceId}
           selectable={true}
           components={{
             toolbar: CustomToolbar,
+            event: CalendarEventContent,
           }}
           eventPropGetter={eventStyleGetter}
           step={30}
@@ -303,6 +685,9 @@ export default function CalendarPage() {
         onOpenChange={setIsFormOpen}
         initialDateTime={newAppointmentSlot}
         patients={patients}
+        appointmentTypes={appointmentTypes}
+        providers={providers}
+        operatories={operatories}
         onSubmitSuccess={handleAppointmentSaveSuccess}
       />
 
@@ -310,8 +695,10 @@ export default function CalendarPage() {
         isOpen={isDetailOpen}
         onOpenChange={setIsDetailOpen}
         appointment={selectedAppointment}
-        onDeleteSuccess={handleAppointmentDeleteSuccess}
+        onStatusChange={handleAppointmentStatusChange}
       />
+
+      <ActionToast toast={toast} onDismiss={dismissToast} />
     </div>
   );
 } 
\ No newline at end of file
@@ -12,48 +12,51 @@ import {
 } from "@/components/ui/table";
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { AlertCircle, Eye, RefreshCw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, ChevronLeft, ChevronRight, CloudDownload, Eye, RefreshCw, Search } from 'lucide-react';
 import { Badge } from "@/components/ui/badge";
 import CallDetailModal from '@/components/CallDetailModal'; // Import the modal
+import type { CallLogPage, CallLogSummary } from '@/app/types/callLog';
 
-// Interface matching the data from the API route
-interface CallLogInfo {
-  id: string;
-  createdAt: string;
-  endedAt: string | null;
-  durationSeconds: number | null;
-  status: string;
-  endedReason: string | null;
-  transcript: string | null;
-  summary: string | null;
-  structuredData: Record<string, unknown> | null;
-  recordingUrl: string | null;
-}
+const PAGE_SIZE = 20;
+const ALL_STATUSES = 'all';
+const CALL_STATUSES = ['queued', 'ringing', 'in-progress', 'forwarding', 'ended'];
 
 export default function CallLogsPage() {
-  const [calls, setCalls] = useState<CallLogInfo[]>([]);
+  const [calls, setCalls] = useState<CallLogSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState(ALL_STATUSES);
   const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedCallDetail, setSelectedCallDetail] = useState<CallLogInfo | null>(null);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
 
-  // Fetch calls function
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Fetch one page of stored calls; filtering and paging happen on the server
   const fetchCalls = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      // Fetch all logs for the org by default, add assistantId filter later if needed
-      const res = await fetch('/api/call-logs'); // Removed assistantId query param for now
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search) params.set('search', search);
+      if (status !== ALL_STATUSES) params.set('status', status);
+
+      const res = await fetch(`/api/call-logs?${params.toString()}`);
         
         if (!res.ok) {
         const errorData = await res.json().catch(() => ({ error: 'Failed to parse error response' }));
         throw new Error(errorData.error || `Failed to fetch call logs (${res.status})`);
         }
         
-      const data: CallLogInfo[] = await res.json();
-      // Sort by creation date descending
-      data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-        setCalls(data);
+      const data: CallLogPage = await res.json();
+      setCalls(data.calls);
+      setTotal(data.total);
         
       } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred');
@@ -61,12 +64,44 @@ export default function CallLogsPage() {
       } finally {
         setLoading(false);
       }
-  }, []);
+  }, [page, search, status]);
     
   useEffect(() => {
     fetchCalls();
   }, [fetchCalls]);
 
+  // Debounce typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Pull any calls the webhook missed from Vapi, then reload
+  const handleSync = async () => {
+    setSyncing(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/call-logs/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({ error: 'Failed to parse error response' }));
+        throw new Error(errorData.error || `Failed to sync call logs (${res.status})`);
+      }
+      await fetchCalls();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      console.error("Error syncing call logs:", err);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   // Function to format date concisely
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return 'N/A';
@@ -86,8 +121,8 @@ export default function CallLogsPage() {
   };
 
   // Handle opening the detail modal
-  const handleViewDetails = (call: CallLogInfo) => {
-    setSelectedCallDetail(call);
+  const handleViewDetails = (call: CallLogSummary) => {
+    setSelectedCallId(call.id);
     setIsDetailModalOpen(true);
   };
 
@@ -95,10 +130,39 @@ export default function CallLogsPage() {
     <div className="container mx-auto p-4 md:p-6 space-y-6">
       <div className="flex justify-between items-center flex-wrap gap-2">
         <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">Call Logs</h1>
-        <Button variant="outline" size="sm" onClick={fetchCalls} disabled={loading}>
-            <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-            Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleSync} disabled={syncing}>
+              <CloudDownload className={`mr-2 h-4 w-4 ${syncing ? 'animate-pulse' : ''}`} />
+              Sync from Vapi
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchCalls} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search summaries, transcripts or caller number..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+          <SelectTrigger className="sm:w-[180px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+            {CALL_STATUSES.map(value => (
+              <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
       
       {error && (
@@ -114,6 +178,7 @@ export default function CallLogsPage() {
           <TableHeader>
             <TableRow>
               <TableHead className="w-[200px]">Date/Time</TableHead>
+              <TableHead className="hidden md:table-cell">Caller</TableHead>
               <TableHead>Duration</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="hidden sm:table-cell">End Reason</TableHead>
@@ -128,6 +193,7 @@ export default function CallLogsPage() {
                 return (
                   <TableRow key={skeletonId}>
                     <TableCell><Skeleton className="h-5 w-32" /></TableCell>
+                    <TableCell className="hidden md:table-cell"><Skeleton className="h-5 w-24" /></TableCell>
                     <TableCell><Skeleton className="h-5 w-16" /></TableCell>
                     <TableCell><Skeleton className="h-6 w-24 rounded-full" /></TableCell>
                     <TableCell className="hidden sm:table-cell"><Skeleton className="h-5 w-28" /></TableCell>
@@ -137,7 +203,7 @@ export default function CallLogsPage() {
               })
             ) : calls.length === 0 && !error ? (
               <TableRow>
-                <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
                   No call logs found.
                 </TableCell>
               </TableRow>
@@ -145,6 +211,7 @@ export default function CallLogsPage() {
               calls.map((call) => (
                 <TableRow key={call.id}>
                   <TableCell className="font-medium text-xs sm:text-sm">{formatDate(call.createdAt)}</TableCell>
+                  <TableCell className="hidden md:table-cell text-xs sm:text-sm">{call.callerPhone || 'Unknown'}</TableCell>
                   <TableCell className="text-xs sm:text-sm">{formatDuration(call.durationSeconds)}</TableCell>
                   <TableCell>
                     <Badge variant={call.status === 'ended' ? 'secondary' : 'default'} className="capitalize text-xs">
@@ -167,11 +234,26 @@ export default function CallLogsPage() {
         </Table>
           </div>
 
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total} {total === 1 ? 'call' : 'calls'}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={loading || page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous page</span>
+          </Button>
+          <span>Page {page} of {totalPages}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={loading || page >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next page</span>
+          </Button>
+        </div>
+      </div>
+
       {/* Detail Modal */}
       <CallDetailModal
         isOpen={isDetailModalOpen}
         onOpenChange={setIsDetailModalOpen}
-        callDetail={selectedCallDetail}
+        callId={selectedCallId}
       />
     </div>
   );
@@ -34,7 +34,6 @@ interface SelectOption {
 export default function NexHealthTestPage() {
     // --- State Variables ---
     const [credentials, setCredentials] = useState<NexHealthCredentials>({ apiKey: '', subdomain: '', locationId: '' });
-    const [bearerToken, setBearerToken] = useState<string | null>(null);
     const [isConnected, setIsConnected] = useState(false);
     const [connectionLoading, setConnectionLoading] = useState(false);
     const [connectionResult, setConnectionResult] = useState<{ success: boolean; message: string } | null>(null);
@@ -74,7 +73,6 @@ export default function NexHealthTestPage() {
         setCredentials({ ...credentials, [e.target.id]: e.target.value });
         // Reset connection status if credentials change
         setIsConnected(false);
-        setBearerToken(null);
         setConnectionResult(null);
         setAppointments([]);
         setShowCreateForm(false);
@@ -85,7 +83,6 @@ export default function NexHealthTestPage() {
         setConnectionLoading(true);
         setConnectionResult(null);
         setIsConnected(false);
-        setBearerToken(null);
         setAppointments([]); // Clear previous results
         setShowCreateForm(false);
 
@@ -101,7 +98,6 @@ export default function NexHealthTestPage() {
                 setConnectionResult({ success: false, message: data.message || `Error: ${response.statusText}` });
             } else {
                 setConnectionResult({ success: true, message: data.message });
-                setBearerToken(data.bearerToken); // Store the token
                 setIsConnected(true);
             }
         } catch (error) {
@@ -114,7 +110,7 @@ export default function NexHealthTestPage() {
     };
 
     const handleFetchAppointments = async () => {
-        if (!isConnected || !bearerToken) return;
+        if (!isConnected) return;
         setFetchAppointmentsLoading(true);
         setFetchAppointmentsError(null);
         setAppointments([]);
@@ -125,7 +121,6 @@ export default function NexHealthTestPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     credentials, // Send all credentials needed for auth + context
-                    bearerToken, // Send the obtained token
                     action: 'fetch',
                     params: { startDate, endDate }
                 }),
@@ -150,7 +145,7 @@ export default function NexHealthTestPage() {
     };
 
      const handlePrepareCreateForm = async () => {
-        if (!isConnected || !bearerToken) return;
+        if (!isConnected) return;
         setPrepareFormLoading(true);
         setPrepareFormError(null);
         setShowCreateForm(false); // Hide form while loading prerequisites
@@ -163,7 +158,7 @@ export default function NexHealthTestPage() {
             const response = await fetch('/api/nexhealth/prepare-appointment-form', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ credentials, bearerToken }),
+                body: JSON.stringify({ credentials }),
             });
             const data = await response.json();
 
@@ -187,7 +182,7 @@ export default function NexHealthTestPage() {
 
     const handleCreateAppointment = async (event: React.FormEvent) => {
         event.preventDefault();
-        if (!isConnected || !bearerToken) return;
+        if (!isConnected) return;
 
         setCreateAppointmentLoading(true);
         setCreateAppointmentResult(null);
@@ -234,7 +229,6 @@ export default function NexHealthTestPage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     credentials,
-                    bearerToken,
                     action: 'create',
                     params: appointmentData
                 }),
@@ -0,0 +1,485 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, ArrowLeft, Eye, GitMerge, Loader2, Pencil, Trash2 } from 'lucide-react';
+import CallDetailModal from '@/components/CallDetailModal';
+import { hasPermission } from '@/lib/permissions';
+import type { Role } from '@prisma/client';
+import type { DuplicatePatient, PatientDetail } from '@/app/types/patient';
+
+// Dates of birth are calendar days stored at UTC midnight
+const formatDateOfBirth = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const MATCH_LABELS: Record<DuplicatePatient['matchedOn'][number], string> = {
+  phone: 'Phone',
+  email: 'Email',
+  name: 'Name',
+  dateOfBirth: 'Date of birth',
+};
+
+type PatientForm = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phoneNumber: string;
+  dateOfBirth: string; // YYYY-MM-DD
+};
+
+const toForm = (patient: PatientDetail): PatientForm => ({
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  email: patient.email ?? '',
+  phoneNumber: patient.phoneNumber ?? '',
+  dateOfBirth: patient.dateOfBirth ? patient.dateOfBirth.slice(0, 10) : '',
+});
+
+// Reads an error body from the API, falling back to the status code
+async function errorMessage(res: Response, fallback: string) {
+  const data = await res.json().catch(() => null);
+  return data?.error || `${fallback} (${res.status})`;
+}
+
+function Detail({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="text-sm">{value || <span className="text-muted-foreground">N/A</span>}</dd>
+    </div>
+  );
+}
+
+export default function PatientDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const [patient, setPatient] = useState<PatientDetail | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicatePatient[]>([]);
+  const [role, setRole] = useState<Role | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [form, setForm] = useState<PatientForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+
+  const canEdit = hasPermission(role, 'patient:write');
+  const canManage = hasPermission(role, 'patient:manage');
+
+  const fetchPatient = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [patientRes, duplicatesRes] = await Promise.all([
+        fetch(`/api/patients/${id}`),
+        fetch(`/api/patients/${id}/merge`),
+      ]);
+      if (!patientRes.ok) {
+        throw new Error(await errorMessage(patientRes, 'Failed to fetch patient'));
+      }
+      setPatient(await patientRes.json());
+      // Duplicate suggestions are a nicety; the page works without them
+      setDuplicates(duplicatesRes.ok ? await duplicatesRes.json() : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      console.error("Error fetching patient:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchPatient();
+  }, [fetchPatient]);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((user) => setRole(user?.role ?? null))
+      .catch((err) => console.error("Failed to load current user:", err));
+  }, []);
+
+  const openEdit = () => {
+    if (!patient) return;
+    setForm(toForm(patient));
+    setActionError(null);
+    setIsEditOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/patients/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          firstName: form.firstName,
+          lastName: form.lastName,
+          email: form.email || null,
+          phoneNumber: form.phoneNumber || null,
+          dateOfBirth: form.dateOfBirth || null,
+        }),
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, 'Failed to save patient'));
+      }
+      setIsEditOpen(false);
+      await fetchPatient();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async (duplicate: DuplicatePatient) => {
+    const name = `${duplicate.patient.firstName} ${duplicate.patient.lastName}`;
+    if (!window.confirm(`Merge ${name} into this record? Their appointments, calls and tasks will move here and the duplicate record will be deleted.`)) {
+      return;
+    }
+    setMergingId(duplicate.patient.id);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/patients/${id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duplicateId: duplicate.patient.id }),
+      });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, 'Failed to merge patients'));
+      }
+      await fetchPatient();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm("Are you sure you want to delete this patient? This action cannot be undone.")) {
+      return;
+    }
+    setDeleting(true);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/patients/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, 'Failed to delete patient'));
+      }
+      router.push('/patients');
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'An unknown error occurred');
+      setDeleting(false);
+    }
+  };
+
+  const backLink = (
+    <Link href="/patients">
+      <Button variant="outline"><ArrowLeft className="mr-2 h-4 w-4"/> Back to Patients</Button>
+    </Link>
+  );
+
+  if (loading && !patient) {
+    return (
+      <div className="container mx-auto p-4 md:p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-40" />
+        </div>
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !patient) {
+    return (
+      <div className="container mx-auto p-4 md:p-6">
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Patient</AlertTitle>
+          <AlertDescription>{error ?? 'Patient not found'}</AlertDescription>
+        </Alert>
+        <div className="mt-4">{backLink}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 md:p-6 space-y-6">
+      <div className="flex justify-between items-center flex-wrap gap-2">
+        <h1 className="text-2xl font-bold tracking-tight sm:text-3xl">{patient.firstName} {patient.lastName}</h1>
+        <div className="flex gap-2">
+          {backLink}
+          {canEdit && (
+            <Button variant="outline" onClick={openEdit}><Pencil className="mr-2 h-4 w-4"/> Edit</Button>
+          )}
+          {canManage && (
+            <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+              {deleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {actionError && !isEditOpen && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{actionError}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Demographics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Detail label="Date of Birth" value={patient.dateOfBirth && formatDateOfBirth(patient.dateOfBirth)} />
+            <Detail label="Email" value={patient.email} />
+            <Detail label="Phone Number" value={patient.phoneNumber} />
+            <Detail label="Responsible Provider" value={patient.user.name || patient.user.email} />
+            <Detail label="Patient Since" value={formatDateOfBirth(patient.createdAt)} />
+            <Detail label="Last Updated" value={formatDateTime(patient.updatedAt)} />
+          </dl>
+        </CardContent>
+      </Card>
+
+      {duplicates.length > 0 && (
+        <Card className="border-amber-300">
+          <CardHeader>
+            <CardTitle>Possible Duplicates</CardTitle>
+            <CardDescription>
+              These records share details with this patient. Merging moves their history here and deletes the duplicate.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {duplicates.map((duplicate) => (
+              <div key={duplicate.patient.id} className="flex items-center justify-between gap-4 flex-wrap border rounded-md p-3">
+                <div className="space-y-1">
+                  <Link href={`/patients/${duplicate.patient.id}`} className="font-medium hover:underline">
+                    {duplicate.patient.firstName} {duplicate.patient.lastName}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    {[duplicate.patient.email, duplicate.patient.phoneNumber, duplicate.patient.dateOfBirth && formatDateOfBirth(duplicate.patient.dateOfBirth)]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                  <div className="flex gap-1">
+                    {duplicate.matchedOn.map((field) => (
+                      <Badge key={field} variant="secondary" className="text-xs">{MATCH_LABELS[field]}</Badge>
+                    ))}
+                  </div>
+                </div>
+                {canManage && (
+                  <Button variant="outline" size="sm" onClick={() => handleMerge(duplicate)} disabled={mergingId !== null}>
+                    {mergingId === duplicate.patient.id
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <GitMerge className="mr-2 h-4 w-4" />}
+                    Merge into this record
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Appointment History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Provider</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {patient.appointments.length > 0 ? (
+                patient.appointments.map((appointment) => (
+                  <TableRow key={appointment.id}>
+                    <TableCell className="font-medium">{formatDateTime(appointment.date)}</TableCell>
+                    <TableCell>
+                      {appointment.appointmentType ? (
+                        <span className="flex items-center gap-2">
+                          <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: appointment.appointmentType.color }} />
+                          {appointment.appointmentType.name}
+                        </span>
+                      ) : <span className="text-muted-foreground">N/A</span>}
+                    </TableCell>
+                    <TableCell>{appointment.provider?.name || <span className="text-muted-foreground">N/A</span>}</TableCell>
+                    <TableCell>{appointment.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={appointment.status === 'CANCELLED' || appointment.status === 'NO_SHOW' ? 'destructive' : 'secondary'} className="text-xs">
+                        {appointment.status.replace('_', ' ')}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-20 text-center text-muted-foreground">
+                    No appointments yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Calls</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {patient.callLogs.length > 0 ? (
+              patient.callLogs.map((call) => (
+                <div key={call.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-b-0 last:pb-0">
+                  <div className="space-y-1">
+                    <div className="text-sm font-medium">
+                      {formatDateTime(call.startedAt ?? call.createdAt)}
+                      <span className="ml-2 text-xs text-muted-foreground">{formatDuration(call.durationSeconds)}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{call.summary || 'No summary'}</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedCallId(call.id)}>
+                    <Eye className="h-4 w-4" />
+                    <span className="sr-only">View call</span>
+                  </Button>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No calls linked to this patient.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Tasks</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {patient.tasks.length > 0 ? (
+              patient.tasks.map((task) => (
+                <div key={task.id} className="flex items-start justify-between gap-4 border-b pb-3 last:border-b-0 last:pb-0">
+                  <div className="space-y-1">
+                    <p className="text-sm">{task.description}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {task.assignedTo?.name || task.assignedRole?.replace('_', ' ') || 'Unassigned'}
+                      {task.dueDate && ` · Due ${formatDateTime(task.dueDate)}`}
+                    </p>
+                  </div>
+                  <Badge variant={task.priority === 'URGENT' || task.priority === 'HIGH' ? 'destructive' : 'outline'} className="text-xs">
+                    {task.priority}
+                  </Badge>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No open tasks.</p>
+            )}
+            <Link href="/tasks" className="block text-sm text-primary hover:underline">View all tasks</Link>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Edit Patient</DialogTitle>
+              <DialogDescription>Update the patient&apos;s details. Changes are recorded in the audit log.</DialogDescription>
+            </DialogHeader>
+            {form && (
+              <div className="grid gap-4 py-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="firstName">First Name</Label>
+                    <Input id="firstName" required value={form.firstName} onChange={(e) => setForm({ ...form, firstName: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lastName">Last Name</Label>
+                    <Input id="lastName" required value={form.lastName} onChange={(e) => setForm({ ...form, lastName: e.target.value })} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input id="email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phoneNumber">Phone Number</Label>
+                  <Input id="phoneNumber" type="tel" value={form.phoneNumber} onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                  <Input id="dateOfBirth" type="date" value={form.dateOfBirth} onChange={(e) => setForm({ ...form, dateOfBirth: e.target.value })} />
+                </div>
+                {actionError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{actionError}</AlertDescription>
+                  </Alert>
+                )}
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <CallDetailModal
+        isOpen={selectedCallId !== null}
+        onOpenChange={(open) => { if (!open) setSelectedCallId(null); }}
+        callId={selectedCallId}
+      />
+    </div>
+  );
+}
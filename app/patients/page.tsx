@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import {
   Table,
@@ -13,19 +14,21 @@ import {
 } from "@/components/ui/table"
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { AlertCircle, ArrowLeft } from 'lucide-react';
+import { AlertCircle, ArrowLeft, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { PatientListItem } from '@/app/types/patient';
 
-type Patient = {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email: string | null;
-  phoneNumber: string | null;
-};
+// Dates of birth are calendar days stored at UTC midnight
+const formatDateOfBirth = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
 
 export default function PatientsPage() {
-  const [patients, setPatients] = useState<Patient[]>([]);
+  const router = useRouter();
+  const [patients, setPatients] = useState<PatientListItem[]>([]);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,7 +37,10 @@ export default function PatientsPage() {
       try {
         setError(null); // Reset error on new fetch
         setLoading(true);
-        const res = await fetch('/api/patients');
+        const params = new URLSearchParams();
+        if (search) params.set('search', search);
+        if (dateOfBirth) params.set('dateOfBirth', dateOfBirth);
+        const res = await fetch(`/api/patients?${params.toString()}`);
 
         if (!res.ok) {
             const errorData = await res.text(); // Get more error details
@@ -52,48 +58,13 @@ export default function PatientsPage() {
     };
 
     fetchPatients();
-  }, []);
+  }, [search, dateOfBirth]);
 
-  if (loading) {
-    return (
-      <div className="container mx-auto p-4 md:p-6 space-y-6">
-        <div className="flex justify-between items-center">
-          <Skeleton className="h-8 w-32" />
-          <Skeleton className="h-10 w-40" />
-        </div>
-        <Card>
-            <CardHeader>
-                <Skeleton className="h-6 w-1/4" />
-            </CardHeader>
-            <CardContent>
-                <div className="space-y-3">
-                    <Skeleton className="h-10 w-full" /> {/* Header row skeleton */}
-                    <Skeleton className="h-12 w-full" />
-                    <Skeleton className="h-12 w-full" />
-                    <Skeleton className="h-12 w-full" />
-                </div>
-            </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  if (error) {
-     return (
-        <div className="container mx-auto p-4 md:p-6">
-            <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertTitle>Error Loading Patients</AlertTitle>
-                <AlertDescription>{error}</AlertDescription>
-            </Alert>
-            <div className="mt-4">
-               <Link href="/calendar">
-                   <Button variant="outline"><ArrowLeft className="mr-2 h-4 w-4"/> Back to Calendar</Button>
-               </Link>
-            </div>
-        </div>
-     );
-  }
+  // Debounce typing before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   return (
     <div className="container mx-auto p-4 md:p-6 space-y-6">
@@ -104,33 +75,78 @@ export default function PatientsPage() {
         </Link>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, phone or email..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Input
+          type="date"
+          aria-label="Date of birth"
+          title="Date of birth"
+          value={dateOfBirth}
+          onChange={(e) => setDateOfBirth(e.target.value)}
+          className="sm:w-[180px]"
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Error Loading Patients</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
        <Card>
          <CardHeader>
             <CardTitle>Patient List</CardTitle>
          </CardHeader>
          <CardContent>
             <Table>
-              {/* Optional: Add TableCaption if needed */}
-              {/* <TableCaption>A list of registered patients.</TableCaption> */}
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-[250px]">Name</TableHead>
+                  <TableHead>Date of Birth</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead className="text-right">Phone Number</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {patients.length > 0 ? (
+                {loading ? (
+                  Array.from({ length: 4 }).map((_, i) => (
+                    <TableRow key={`skeleton-row-${i}`}>
+                      <TableCell><Skeleton className="h-5 w-40" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                      <TableCell><Skeleton className="h-5 w-48" /></TableCell>
+                      <TableCell className="text-right"><Skeleton className="ml-auto h-5 w-28" /></TableCell>
+                    </TableRow>
+                  ))
+                ) : patients.length > 0 ? (
                   patients.map((patient) => (
-                    <TableRow key={patient.id}>
-                      <TableCell className="font-medium">{patient.firstName} {patient.lastName}</TableCell>
+                    <TableRow
+                      key={patient.id}
+                      className="cursor-pointer"
+                      onClick={() => router.push(`/patients/${patient.id}`)}
+                    >
+                      <TableCell className="font-medium">
+                        <Link href={`/patients/${patient.id}`} className="hover:underline">
+                          {patient.firstName} {patient.lastName}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{patient.dateOfBirth ? formatDateOfBirth(patient.dateOfBirth) : <span className='text-muted-foreground'>N/A</span>}</TableCell>
                       <TableCell>{patient.email || <span className='text-muted-foreground'>N/A</span>}</TableCell>
                       <TableCell className="text-right">{patient.phoneNumber || <span className='text-muted-foreground'>N/A</span>}</TableCell>
                     </TableRow>
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={3} className="h-24 text-center text-muted-foreground">
+                    <TableCell colSpan={4} className="h-24 text-center text-muted-foreground">
                       No patients found.
                     </TableCell>
                   </TableRow>
@@ -141,4 +157,4 @@ export default function PatientsPage() {
        </Card>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -12,18 +12,13 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import { Role, TaskPriority, TaskStatus } from '@prisma/client';
+import type { CallLogDetail, CallLogPage, CallLogSummary } from '@/app/types/callLog';
+
+const CALLS_PAGE_SIZE = 20;
 
 // Type definitions for our data
-interface CallLog {
-  id: string;
-  createdAt: string;
-  endedAt: string | null;
-  summary: string | null;
-  transcript: string | null;
-  structuredData?: Record<string, unknown> | null;
-  recordingUrl?: string | null;
-}
 
 interface Task {
   id: string;
@@ -34,6 +29,10 @@ interface Task {
   createdAt: string;
   dueDate: string | null;
   appointmentId: string | null;
+  patient?: {
+    firstName: string;
+    lastName: string;
+  } | null;
   appointment?: {
     id: string;
     date: string;
@@ -60,43 +59,42 @@ const roleColors = {
 };
 
 export default function TasksPage() {
-  const [calls, setCalls] = useState<CallLog[]>([]);
+  const [calls, setCalls] = useState<CallLogSummary[]>([]);
+  const [callsPage, setCallsPage] = useState(1);
+  const [totalCalls, setTotalCalls] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
   const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
-  const [selectedCall, setSelectedCall] = useState<CallLog | null>(null);
+  const [selectedCall, setSelectedCall] = useState<CallLogDetail | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [replacePrevious, setReplacePrevious] = useState(true);
   
   const [isLoadingCalls, setIsLoadingCalls] = useState(true);
   const [isLoadingTasks, setIsLoadingTasks] = useState(false);
   const [isGeneratingTasks, setIsGeneratingTasks] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch organization ID (for demo, we'll just use the first one)
+  // Debounce the call search before hitting the server
   useEffect(() => {
-    async function fetchOrganization() {
-      try {
-        const response = await fetch('/api/organizations');
-        const data = await response.json();
-        if (data && data.length > 0) {
-          setOrganizationId(data[0].id);
-        }
-      } catch (error) {
-        console.error('Error fetching organization:', error);
-        // For demo, set a fallback organization ID from the seed data
-        setOrganizationId('cm9k9kz7q00004vn62n2qarnj');
-      }
-    }
-    fetchOrganization();
-  }, []);
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setCallsPage(1);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
-  // Fetch recent calls
+  // Fetch stored calls one page at a time; later pages are appended
   useEffect(() => {
     async function fetchCalls() {
       setIsLoadingCalls(true);
       try {
-        const response = await fetch('/api/call-logs?limit=10');
-        const data = await response.json();
-        setCalls(data);
+        const params = new URLSearchParams({ page: String(callsPage), pageSize: String(CALLS_PAGE_SIZE) });
+        if (search) params.set('search', search);
+        const response = await fetch(`/api/call-logs?${params.toString()}`);
+        if (!response.ok) throw new Error(`Failed to fetch calls (${response.status})`);
+        const data: CallLogPage = await response.json();
+        setCalls(prev => (callsPage === 1 ? data.calls : [...prev, ...data.calls]));
+        setTotalCalls(data.total);
       } catch (error) {
         console.error('Error fetching calls:', error);
         setError('Failed to load recent calls');
@@ -105,19 +103,19 @@ export default function TasksPage() {
       }
     }
     fetchCalls();
-  }, []);
+  }, [callsPage, search]);
 
-  // Fetch tasks for the selected call
+  // Fetch the full call record and its tasks when a call is selected
   useEffect(() => {
     if (selectedCallId) {
       setIsLoadingTasks(true);
-      fetch(`/api/tasks?callId=${selectedCallId}`)
-        .then(response => response.json())
-        .then(data => {
+      Promise.all([
+        fetch(`/api/call-logs/${selectedCallId}`).then(response => response.json() as Promise<CallLogDetail>),
+        fetch(`/api/tasks?callId=${selectedCallId}`).then(response => response.json()),
+      ])
+        .then(([call, data]) => {
+          setSelectedCall(call);
           setTasks(data);
-          // Find and set the selected call details
-          const call = calls.find(c => c.id === selectedCallId);
-          if (call) setSelectedCall(call);
         })
         .catch(error => {
           console.error('Error fetching tasks:', error);
@@ -130,14 +128,14 @@ export default function TasksPage() {
       setTasks([]);
       setSelectedCall(null);
     }
-  }, [selectedCallId, calls]);
+  }, [selectedCallId]);
 
   const handleCallSelect = (callId: string) => {
     setSelectedCallId(callId);
   };
 
   const handleGenerateTasks = async () => {
-    if (!selectedCall || !organizationId) return;
+    if (!selectedCall) return;
 
     setIsGeneratingTasks(true);
     setError(null);
@@ -149,23 +147,24 @@ export default function TasksPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          callId: selectedCall.id,
-          summary: selectedCall.summary,
-          transcript: selectedCall.transcript,
-          structuredData: selectedCall.structuredData,
-          organizationId,
+          callId: selectedCall.vapiCallId,
+          replace: replacePrevious,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to generate tasks');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to generate tasks');
       }
 
-      const generatedTasks = await response.json();
-      setTasks(prevTasks => [...generatedTasks, ...prevTasks]);
+      const { run } = await response.json();
+      // Re-read the task list: a replacing run removes earlier suggestions as well as adding new ones
+      const tasksResponse = await fetch(`/api/tasks?callId=${selectedCall.vapiCallId}`);
+      setTasks(await tasksResponse.json());
+      setSelectedCall(prev => (prev ? { ...prev, taskGeneration: run } : prev));
     } catch (error) {
       console.error('Error generating tasks:', error);
-      setError('Failed to generate tasks. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to generate tasks. Please try again.');
     } finally {
       setIsGeneratingTasks(false);
     }
@@ -180,8 +179,14 @@ export default function TasksPage() {
             <CardTitle>Recent Calls</CardTitle>
           </CardHeader>
           <CardContent>
+            <Input
+              placeholder="Search calls..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="mb-4"
+            />
             <ScrollArea className="h-[500px]">
-              {isLoadingCalls ? (
+              {isLoadingCalls && calls.length === 0 ? (
                 // Loading state for calls
                 Array.from({ length: 5 }).map((_, i) => (
                   <div key={`call-skeleton-${i}`} className="mb-4">
@@ -198,9 +203,9 @@ export default function TasksPage() {
                     <Card 
                       key={call.id} 
                       className={`cursor-pointer hover:bg-gray-100 transition-colors ${
-                        selectedCallId === call.id ? 'border-blue-500 bg-blue-50' : ''
+                        selectedCallId === call.vapiCallId ? 'border-blue-500 bg-blue-50' : ''
                       }`}
-                      onClick={() => handleCallSelect(call.id)}
+                      onClick={() => handleCallSelect(call.vapiCallId)}
                     >
                       <CardContent className="p-4">
                         <p className="text-sm font-medium mb-1">
@@ -212,6 +217,16 @@ export default function TasksPage() {
                       </CardContent>
                     </Card>
                   ))}
+                  {calls.length < totalCalls && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setCallsPage(page => page + 1)}
+                      disabled={isLoadingCalls}
+                    >
+                      {isLoadingCalls ? 'Loading...' : 'Load more calls'}
+                    </Button>
+                  )}
                 </div>
               )}
             </ScrollArea>
@@ -229,6 +244,12 @@ export default function TasksPage() {
               </CardHeader>
               <CardContent>
                 <p className="font-medium mb-2">Date: {new Date(selectedCall.createdAt).toLocaleString()}</p>
+                <p className="text-sm text-gray-700 mb-2">
+                  Caller: {selectedCall.patient
+                    ? `${selectedCall.patient.firstName} ${selectedCall.patient.lastName}`
+                    : 'Not matched to a patient'}
+                  {selectedCall.callerPhone && ` (${selectedCall.callerPhone})`}
+                </p>
                 <div className="mb-4">
                   <p className="font-medium mb-1">Summary:</p>
                   <p className="text-gray-700">{selectedCall.summary || 'No summary available'}</p>
@@ -239,13 +260,34 @@ export default function TasksPage() {
                     {selectedCall.transcript || 'No transcript available'}
                   </div>
                 </div>
-                <Button
-                  className="mt-4"
-                  onClick={handleGenerateTasks}
-                  disabled={isGeneratingTasks || !organizationId}
-                >
-                  {isGeneratingTasks ? 'Generating...' : 'Generate Tasks'}
-                </Button>
+                {selectedCall.taskGeneration && (
+                  <p className="text-sm text-gray-500 mt-4">
+                    Automatic task generation: {selectedCall.taskGeneration.status.toLowerCase()}
+                    {selectedCall.taskGeneration.finishedAt && ` (${new Date(selectedCall.taskGeneration.finishedAt).toLocaleString()})`}
+                    {selectedCall.taskGeneration.error && (
+                      <span className="block text-red-500">{selectedCall.taskGeneration.error}</span>
+                    )}
+                  </p>
+                )}
+                <div className="flex flex-wrap items-center gap-4 mt-4">
+                  <Button
+                    onClick={handleGenerateTasks}
+                    disabled={isGeneratingTasks || selectedCall.taskGeneration?.status === 'RUNNING'}
+                  >
+                    {isGeneratingTasks ? 'Generating...' : selectedCall.taskGeneration ? 'Re-run Task Generation' : 'Generate Tasks'}
+                  </Button>
+                  {selectedCall.taskGeneration && (
+                    <label className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={replacePrevious}
+                        onChange={(e) => setReplacePrevious(e.target.checked)}
+                        disabled={isGeneratingTasks}
+                      />
+                      Replace previous suggestions
+                    </label>
+                  )}
+                </div>
                 {error && <p className="text-red-500 mt-2">{error}</p>}
               </CardContent>
             </Card>
@@ -294,6 +336,12 @@ export default function TasksPage() {
                             {task.dueDate && (
                               <span> • Due: {new Date(task.dueDate).toLocaleString()}</span>
                             )}
+                            {task.patient && !task.appointment && (
+                              <div className="mt-2 text-xs">
+                                <span className="font-medium">Patient:</span>{' '}
+                                {task.patient.firstName} {task.patient.lastName}
+                              </div>
+                            )}
                             {task.appointment && (
                               <div className="mt-2 text-xs">
                                 <span className="font-medium">Related Appointment:</span>{' '}
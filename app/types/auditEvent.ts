@@ -0,0 +1,63 @@
+// Audit log shapes returned by /api/audit-events
+
+export const AUDIT_ENTITY_TYPES = [
+  'Appointment',
+  'AppointmentSeries',
+  'AppointmentType',
+  'Assistant',
+  'AssistantConfig',
+  'AssistantPrompt',
+  'AssistantTool',
+  'CallLog',
+  'KnowledgeFile',
+  'KnowledgeTopic',
+  'Operatory',
+  'Patient',
+  'RoleResponsibility',
+  'Schedule',
+  'ScheduleClosure',
+  'Task',
+  'User',
+  'VapiTool',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS = [
+  'create',
+  'update',
+  'delete',
+  'cancel',
+  'reschedule',
+  'merge',
+  'sync',
+  // Appointment status changes
+  'confirm',
+  'check-in',
+  'complete',
+  'no-show',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditEventEntry {
+  id: string;
+  createdAt: string; // ISO string
+  actorType: 'STAFF' | 'ASSISTANT';
+  actorUserId: string | null;
+  actorLabel: string | null;
+  callId: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  // Only the fields that changed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditEventPage {
+  events: AuditEventEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
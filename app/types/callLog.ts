@@ -0,0 +1,49 @@
+// Call log shapes returned by /api/call-logs
+
+export interface CallLogSummary {
+  id: string;
+  vapiCallId: string;
+  assistantId: string | null;
+  status: string;
+  createdAt: string; // ISO string
+  startedAt: string | null;
+  endedAt: string | null;
+  durationSeconds: number | null;
+  endedReason: string | null;
+  summary: string | null;
+  callerPhone: string | null;
+  patientId: string | null;
+}
+
+// Patient matched from the caller's phone number
+export interface CallerPatient {
+  id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string | null;
+  phoneNumber: string | null;
+  email: string | null;
+}
+
+export interface TaskGenerationInfo {
+  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  error: string | null;
+  attempts: number;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface CallLogDetail extends CallLogSummary {
+  transcript: string | null;
+  structuredData: Record<string, unknown> | null;
+  recordingUrl: string | null;
+  patient: CallerPatient | null;
+  taskGeneration: TaskGenerationInfo | null;
+}
+
+export interface CallLogPage {
+  calls: CallLogSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -0,0 +1,56 @@
+// Patient shapes returned by /api/patients
+
+import type { CallLogSummary } from '@/app/types/callLog';
+
+export interface PatientListItem {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phoneNumber: string | null;
+  dateOfBirth: string | null; // ISO string, UTC midnight
+}
+
+interface StaffMember {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface PatientAppointment {
+  id: string;
+  date: string; // ISO string
+  endTime: string; // ISO string
+  reason: string;
+  status: 'SCHEDULED' | 'CONFIRMED' | 'CHECKED_IN' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW';
+  notes?: string | null; // left out for roles that may not read clinical notes
+  appointmentType: { id: string; name: string; color: string } | null;
+  provider: StaffMember | null;
+}
+
+export interface PatientTask {
+  id: string;
+  description: string;
+  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'ARCHIVED';
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+  dueDate: string | null;
+  assignedRole: string | null;
+  assignedTo: StaffMember | null;
+}
+
+export interface PatientDetail extends PatientListItem {
+  createdAt: string;
+  updatedAt: string;
+  userId: string;
+  // The responsible provider
+  user: StaffMember;
+  appointments: PatientAppointment[];
+  callLogs: CallLogSummary[];
+  // Only tasks still pending or in progress
+  tasks: PatientTask[];
+}
+
+export interface DuplicatePatient {
+  patient: PatientListItem & { createdAt: string };
+  matchedOn: ('phone' | 'email' | 'name' | 'dateOfBirth')[];
+}
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle2, X } from "lucide-react";
+
+// How long a toast stays up before it dismisses itself
+const TOAST_DURATION_MS = 8000;
+
+export interface ActionToastState {
+  message: string;
+  variant?: 'default' | 'destructive';
+  // Optional action offered with the message, e.g. undoing what was just done
+  actionLabel?: string;
+  onAction?: () => void;
+}
+
+interface ActionToastProps {
+  toast: ActionToastState | null;
+  onDismiss: () => void;
+}
+
+export default function ActionToast({ toast, onDismiss }: ActionToastProps) {
+  useEffect(() => {
+    if (!toast) return;
+    const timeout = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [toast, onDismiss]);
+
+  if (!toast) return null;
+
+  const isError = toast.variant === 'destructive';
+  const Icon = isError ? AlertCircle : CheckCircle2;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`fixed bottom-4 right-4 z-50 flex max-w-sm items-center gap-3 rounded-lg border p-3 pl-4 text-sm shadow-lg ${
+        isError ? 'border-red-300 bg-red-50 text-red-800' : 'bg-card text-card-foreground'
+      }`}
+    >
+      <Icon className="h-4 w-4 shrink-0" />
+      <span className="flex-1">{toast.message}</span>
+      {toast.actionLabel && toast.onAction && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            onDismiss();
+            toast.onAction?.();
+          }}
+        >
+          {toast.actionLabel}
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onDismiss} className="h-7 w-7 p-0">
+        <X className="h-4 w-4" />
+        <span className="sr-only">Dismiss</span>
+      </Button>
+    </div>
+  );
+}
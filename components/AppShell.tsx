@@ -0,0 +1,22 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+import { Sidebar } from "@/components/sidebar";
+
+// Pages shown before signing in get the whole screen, without the navigation
+const BARE_PATHS = ["/login"];
+
+export function AppShell({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+
+  if (BARE_PATHS.includes(pathname)) {
+    return <main className="min-h-screen">{children}</main>;
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col md:flex-row">
+      <Sidebar />
+      <main className="flex-1 md:pl-64 h-screen overflow-y-auto">{children}</main>
+    </div>
+  );
+}
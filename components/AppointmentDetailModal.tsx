@@ -2,62 +2,84 @@ import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { Trash2, AlertCircle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, Ban, CheckCircle2, CircleCheckBig, Loader2, LogIn, UserX } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { availableTransitions } from "@/lib/appointmentStatus";
+import type { AppointmentTransition } from "@/lib/appointmentStatus";
+import { describeRecurrence } from "@/lib/recurrence";
 
 // Assuming Appointment type is defined centrally or passed appropriately
 // If not, define a basic version here or import it
 interface Appointment {
     id: string;
     date: Date;
+    endTime: Date;
     reason: string;
-    status: 'SCHEDULED' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED';
+    status: 'SCHEDULED' | 'CONFIRMED' | 'CHECKED_IN' | 'CANCELLED' | 'COMPLETED' | 'NO_SHOW';
     patientType: 'NEW' | 'EXISTING';
     notes?: string | null;
+    checkedInAt?: Date | null;
+    cancelledAt?: Date | null;
+    cancellationReason?: string | null;
     patient: {
         firstName: string;
         lastName: string;
     };
+    appointmentType?: { name: string; durationMinutes: number } | null;
+    provider?: { id: string; name: string | null } | null;
+    operatory?: { id: string; name: string } | null;
+    seriesId?: string | null;
+    series?: { frequency: 'WEEKLY' | 'MONTHLY'; interval: number; count: number | null; until: string | null } | null;
 }
 
 interface AppointmentDetailModalProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   appointment: Appointment | null;
-  onDeleteSuccess: () => void; // Callback after successful delete
+  onStatusChange: () => void; // Callback after a status change was saved
 }
 
-export default function AppointmentDetailModal({ isOpen, onOpenChange, appointment, onDeleteSuccess }: AppointmentDetailModalProps) {
-  const [isDeleting, setIsDeleting] = useState(false);
+const TRANSITION_BUTTONS: Record<Exclude<AppointmentTransition, 'cancel'>, { label: string; icon: LucideIcon }> = {
+  confirm: { label: 'Confirm', icon: CheckCircle2 },
+  'check-in': { label: 'Check In', icon: LogIn },
+  complete: { label: 'Complete', icon: CircleCheckBig },
+  'no-show': { label: 'No-Show', icon: UserX },
+};
+
+export default function AppointmentDetailModal({ isOpen, onOpenChange, appointment, onStatusChange }: AppointmentDetailModalProps) {
   const [error, setError] = useState('');
+  const [pendingTransition, setPendingTransition] = useState<AppointmentTransition | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState('');
+  // Cancel the later visits in the series along with this one
+  const [cancelSeries, setCancelSeries] = useState(false);
 
-  const handleDelete = async () => {
+  const handleTransition = async (transition: AppointmentTransition) => {
     if (!appointment) return;
 
-    // Optional: Add a confirmation step here if desired
-    // if (!confirm('Are you sure you want to delete this appointment?')) {
-    //   return;
-    // }
-
-    setIsDeleting(true);
+    setPendingTransition(transition);
     setError('');
     try {
-      const response = await fetch(`/api/appointments/${appointment.id}`, { method: 'DELETE' });
+      const path = transition === 'cancel' && cancelSeries ? 'series/cancel' : transition;
+      const response = await fetch(`/api/appointments/${appointment.id}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(transition === 'cancel' ? { reason: cancellationReason.trim() } : {}),
+      });
       if (!response.ok) {
-        let errorMsg = 'Failed to delete appointment';
-        try {
-            const errData = await response.json();
-            errorMsg = errData.error || errorMsg;
-        } catch {
-            /* Ignore JSON parsing error */
-        }
-        throw new Error(errorMsg);
+        const errData = await response.json().catch(() => null);
+        throw new Error(errData?.error || 'Failed to update appointment status');
       }
-      onDeleteSuccess(); // Call callback on success
-    } catch (err) { 
-      setError(err instanceof Error ? err.message : 'Could not delete appointment');
-      console.error("Delete error:", err);
+      setIsCancelling(false);
+      setCancellationReason('');
+      setCancelSeries(false);
+      onStatusChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update appointment status');
+      console.error("Status change error:", err);
     } finally {
-      setIsDeleting(false);
+      setPendingTransition(null);
     }
   };
 
@@ -66,12 +88,19 @@ export default function AppointmentDetailModal({ isOpen, onOpenChange, appointme
     if (!isOpen) {
       // Reset state when modal closes
       setError('');
-      setIsDeleting(false);
+      setIsCancelling(false);
+      setCancellationReason('');
+      setCancelSeries(false);
     }
   }, [isOpen]);
 
   if (!appointment) return null;
 
+  const transitions = availableTransitions(appointment.status);
+  const isBusy = pendingTransition !== null;
+  const canCancel = transitions.includes('cancel');
+  const otherTransitions = transitions.filter((transition) => transition !== 'cancel');
+
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -82,17 +111,29 @@ export default function AppointmentDetailModal({ isOpen, onOpenChange, appointme
           </DialogDescription>
         </DialogHeader>
         <div className="py-4 space-y-2 text-sm">
-          <p><strong>Date & Time:</strong> {appointment.date.toLocaleString()}</p>
+          <p><strong>Date & Time:</strong> {appointment.date.toLocaleString()} - {appointment.endTime.toLocaleTimeString()}</p>
+          {appointment.appointmentType && (
+            <p><strong>Type:</strong> {appointment.appointmentType.name} ({appointment.appointmentType.durationMinutes} min)</p>
+          )}
+          <p><strong>Provider:</strong> {appointment.provider ? appointment.provider.name ?? 'Unnamed provider' : 'Any available'}</p>
+          <p><strong>Chair:</strong> {appointment.operatory?.name ?? 'Unassigned'}</p>
+          {appointment.series && <p><strong>Repeats:</strong> {describeRecurrence(appointment.series)}</p>}
           <p><strong>Status:</strong> 
             <span className={`ml-2 px-2 py-0.5 text-xs rounded ${
               appointment.status === 'CONFIRMED' ? 'bg-green-100 text-green-800' :
+              appointment.status === 'CHECKED_IN' ? 'bg-amber-100 text-amber-800' :
               appointment.status === 'CANCELLED' ? 'bg-red-100 text-red-800' :
+              appointment.status === 'NO_SHOW' ? 'bg-orange-100 text-orange-800' :
               appointment.status === 'COMPLETED' ? 'bg-blue-100 text-blue-800' :
               appointment.status === 'SCHEDULED' ? 'bg-primary/10 text-primary' : 'bg-gray-100 text-gray-800' // Fallback for SCHEDULED
             }`}>
-              {appointment.status}
+              {appointment.status.replace('_', ' ')}
             </span>
           </p>
+          {appointment.checkedInAt && <p><strong>Checked In:</strong> {appointment.checkedInAt.toLocaleTimeString()}</p>}
+          {appointment.status === 'CANCELLED' && (
+            <p><strong>Cancelled:</strong> {appointment.cancelledAt?.toLocaleString() ?? 'Yes'}{appointment.cancellationReason && ` — ${appointment.cancellationReason}`}</p>
+          )}
           <p><strong>Patient Type:</strong> 
              <span className={`ml-2 px-2 py-0.5 text-xs rounded ${
                 appointment.patientType === 'NEW' ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-800'
@@ -101,6 +142,58 @@ export default function AppointmentDetailModal({ isOpen, onOpenChange, appointme
             </span>
           </p>
           {appointment.notes && <p><strong>Notes:</strong> {appointment.notes}</p>}
+
+          {otherTransitions.length > 0 && !isCancelling && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              {otherTransitions.map((transition) => {
+                const { label, icon: Icon } = TRANSITION_BUTTONS[transition];
+                return (
+                  <Button key={transition} variant="outline" size="sm" onClick={() => handleTransition(transition)} disabled={isBusy}>
+                    {pendingTransition === transition
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <Icon className="mr-2 h-4 w-4" />}
+                    {label}
+                  </Button>
+                );
+              })}
+            </div>
+          )}
+
+          {isCancelling && (
+            <div className="space-y-2 pt-2">
+              <Textarea
+                placeholder="Reason for cancelling"
+                value={cancellationReason}
+                onChange={(e) => setCancellationReason(e.target.value)}
+                rows={2}
+              />
+              {appointment.seriesId && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={cancelSeries}
+                    onChange={(e) => setCancelSeries(e.target.checked)}
+                    disabled={isBusy}
+                  />
+                  Also cancel the later visits in this series
+                </label>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleTransition('cancel')}
+                  disabled={isBusy || !cancellationReason.trim()}
+                >
+                  {pendingTransition === 'cancel' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Cancel Appointment
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsCancelling(false)} disabled={isBusy}>
+                  Keep Appointment
+                </Button>
+              </div>
+            </div>
+          )}
           
           {error && (
             <Alert variant="destructive" className="mt-4">
@@ -111,14 +204,12 @@ export default function AppointmentDetailModal({ isOpen, onOpenChange, appointme
            )}
         </div>
         <DialogFooter className="gap-2 sm:justify-between">
-          <Button variant="destructive" onClick={handleDelete} disabled={isDeleting} className="order-last sm:order-first">
-            {isDeleting ? 'Deleting...' : <><Trash2 className="mr-2 h-4 w-4" /> Delete</>}
-          </Button>
-          <div className="flex gap-2">
-            {/* Add Edit Button placeholder if needed */}
-            {/* <Button variant="outline" disabled={isDeleting}>Edit</Button> */}
-             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDeleting}>Close</Button>
-          </div>
+          {canCancel && !isCancelling ? (
+            <Button variant="destructive" onClick={() => setIsCancelling(true)} disabled={isBusy} className="order-last sm:order-first">
+              <Ban className="mr-2 h-4 w-4" /> Cancel Appointment
+            </Button>
+          ) : <span />}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>Close</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
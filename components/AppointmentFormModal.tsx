@@ -18,14 +18,38 @@ interface Patient {
     phoneNumber?: string;
 }
 
+interface AppointmentType {
+    id: string;
+    name: string;
+    durationMinutes: number;
+}
+
+// A provider or chair the visit can be assigned to
+interface Assignable {
+    id: string;
+    name: string | null;
+}
+
+// Select value for "no particular provider / chair"; Radix selects can't use an empty string
+const UNASSIGNED = 'unassigned';
+
 // Define the structure of the form data
 interface AppointmentFormData {
     date: string;          // YYYY-MM-DD
     time: string;          // HH:MM
     patientId: string;     // ID of existing patient (if patientType is EXISTING)
+    appointmentTypeId: string;
     reason: string;
     patientType: 'NEW' | 'EXISTING';
     notes: string;
+    providerId: string;    // Empty lets any available provider take it
+    operatoryId: string;   // Empty leaves the chair unassigned
+    // Recurrence (only used if repeat is not NONE)
+    repeat: 'NONE' | 'WEEKLY' | 'MONTHLY';
+    repeatInterval: string;
+    repeatEnds: 'COUNT' | 'UNTIL';
+    repeatCount: string;
+    repeatUntil: string;   // YYYY-MM-DD
     // New patient fields (only used if patientType is NEW)
     newPatientFirstName: string;
     newPatientLastName: string;
@@ -36,8 +60,12 @@ interface AppointmentFormData {
 interface AppointmentFormModalProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  initialDateTime: { start: Date; end: Date } | null;
+  // The slot picked on the calendar, with the provider or chair column it was picked in
+  initialDateTime: { start: Date; end: Date; providerId?: string | null; operatoryId?: string | null } | null;
   patients: Patient[]; // List of existing patients for the dropdown
+  appointmentTypes: AppointmentType[];
+  providers: Assignable[];
+  operatories: Assignable[];
   onSubmitSuccess: () => void; // Callback on successful save
 }
 
@@ -45,9 +73,17 @@ const defaultFormData: AppointmentFormData = {
     date: new Date().toISOString().split('T')[0],
     time: '09:00',
     patientId: '',
+    appointmentTypeId: '',
     reason: '',
     patientType: 'EXISTING',
     notes: '',
+    providerId: '',
+    operatoryId: '',
+    repeat: 'NONE',
+    repeatInterval: '1',
+    repeatEnds: 'COUNT',
+    repeatCount: '4',
+    repeatUntil: '',
     newPatientFirstName: '',
     newPatientLastName: '',
     newPatientEmail: '',
@@ -59,12 +95,16 @@ export default function AppointmentFormModal({
     onOpenChange,
     initialDateTime,
     patients,
+    appointmentTypes,
+    providers,
+    operatories,
     onSubmitSuccess
 }: AppointmentFormModalProps) {
 
   const [formData, setFormData] = useState<AppointmentFormData>(defaultFormData);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [isFindingSlot, setIsFindingSlot] = useState(false);
 
   // Pre-fill date/time when modal opens with slot info or reset otherwise
   useEffect(() => {
@@ -82,6 +122,8 @@ export default function AppointmentFormModal({
           ...defaultFormData, 
           date: `${year}-${month}-${day}`, 
           time: `${hours}:${minutes}`,     
+          providerId: initialDateTime.providerId ?? '',
+          operatoryId: initialDateTime.operatoryId ?? '',
         });
       } else {
          // Reset to default if opened without slot info
@@ -117,7 +159,14 @@ export default function AppointmentFormModal({
 
   // Handle Select change specifically for Radix/Shadcn components
   const handleSelectChange = (name: keyof AppointmentFormData) => (value: string) => {
-    setFormData(prev => ({ ...prev, [name]: value }));
+    setFormData(prev => ({ ...prev, [name]: value === UNASSIGNED ? '' : value }));
+    // Default the reason to the chosen appointment type if the user has not typed one
+    if (name === 'appointmentTypeId') {
+       const type = appointmentTypes.find(t => t.id === value);
+       if (type) {
+           setFormData(prev => ({ ...prev, reason: prev.reason || type.name }));
+       }
+    }
     // Trigger the same clearing logic as handleChange
     if (name === 'patientType') {
        if (value === 'NEW') {
@@ -134,6 +183,35 @@ export default function AppointmentFormModal({
     }
   };
 
+  // Fill date/time with the earliest open slot for the selected appointment type
+  const handleFindNextAvailable = async () => {
+    setIsFindingSlot(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ count: '1', stepMinutes: '30' });
+      if (formData.appointmentTypeId) params.set('appointmentTypeId', formData.appointmentTypeId);
+      if (formData.providerId) params.set('providerId', formData.providerId);
+      const res = await fetch(`/api/availability?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+          throw new Error(data.error || 'Failed to find an open slot');
+      }
+      if (data.slots.length === 0) {
+          throw new Error('No open slots found in the next month.');
+      }
+      const start = new Date(data.slots[0].start);
+      setFormData(prev => ({
+        ...prev,
+        date: `${start.getFullYear()}-${(start.getMonth() + 1).toString().padStart(2, '0')}-${start.getDate().toString().padStart(2, '0')}`,
+        time: `${start.getHours().toString().padStart(2, '0')}:${start.getMinutes().toString().padStart(2, '0')}`,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not find an open slot');
+    } finally {
+      setIsFindingSlot(false);
+    }
+  };
+
   // Placeholder handleSubmit - Replace with your actual API logic
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -186,14 +264,39 @@ export default function AppointmentFormModal({
           throw new Error('Please select an existing patient.');
       }
 
-      // 3. Create the Appointment
+      // 3. Work out how the visit repeats, if it does
+      let recurrence;
+      if (formData.repeat !== 'NONE') {
+          const interval = Number(formData.repeatInterval);
+          if (!Number.isInteger(interval) || interval < 1) {
+              throw new Error('Repeat interval must be a whole number of at least 1.');
+          }
+          if (formData.repeatEnds === 'COUNT') {
+              const count = Number(formData.repeatCount);
+              if (!Number.isInteger(count) || count < 2) {
+                  throw new Error('A series needs at least 2 visits.');
+              }
+              recurrence = { frequency: formData.repeat, interval, count };
+          } else {
+              if (!formData.repeatUntil) {
+                  throw new Error('Please choose when the series ends.');
+              }
+              recurrence = { frequency: formData.repeat, interval, until: new Date(`${formData.repeatUntil}T23:59:59`).toISOString() };
+          }
+      }
+
+      // 4. Create the Appointment
       const appointmentPayload = {
           date: dateTime.toISOString(),
           patientId: finalPatientId,
+          appointmentTypeId: formData.appointmentTypeId || undefined,
           reason: formData.reason,
           patientType: formData.patientType,
           notes: formData.notes || undefined,
+          providerId: formData.providerId || undefined,
+          operatoryId: formData.operatoryId || undefined,
           status: 'SCHEDULED', // Default status, adjust as needed
+          recurrence,
       };
       console.log("Creating appointment:", appointmentPayload);
       const appointmentRes = await fetch('/api/appointments', {
@@ -204,13 +307,16 @@ export default function AppointmentFormModal({
 
       if (!appointmentRes.ok) {
           const errData = await appointmentRes.json();
-          throw new Error(errData.error || 'Failed to create appointment');
+          // A series that can't be booked lists each visit that is taken
+          const taken = (errData.occurrences ?? []) as { date: string; error?: string }[];
+          const details = taken.map(o => `${new Date(o.date).toLocaleString()}${o.error ? ` (${o.error})` : ''}`).join('; ');
+          throw new Error(`${errData.error || 'Failed to create appointment'}${details ? `: ${details}` : ''}`);
       }
       
       const newAppointment = await appointmentRes.json();
       console.log("Appointment created:", newAppointment);
 
-      // 4. Success
+      // 5. Success
       onSubmitSuccess(); // Call the success callback from parent
 
     } catch (err) {
@@ -243,7 +349,12 @@ export default function AppointmentFormModal({
         <form onSubmit={handleSubmit} className="py-4 space-y-4">
           {/* Date Input */} 
           <div className="space-y-1">
-            <Label htmlFor="date">Date</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="date">Date</Label>
+              <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={handleFindNextAvailable} disabled={isLoading || isFindingSlot}>
+                {isFindingSlot ? 'Searching...' : 'Next available'}
+              </Button>
+            </div>
             <Input
               id="date"
               type="date"
@@ -270,6 +381,55 @@ export default function AppointmentFormModal({
             </Select>
           </div>
 
+          {/* Appointment Type Select */} 
+          <div className="space-y-1">
+             <Label htmlFor="appointmentTypeId">Appointment Type</Label>
+             <Select name="appointmentTypeId" value={formData.appointmentTypeId} onValueChange={handleSelectChange('appointmentTypeId')} disabled={isLoading}>
+                <SelectTrigger id="appointmentTypeId">
+                    <SelectValue placeholder="Select appointment type" />
+                </SelectTrigger>
+                <SelectContent>
+                    {appointmentTypes.map(type => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name} ({type.durationMinutes} min)
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+          </div>
+
+          {/* Provider and Chair Selects */} 
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+               <Label htmlFor="providerId">Provider</Label>
+               <Select name="providerId" value={formData.providerId || UNASSIGNED} onValueChange={handleSelectChange('providerId')} disabled={isLoading}>
+                  <SelectTrigger id="providerId">
+                      <SelectValue placeholder="Any available" />
+                  </SelectTrigger>
+                  <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Any available</SelectItem>
+                      {providers.map(provider => (
+                          <SelectItem key={provider.id} value={provider.id}>{provider.name ?? 'Unnamed provider'}</SelectItem>
+                      ))}
+                  </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+               <Label htmlFor="operatoryId">Chair</Label>
+               <Select name="operatoryId" value={formData.operatoryId || UNASSIGNED} onValueChange={handleSelectChange('operatoryId')} disabled={isLoading}>
+                  <SelectTrigger id="operatoryId">
+                      <SelectValue placeholder="Unassigned" />
+                  </SelectTrigger>
+                  <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {operatories.map(operatory => (
+                          <SelectItem key={operatory.id} value={operatory.id}>{operatory.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           {/* Patient Type Select */} 
           <div className="space-y-1">
              <Label htmlFor="patientType">Patient Type</Label>
@@ -371,6 +531,77 @@ export default function AppointmentFormModal({
             />
           </div>
 
+          {/* Repeat Controls */} 
+          <div className="space-y-2">
+            <Label htmlFor="repeat">Repeat</Label>
+            <div className="grid grid-cols-2 gap-3">
+              <Select name="repeat" value={formData.repeat} onValueChange={handleSelectChange('repeat')} disabled={isLoading}>
+                  <SelectTrigger id="repeat">
+                      <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                      <SelectItem value="NONE">Does not repeat</SelectItem>
+                      <SelectItem value="WEEKLY">Weekly</SelectItem>
+                      <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  </SelectContent>
+              </Select>
+              {formData.repeat !== 'NONE' && (
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Every</span>
+                  <Input
+                    id="repeatInterval"
+                    type="number"
+                    name="repeatInterval"
+                    min={1}
+                    max={24}
+                    value={formData.repeatInterval}
+                    onChange={handleChange}
+                    disabled={isLoading}
+                    className="w-16"
+                  />
+                  <span>{formData.repeat === 'WEEKLY' ? 'week(s)' : 'month(s)'}</span>
+                </div>
+              )}
+            </div>
+            {formData.repeat !== 'NONE' && (
+              <div className="grid grid-cols-2 gap-3">
+                <Select name="repeatEnds" value={formData.repeatEnds} onValueChange={handleSelectChange('repeatEnds')} disabled={isLoading}>
+                    <SelectTrigger id="repeatEnds">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="COUNT">For a number of visits</SelectItem>
+                        <SelectItem value="UNTIL">Until a date</SelectItem>
+                    </SelectContent>
+                </Select>
+                {formData.repeatEnds === 'COUNT' ? (
+                  <Input
+                    id="repeatCount"
+                    type="number"
+                    name="repeatCount"
+                    min={2}
+                    max={52}
+                    value={formData.repeatCount}
+                    onChange={handleChange}
+                    disabled={isLoading}
+                    aria-label="Number of visits"
+                  />
+                ) : (
+                  <Input
+                    id="repeatUntil"
+                    type="date"
+                    name="repeatUntil"
+                    min={formData.date}
+                    value={formData.repeatUntil}
+                    onChange={handleChange}
+                    disabled={isLoading}
+                    aria-label="Last visit on or before"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Notes Textarea */} 
           <div className="space-y-1">
             <Label htmlFor="notes">Notes <span className="text-xs text-muted-foreground">(Optional)</span></Label>
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import {
     Dialog,
     DialogContent,
@@ -13,25 +14,15 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Bot, User, FileText, AudioLines } from "lucide-react";
-
-interface CallLogInfo {
-    id: string;
-    createdAt: string;
-    endedAt: string | null;
-    durationSeconds: number | null;
-    status: string;
-    endedReason: string | null;
-    transcript: string | null;
-    summary: string | null;
-    structuredData: Record<string, unknown> | null;
-    recordingUrl: string | null;
-}
+import type { CallLogDetail } from "@/app/types/callLog";
 
 interface CallDetailModalProps {
     isOpen: boolean;
     onOpenChange: (open: boolean) => void;
-    callDetail: CallLogInfo | null;
+    // CallLog id or Vapi call id; the full record is loaded when the modal opens
+    callId: string | null;
 }
 
 const formatTranscript = (transcript: string | null): React.ReactNode => {
@@ -61,8 +52,51 @@ const formatTranscript = (transcript: string | null): React.ReactNode => {
     });
 };
 
-export default function CallDetailModal({ isOpen, onOpenChange, callDetail }: CallDetailModalProps) {
-    if (!callDetail) return null;
+export default function CallDetailModal({ isOpen, onOpenChange, callId }: CallDetailModalProps) {
+    const [callDetail, setCallDetail] = useState<CallLogDetail | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || !callId) return;
+
+        let cancelled = false;
+        setCallDetail(null);
+        setError(null);
+        fetch(`/api/call-logs/${encodeURIComponent(callId)}`)
+            .then(async res => {
+                if (!res.ok) {
+                    const errorData = await res.json().catch(() => ({}));
+                    throw new Error(errorData.error || `Failed to load call (${res.status})`);
+                }
+                return res.json() as Promise<CallLogDetail>;
+            })
+            .then(data => { if (!cancelled) setCallDetail(data); })
+            .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load call'); });
+
+        return () => { cancelled = true; };
+    }, [isOpen, callId]);
+
+    if (!callId) return null;
+
+    if (!callDetail) {
+        return (
+            <Dialog open={isOpen} onOpenChange={onOpenChange}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Call Details</DialogTitle>
+                        <DialogDescription>{error ?? 'Loading call...'}</DialogDescription>
+                    </DialogHeader>
+                    {!error && (
+                        <div className="space-y-2">
+                            <Skeleton className="h-5 w-2/3" />
+                            <Skeleton className="h-5 w-full" />
+                            <Skeleton className="h-5 w-1/2" />
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        );
+    }
 
     const formatDate = (dateStr: string | null) => dateStr ? new Date(dateStr).toLocaleString() : 'N/A';
 
@@ -70,7 +104,7 @@ export default function CallDetailModal({ isOpen, onOpenChange, callDetail }: Ca
         <Dialog open={isOpen} onOpenChange={onOpenChange}>
             <DialogContent className="max-w-[95vw] w-[95vw] min-w-[80vw] max-h-[90vh] h-[90vh] flex flex-col p-0">
                 <DialogHeader className="px-6 pt-6 pb-2 border-b">
-                    <DialogTitle>Call Details: {callDetail.id}</DialogTitle>
+                    <DialogTitle>Call Details: {callDetail.vapiCallId}</DialogTitle>
                     <DialogDescription>
                         Call started on {formatDate(callDetail.createdAt)}.
                         {callDetail.endedReason && <Badge variant="outline" className="ml-2">{callDetail.endedReason}</Badge>}
@@ -170,10 +204,32 @@ export default function CallDetailModal({ isOpen, onOpenChange, callDetail }: Ca
                                                         {callDetail.status}
                                                     </Badge>
                                                 </div>
+                                                <div>
+                                                    <span className="text-muted-foreground">Caller:</span>
+                                                    <p className="font-medium text-xs">{callDetail.callerPhone || 'Unknown'}</p>
+                                                </div>
+                                                <div>
+                                                    <span className="text-muted-foreground">Patient:</span>
+                                                    <p className="font-medium text-xs">
+                                                        {callDetail.patient
+                                                            ? `${callDetail.patient.firstName} ${callDetail.patient.lastName}`
+                                                            : 'Not matched'
+                                                        }
+                                                    </p>
+                                                    {callDetail.patient?.dateOfBirth && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            DOB {new Date(callDetail.patient.dateOfBirth).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                <div>
+                                                    <span className="text-muted-foreground">Assistant:</span>
+                                                    <p className="font-medium text-xs truncate">{callDetail.assistantId || 'N/A'}</p>
+                                                </div>
                                                 <div>
                                                     <span className="text-muted-foreground">Started:</span>
                                                     <p className="font-medium text-xs">
-                                                        {new Date(callDetail.createdAt).toLocaleTimeString()}
+                                                        {new Date(callDetail.startedAt ?? callDetail.createdAt).toLocaleTimeString()}
                                                     </p>
                                                 </div>
                                                 <div>
@@ -1,8 +1,8 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import Link from "next/link"
-import { usePathname } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import {
@@ -31,10 +31,23 @@ import {
   Calendar,
   PhoneCall,
   CheckSquare,
+  History,
 } from "lucide-react"
+import type { LucideIcon } from "lucide-react"
+import type { Role } from "@prisma/client"
 import { cn } from "@/lib/utils"
+import { hasPermission } from "@/lib/permissions"
+import type { Permission } from "@/lib/permissions"
 
-const navigationItems = [
+type NavigationItem = {
+  name: string
+  href: string
+  icon: LucideIcon
+  // Hidden from roles without it; the page's APIs refuse them anyway
+  permission?: Permission
+}
+
+const navigationItems: NavigationItem[] = [
   {
     name: "Dashboard",
     href: "/dashboard",
@@ -64,12 +77,96 @@ const navigationItems = [
     name: "AI Customiser",
     href: "/ai-customiser",
     icon: Sparkles,
+    permission: "assistant:manage",
+  },
+  {
+    name: "Audit Log",
+    href: "/audit-log",
+    icon: History,
+    permission: "audit:read",
   },
 ]
 
+type CurrentUser = {
+  id: string
+  name: string | null
+  email: string
+  role: Role
+}
+
+function initials(user: CurrentUser | null) {
+  const source = user?.name || user?.email || ""
+  return source
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("")
+}
+
+function AccountMenu({ user, onLogout }: { user: CurrentUser | null; onLogout: () => void }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start p-2">
+          <Avatar className="mr-2 h-6 w-6">
+            <AvatarImage src="/placeholder-avatar.jpg" />
+            <AvatarFallback>{initials(user)}</AvatarFallback>
+          </Avatar>
+          <span className="truncate">{user ? user.name || user.email : ""}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>
+          My Account
+          {user && <div className="truncate text-xs font-normal text-muted-foreground">{user.email}</div>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem>
+          <User className="mr-2 h-4 w-4" />
+          <span>Profile</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem>
+          <Settings className="mr-2 h-4 w-4" />
+          <span>Settings</span>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onLogout}>
+          <LogOut className="mr-2 h-4 w-4" />
+          <span>Log out</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
 export function Sidebar() {
   const pathname = usePathname()
+  const router = useRouter()
   const [open, setOpen] = useState(false)
+  const [user, setUser] = useState<CurrentUser | null>(null)
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setUser)
+      .catch((error) => console.error("Failed to load current user:", error))
+  }, [])
+
+  const visibleItems = navigationItems.filter(
+    (item) => !item.permission || hasPermission(user?.role, item.permission)
+  )
+
+  const handleLogout = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" })
+    } catch (error) {
+      console.error("Failed to log out:", error)
+    }
+    setOpen(false)
+    router.replace("/login")
+    router.refresh()
+  }
 
   return (
     <>
@@ -85,7 +182,7 @@ export function Sidebar() {
         </div>
         
         <nav className="flex-1 space-y-1">
-          {navigationItems.map((item) => {
+          {visibleItems.map((item) => {
             const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`)
             return (
               <Link
@@ -106,34 +203,7 @@ export function Sidebar() {
         </nav>
         
         <div className="pt-6">
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" className="w-full justify-start p-2">
-                <Avatar className="mr-2 h-6 w-6">
-                  <AvatarImage src="/placeholder-avatar.jpg" />
-                  <AvatarFallback>JD</AvatarFallback>
-                </Avatar>
-                <span>John Doe</span>
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end" className="w-56">
-              <DropdownMenuLabel>My Account</DropdownMenuLabel>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem>
-                <User className="mr-2 h-4 w-4" />
-                <span>Profile</span>
-              </DropdownMenuItem>
-              <DropdownMenuItem>
-                <Settings className="mr-2 h-4 w-4" />
-                <span>Settings</span>
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem>
-                <LogOut className="mr-2 h-4 w-4" />
-                <span>Log out</span>
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
+          <AccountMenu user={user} onLogout={handleLogout} />
         </div>
       </aside>
 
@@ -159,7 +229,7 @@ export function Sidebar() {
             </SheetHeader>
             <div className="flex flex-col">
               <nav className="flex-1 space-y-1 p-4">
-                {navigationItems.map((item) => {
+                {visibleItems.map((item) => {
                   const isActive = pathname === item.href || pathname?.startsWith(`${item.href}/`)
                   return (
                     <Link
@@ -180,34 +250,7 @@ export function Sidebar() {
                 })}
               </nav>
               <div className="border-t p-4">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" className="w-full justify-start p-2">
-                      <Avatar className="mr-2 h-6 w-6">
-                        <AvatarImage src="/placeholder-avatar.jpg" />
-                        <AvatarFallback>JD</AvatarFallback>
-                      </Avatar>
-                      <span>John Doe</span>
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-56">
-                    <DropdownMenuLabel>My Account</DropdownMenuLabel>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem>
-                      <User className="mr-2 h-4 w-4" />
-                      <span>Profile</span>
-                    </DropdownMenuItem>
-                    <DropdownMenuItem>
-                      <Settings className="mr-2 h-4 w-4" />
-                      <span>Settings</span>
-                    </DropdownMenuItem>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem>
-                      <LogOut className="mr-2 h-4 w-4" />
-                      <span>Log out</span>
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                <AccountMenu user={user} onLogout={handleLogout} />
               </div>
             </div>
           </SheetContent>
@@ -0,0 +1,31 @@
+import type { AppointmentStatus } from '@prisma/client';
+
+// The status changes staff can make to a visit and which statuses each may
+// start from. Shared by the transition endpoint and the appointment modal's
+// buttons, so it must stay free of server code.
+export const APPOINTMENT_TRANSITIONS = {
+  confirm: { to: 'CONFIRMED', from: ['SCHEDULED'] },
+  'check-in': { to: 'CHECKED_IN', from: ['SCHEDULED', 'CONFIRMED'] },
+  // Practices that don't check patients in can complete a visit directly
+  complete: { to: 'COMPLETED', from: ['SCHEDULED', 'CONFIRMED', 'CHECKED_IN'] },
+  'no-show': { to: 'NO_SHOW', from: ['SCHEDULED', 'CONFIRMED'] },
+  cancel: { to: 'CANCELLED', from: ['SCHEDULED', 'CONFIRMED'] },
+} as const satisfies Record<string, { to: AppointmentStatus; from: readonly AppointmentStatus[] }>;
+
+export type AppointmentTransition = keyof typeof APPOINTMENT_TRANSITIONS;
+
+// Visits that are over one way or another; only their notes can still change
+export const CLOSED_APPOINTMENT_STATUSES: readonly AppointmentStatus[] = ['CANCELLED', 'COMPLETED', 'NO_SHOW'];
+
+export function isAppointmentTransition(value: string): value is AppointmentTransition {
+  return Object.hasOwn(APPOINTMENT_TRANSITIONS, value);
+}
+
+export function canTransition(status: AppointmentStatus, transition: AppointmentTransition): boolean {
+  return (APPOINTMENT_TRANSITIONS[transition].from as readonly AppointmentStatus[]).includes(status);
+}
+
+// Transitions available from a status, in the order the modal shows them
+export function availableTransitions(status: AppointmentStatus): AppointmentTransition[] {
+  return (Object.keys(APPOINTMENT_TRANSITIONS) as AppointmentTransition[]).filter(transition => canTransition(status, transition));
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { PatientType } from '@prisma/client';
+import { RecurrenceRuleSchema } from '@/lib/recurrence';
+
+// Related records sent with an appointment to the dashboard
+export const appointmentInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  appointmentType: true,
+  provider: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  operatory: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  series: {
+    select: {
+      id: true,
+      frequency: true,
+      interval: true,
+      count: true,
+      until: true,
+    },
+  },
+} as const;
+
+const dateTime = z.string().datetime({ offset: true });
+
+// Body of POST /api/appointments; the reason defaults to the appointment type's name
+export const AppointmentCreateSchema = z.object({
+  date: dateTime,
+  // Defaults to the type's length, or the standard one
+  endTime: dateTime.optional(),
+  patientId: z.string().min(1, 'Patient is required'),
+  reason: z.string().trim().optional(),
+  notes: z.string().optional(),
+  patientType: z.nativeEnum(PatientType).default(PatientType.EXISTING),
+  appointmentTypeId: z.string().min(1).optional(),
+  // Unset lets any available provider take the visit
+  providerId: z.string().min(1).optional(),
+  operatoryId: z.string().min(1).optional(),
+  // Books every visit of a series
+  recurrence: RecurrenceRuleSchema.optional(),
+}).refine(body => body.reason || body.appointmentTypeId, {
+  message: 'A reason or an appointment type is required',
+  path: ['reason'],
+});
+
+// Body of PATCH /api/appointments/[id]; any subset of the fields may be sent
+export const AppointmentUpdateSchema = z.object({
+  // New start; the visit keeps its length unless endTime or the type changes too
+  date: dateTime.optional(),
+  endTime: dateTime.optional(),
+  reason: z.string().trim().min(1, 'Reason is required').optional(),
+  notes: z.string().nullable().optional(),
+  patientType: z.nativeEnum(PatientType).optional(),
+  patientId: z.string().min(1).optional(),
+  appointmentTypeId: z.string().min(1).nullable().optional(),
+  // Null lets any available provider take the visit
+  providerId: z.string().min(1).nullable().optional(),
+  operatoryId: z.string().min(1).nullable().optional(),
+});
+
+export type AppointmentUpdate = z.infer<typeof AppointmentUpdateSchema>;
+
+// Body of PATCH /api/appointments/[id]/series; a series stays with one patient
+export const AppointmentSeriesUpdateSchema = AppointmentUpdateSchema.omit({ patientId: true });
+
+// Body of POST /api/appointments/[id]/cancel
+export const CancelAppointmentSchema = z.object({
+  reason: z.string().trim().min(1, 'A cancellation reason is required'),
+});
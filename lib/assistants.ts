@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import type { Assistant } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { isValidTimeZone } from '@/lib/dates';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+export type AssistantWithOrganization = Assistant & {
+  organization: { id: string; name: string; timezone: string };
+};
+
+const organizationInclude = { organization: { select: { id: true, name: true, timezone: true } } } as const;
+
+// What an inbound Vapi call says about who it reached
+export interface InboundCallIdentity {
+  assistantId?: string;
+  phoneNumber?: { number?: string };
+}
+
+/**
+ * The assistant a Vapi call was answered by: matched on the assistant id, or,
+ * for calls routed without one (e.g. squads), on the practice number dialled.
+ */
+export async function findAssistantForCall(call: InboundCallIdentity | null): Promise<AssistantWithOrganization | null> {
+  if (call?.assistantId) {
+    const assistant = await prisma.assistant.findUnique({
+      where: { vapiAssistantId: call.assistantId },
+      include: organizationInclude,
+    });
+    if (assistant) return assistant;
+  }
+  const dialled = normalizePhoneNumber(call?.phoneNumber?.number);
+  if (!dialled) return null;
+  const byNumber = await prisma.assistant.findMany({
+    where: { phoneNumbers: { has: dialled } },
+    include: organizationInclude,
+    take: 2,
+  });
+  // A number shared by two assistants says nothing about the practice
+  return byNumber.length === 1 ? byNumber[0] : null;
+}
+
+// One of the practice's assistants by its Vapi id; null for other practices' assistants
+export async function findOrganizationAssistant(organizationId: string, vapiAssistantId: string) {
+  return prisma.assistant.findFirst({ where: { organizationId, vapiAssistantId } });
+}
+
+// Phone numbers as stored on Assistant: normalised, de-duplicated, unreadable ones dropped
+export function normalizeAssistantPhoneNumbers(numbers: string[] | undefined): string[] {
+  return [...new Set((numbers ?? []).map(normalizePhoneNumber).filter((n): n is string => n !== null))];
+}
+
+// Body of POST /api/assistants; PUT takes any subset
+export const AssistantSchema = z.object({
+  vapiAssistantId: z.string().trim().min(1, 'Vapi assistant ID is required'),
+  name: z.string().trim().min(1, 'Name is required'),
+  phoneNumbers: z.array(z.string()).optional(),
+  defaultProviderId: z.string().min(1).nullable().optional(),
+  // Leave unset to use the practice's time zone
+  timezone: z.string().refine(isValidTimeZone, 'Unknown time zone').nullable().optional(),
+  // Write-only; null falls back to the deployment-wide VAPI_WEBHOOK_SECRET
+  serverSecret: z.string().min(24, 'Server secret must be at least 24 characters').nullable().optional(),
+});
+
+export const assistantInclude = {
+  defaultProvider: { select: { id: true, name: true } },
+} as const;
+
+// Assistant fields never sent back to the dashboard
+export const assistantOmit = { serverSecret: true } as const;
@@ -0,0 +1,138 @@
+import { Prisma } from '@prisma/client';
+import type { AuditActorType } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getRequestUser } from '@/lib/auth';
+import type { ToolCallContext } from '@/lib/vapiToolCalls';
+import type { AuditAction, AuditEntityType } from '@/app/types/auditEvent';
+import { createLogger, errorMessage } from '@/lib/logger';
+
+const log = createLogger('audit');
+
+export interface AuditActor {
+  type: AuditActorType;
+  userId?: string | null;
+  callId?: string | null;
+  label?: string | null;
+}
+
+// The signed-in staff member making a dashboard request
+export async function staffActor(request: Request): Promise<AuditActor> {
+  const user = await getRequestUser(request);
+  return { type: 'STAFF', userId: user?.id ?? null, label: user?.name || user?.email || null };
+}
+
+// The voice assistant acting during a call
+export function assistantActor({ call, assistant }: Pick<ToolCallContext, 'call' | 'assistant'>): AuditActor {
+  return { type: 'ASSISTANT', callId: call?.id ?? null, label: assistant?.name ?? call?.assistantId ?? null };
+}
+
+type Snapshot = Record<string, unknown>;
+
+// Relation fields per model, for entity types that are models
+const RELATION_FIELDS = new Map(
+  Prisma.dmmf.datamodel.models.map(model => [
+    model.name,
+    new Set(model.fields.filter(field => field.kind === 'object').map(field => field.name)),
+  ])
+);
+
+/**
+ * A record as JSON would have it (so dates compare and store alike). Related
+ * records included for a response are left out; changes to those are audited
+ * on their own.
+ */
+function toJson(value: unknown, entityType: AuditEntityType): Snapshot | null {
+  if (value === null || value === undefined) return null;
+  const json: unknown = JSON.parse(JSON.stringify(value));
+  if (json === null || typeof json !== 'object' || Array.isArray(json)) return null;
+  const relations = RELATION_FIELDS.get(entityType);
+  return Object.fromEntries(Object.entries(json).filter(([key]) => !relations?.has(key)));
+}
+
+/**
+ * Reduces two snapshots to the fields that differ. A side that didn't exist
+ * (before a create, after a delete) stays null and the other is kept whole.
+ */
+export function auditDiff(
+  entityType: AuditEntityType,
+  before: unknown,
+  after: unknown
+): { before: Snapshot | null; after: Snapshot | null } {
+  const from = toJson(before, entityType);
+  const to = toJson(after, entityType);
+  if (!from || !to) return { before: from, after: to };
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (key === 'updatedAt') continue;
+    if (JSON.stringify(from[key]) !== JSON.stringify(to[key])) {
+      changedBefore[key] = from[key] ?? null;
+      changedAfter[key] = to[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+/**
+ * Just the named fields of a record, for auditing what a change wrote rather
+ * than the whole record it returns. Fields the record was read without (e.g.
+ * notes hidden from the user's role) are left out.
+ */
+export function auditedFields(record: object, fields: Iterable<string>): Snapshot {
+  const values = record as Snapshot;
+  return Object.fromEntries([...fields].filter(field => field in values).map(field => [field, values[field]]));
+}
+
+export interface AuditEventInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  before?: unknown;
+  after?: unknown;
+}
+
+// The shared client or a transaction (scoped or not) that audit events are written through
+export interface AuditWriter {
+  auditEvent: { create(args: { data: Prisma.AuditEventUncheckedCreateInput }): PromiseLike<unknown> };
+}
+
+/**
+ * Records a change. Pass the transaction making the change as `db` so the
+ * event commits or rolls back with it. Changes made outside the database
+ * (e.g. on Vapi) are recorded once they succeed; a failure to record is
+ * thrown either way, so the caller reports an error instead of losing it.
+ */
+export async function recordAuditEvent(
+  organizationId: string,
+  actor: AuditActor,
+  event: AuditEventInput,
+  db: AuditWriter = prisma
+): Promise<void> {
+  const { before, after } = auditDiff(event.entityType, event.before, event.after);
+  try {
+    await db.auditEvent.create({
+      data: {
+        organizationId,
+        actorType: actor.type,
+        actorUserId: actor.userId ?? null,
+        actorLabel: actor.label ?? null,
+        callId: actor.callId ?? null,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        action: event.action,
+        before: (before ?? undefined) as Prisma.InputJsonValue | undefined,
+        after: (after ?? undefined) as Prisma.InputJsonValue | undefined,
+      },
+    });
+  } catch (error) {
+    log('Failed to record audit event', {
+      organizationId,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      action: event.action,
+      error: errorMessage(error),
+    });
+    throw error;
+  }
+}
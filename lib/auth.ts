@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { hasPermission } from '@/lib/permissions';
+import type { Permission } from '@/lib/permissions';
+import { SESSION_COOKIE, SESSION_TTL_HOURS, signSessionToken, verifySessionToken } from '@/lib/sessionToken';
+
+// The signed-in staff member, as route handlers see them
+export type SessionUser = Pick<User, 'id' | 'email' | 'name' | 'role' | 'organizationId'>;
+
+const sessionUserSelect = { id: true, email: true, name: true, role: true, organizationId: true } as const;
+
+// Sessions are marked as seen at most this often, to keep reads from turning into writes
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+function readCookie(request: Request, name: string): string | null {
+  for (const pair of (request.headers.get('cookie') ?? '').split(';')) {
+    const [key, ...value] = pair.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+async function loadSessionUser(token: string | null): Promise<SessionUser | null> {
+  const payload = await verifySessionToken(token);
+  if (!payload) return null;
+
+  // A signed cookie is not enough: the session may have been ended by logging out
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sessionId },
+    include: { user: { select: sessionUserSelect } },
+  });
+  if (!session || session.expiresAt <= new Date()) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await prisma.session.update({ where: { id: session.id }, data: { lastSeenAt: new Date() } }).catch(() => undefined);
+  }
+  return session.user;
+}
+
+const requestUsers = new WeakMap<Request, Promise<SessionUser | null>>();
+
+// The staff member a request is signed in as; looked up once per request
+export function getRequestUser(request: Request): Promise<SessionUser | null> {
+  let user = requestUsers.get(request);
+  if (!user) {
+    user = loadSessionUser(readCookie(request, SESSION_COOKIE));
+    requestUsers.set(request, user);
+  }
+  return user;
+}
+
+// Whether the signed-in user's role grants the permission
+export async function requestHasPermission(request: Request, permission: Permission): Promise<boolean> {
+  const user = await getRequestUser(request);
+  return hasPermission(user?.role, permission);
+}
+
+// Prisma `omit` for appointments, dropping their notes for roles that may not read clinical notes
+export async function appointmentNotesOmit(request: Request) {
+  return { notes: !(await requestHasPermission(request, 'clinical-notes:read')) };
+}
+
+/**
+ * Null when the signed-in user's role grants the permission; otherwise the
+ * response to send instead (401 when nobody is signed in, else 403).
+ */
+export async function requirePermission(
+  request: Request,
+  permission: Permission,
+  headers?: HeadersInit
+): Promise<NextResponse | null> {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401, headers });
+  }
+  if (!hasPermission(user.role, permission)) {
+    return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403, headers });
+  }
+  return null;
+}
+
+export async function createSession(userId: string, userAgent: string | null): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+  const session = await prisma.session.create({ data: { userId, expiresAt, userAgent } });
+  // Sign-in is a good moment to drop this user's sessions that have run out
+  await prisma.session.deleteMany({ where: { userId, expiresAt: { lte: new Date() } } });
+  return { token: await signSessionToken({ sessionId: session.id, expiresAt }), expiresAt };
+}
+
+export async function endSession(request: Request): Promise<void> {
+  const payload = await verifySessionToken(readCookie(request, SESSION_COOKIE));
+  if (payload) {
+    await prisma.session.deleteMany({ where: { id: payload.sessionId } });
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
@@ -0,0 +1,160 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  checkAppointmentAvailability,
+  DEFAULT_APPOINTMENT_MINUTES,
+  evaluateAvailability,
+  loadScheduleContext,
+} from '@/lib/scheduling';
+import type { AvailabilityCheckOptions, AvailabilityResult, ScheduleContext } from '@/lib/scheduling';
+import { createLogger } from '@/lib/logger';
+
+// How long a time offered to a caller stays reserved for them
+export const HOLD_MINUTES = 5;
+
+const log = createLogger('booking');
+
+export type BookingResult<T> =
+  | { booked: true; record: T; availability: AvailabilityResult }
+  | { booked: false; availability: AvailabilityResult };
+
+export type MultiBookingResult<T> =
+  | { booked: true; record: T }
+  | { booked: false; failures: { start: Date; availability: AvailabilityResult }[] };
+
+interface BookedSlot {
+  end: Date;
+  providerId: string;
+}
+
+type PlannedVisit = ScheduleContext['appointments'][number];
+
+/**
+ * Runs `fn` in a transaction holding the practice's booking lock (a Postgres
+ * advisory lock). Everything that puts a visit or a hold on the schedule takes
+ * this lock, so availability checked inside `fn` stays true until it commits.
+ * Checks read through `tx`, on the same connection as the lock and the write.
+ */
+export async function withScheduleLock<T>(
+  organizationId: string | null | undefined,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  const lockKey = `schedule:${organizationId ?? 'default'}`;
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+    return fn(tx);
+  }, { timeout: 15000 });
+}
+
+/**
+ * Writes a visit at `start` only if the time is still free once the lock is
+ * held; otherwise nothing is written and the failed check is returned. A live
+ * hold for `holdOwner` at that time pins the provider it was offered with, and
+ * the owner's holds are released once the visit is booked.
+ */
+export async function bookSlot<T>(
+  start: Date,
+  options: AvailabilityCheckOptions,
+  write: (tx: Prisma.TransactionClient, slot: BookedSlot) => Promise<T>
+): Promise<BookingResult<T>> {
+  return withScheduleLock(options.organizationId, async (tx) => {
+    const hold = options.holdOwner
+      ? await tx.slotHold.findFirst({ where: { owner: options.holdOwner, start, expiresAt: { gt: new Date() } } })
+      : null;
+    const providerId = options.providerId ?? hold?.providerId ?? null;
+
+    const availability = await checkAppointmentAvailability(start, { ...options, providerId }, tx);
+    if (!availability.valid) {
+      log('Slot no longer available', { start: start.toISOString(), reason: availability.message });
+      return { booked: false, availability };
+    }
+
+    const record = await write(tx, { end: availability.end, providerId: providerId ?? availability.providerIds[0] });
+    if (options.holdOwner) {
+      await tx.slotHold.deleteMany({ where: { owner: options.holdOwner } });
+    }
+    return { booked: true, record, availability };
+  });
+}
+
+/**
+ * Like bookSlot for several visits at once, such as the occurrences of a
+ * recurring series. Every slot is checked under one hold of the lock and
+ * `write` runs only if all of them are free, so nothing is half booked; the
+ * slots that aren't free are returned instead. Each slot is checked against
+ * what is already booked and against the slots before it in the list.
+ */
+export async function bookSlots<T>(
+  slots: { start: Date; options: AvailabilityCheckOptions }[],
+  write: (tx: Prisma.TransactionClient, booked: BookedSlot[]) => Promise<T>
+): Promise<MultiBookingResult<T>> {
+  return withScheduleLock(slots[0]?.options.organizationId, async (tx) => {
+    const booked: BookedSlot[] = [];
+    const planned: PlannedVisit[] = [];
+    const failures: { start: Date; availability: AvailabilityResult }[] = [];
+    for (const [index, { start, options }] of slots.entries()) {
+      const durationMinutes = options.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+      const context = await loadScheduleContext(start, new Date(start.getTime() + durationMinutes * 60000), options, tx);
+      // The earlier slots take up their provider and chair as if already booked
+      context.appointments.push(...planned);
+      const availability = evaluateAvailability(context, start, { ...options, durationMinutes });
+      if (availability.valid) {
+        const providerId = options.providerId ?? availability.providerIds[0];
+        booked.push({ end: availability.end, providerId });
+        planned.push({
+          id: `planned-${index}`,
+          date: start,
+          endTime: availability.end,
+          providerId,
+          operatoryId: options.operatoryId ?? null,
+        });
+      } else {
+        failures.push({ start, availability });
+      }
+    }
+
+    if (failures.length > 0) {
+      log('Slots no longer available', {
+        slots: failures.map(f => `${f.start.toISOString()}: ${f.availability.message ?? 'unavailable'}`),
+      });
+      return { booked: false, failures };
+    }
+    return { booked: true, record: await write(tx, booked) };
+  });
+}
+
+/**
+ * Reserves the times about to be offered to a caller for HOLD_MINUTES,
+ * replacing whatever was held for them before. Times taken since they were
+ * found are dropped, so callers are only offered what they can actually book.
+ */
+export async function holdSlots<S extends { start: Date }>(
+  owner: string,
+  slots: S[],
+  options: AvailabilityCheckOptions
+): Promise<S[]> {
+  return withScheduleLock(options.organizationId, async (tx) => {
+    const now = new Date();
+    await tx.slotHold.deleteMany({ where: { OR: [{ owner }, { expiresAt: { lte: now } }] } });
+
+    const held: S[] = [];
+    for (const slot of slots) {
+      const availability = await checkAppointmentAvailability(slot.start, { ...options, holdOwner: owner }, tx);
+      if (!availability.valid) continue;
+      await tx.slotHold.create({
+        data: {
+          owner,
+          start: slot.start,
+          end: availability.end,
+          providerId: options.providerId ?? availability.providerIds[0] ?? null,
+          organizationId: options.organizationId ?? null,
+          expiresAt: new Date(now.getTime() + HOLD_MINUTES * 60000),
+        },
+      });
+      held.push(slot);
+    }
+
+    log('Held slots', { owner, offered: slots.length, held: held.length });
+    return held;
+  });
+}
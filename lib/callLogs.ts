@@ -0,0 +1,172 @@
+import { VapiClient } from '@vapi-ai/server-sdk';
+import type { Vapi } from '@vapi-ai/server-sdk';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { matchCallerToPatient } from '@/lib/callerId';
+import { resolveCallOrganization } from '@/lib/organizationContext';
+import type { InboundCallIdentity } from '@/lib/assistants';
+import type { z } from 'zod';
+import type { EndOfCallReportSchema, StatusUpdateSchema } from '@/lib/vapiWebhook';
+import { createLogger, errorMessage } from '@/lib/logger';
+
+const log = createLogger('call-logs');
+
+// Everything except the large text fields, for list views
+export const callLogSummarySelect = {
+  id: true,
+  vapiCallId: true,
+  assistantId: true,
+  status: true,
+  createdAt: true,
+  startedAt: true,
+  endedAt: true,
+  durationSeconds: true,
+  endedReason: true,
+  summary: true,
+  callerPhone: true,
+  patientId: true,
+} satisfies Prisma.CallLogSelect;
+
+type CallLogFields = Omit<Prisma.CallLogUncheckedCreateInput, 'id' | 'vapiCallId' | 'syncedAt' | 'patientId'>;
+
+function toDate(value: string | number | undefined | null): Date | null {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function durationBetween(startedAt: Date | null, endedAt: Date | null): number | null {
+  if (!startedAt || !endedAt) return null;
+  return Math.round((endedAt.getTime() - startedAt.getTime()) / 1000);
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === undefined || value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+// Calls are filed under the practice that answered, found by assistant id or by the number dialled
+async function organizationIdForCall(call: InboundCallIdentity): Promise<string | null> {
+  const resolved = await resolveCallOrganization(call);
+  return resolved?.organization.id ?? null;
+}
+
+async function upsertCallLog(vapiCallId: string, fields: CallLogFields, identity: InboundCallIdentity) {
+  const existing = await prisma.callLog.findUnique({
+    where: { vapiCallId },
+    select: { organizationId: true, patientId: true },
+  });
+  const organizationId = fields.organizationId ?? existing?.organizationId ?? await organizationIdForCall(identity);
+
+  // Link the caller once; a link made (or corrected) earlier is kept. Calls not yet
+  // filed under a practice are never matched, since patients belong to one practice
+  const patientId = existing?.patientId
+    ?? (fields.callerPhone && organizationId ? await matchCallerToPatient(fields.callerPhone, organizationId) : null);
+
+  return prisma.callLog.upsert({
+    where: { vapiCallId },
+    create: { vapiCallId, ...fields, organizationId, patientId },
+    update: { ...fields, organizationId, patientId },
+  });
+}
+
+// Map a call fetched from the Vapi API
+export async function saveCallFromVapi(call: Vapi.Call) {
+  const startedAt = toDate(call.startedAt);
+  const endedAt = toDate(call.endedAt);
+  return upsertCallLog(call.id, {
+    assistantId: call.assistantId ?? null,
+    status: call.status ?? 'unknown',
+    createdAt: toDate(call.createdAt) ?? new Date(),
+    startedAt,
+    endedAt,
+    durationSeconds: durationBetween(startedAt, endedAt),
+    endedReason: call.endedReason ?? null,
+    transcript: call.artifact?.transcript ?? null,
+    summary: call.analysis?.summary ?? null,
+    structuredData: toJson(call.analysis?.structuredData),
+    recordingUrl: call.artifact?.recordingUrl ?? null,
+    callerPhone: call.customer?.number ?? null,
+  }, { assistantId: call.assistantId, phoneNumber: { number: call.phoneNumber?.twilioPhoneNumber } });
+}
+
+// Map the end-of-call report delivered to the webhook
+export async function saveCallFromEndOfCallReport(report: z.infer<typeof EndOfCallReportSchema>) {
+  const { call } = report;
+  if (!call) return null;
+
+  const startedAt = toDate(report.startedAt);
+  const endedAt = toDate(report.endedAt);
+  return upsertCallLog(call.id, {
+    assistantId: call.assistantId ?? null,
+    status: 'ended',
+    createdAt: toDate(call.createdAt) ?? startedAt ?? new Date(),
+    startedAt,
+    endedAt,
+    durationSeconds: report.durationSeconds !== undefined
+      ? Math.round(report.durationSeconds)
+      : durationBetween(startedAt, endedAt),
+    endedReason: report.endedReason ?? null,
+    transcript: report.artifact?.transcript ?? null,
+    summary: report.analysis?.summary ?? null,
+    structuredData: toJson(report.analysis?.structuredData),
+    recordingUrl: report.artifact?.recordingUrl ?? null,
+    callerPhone: call.customer?.number ?? null,
+  }, { assistantId: call.assistantId ?? undefined, phoneNumber: call.phoneNumber });
+}
+
+// Keep the status of in-progress calls current; the end-of-call report fills in the rest
+export async function saveCallStatus(update: z.infer<typeof StatusUpdateSchema>) {
+  const { call } = update;
+  if (!call) return null;
+
+  // Updates can be processed after the end-of-call report; never move an ended call backwards
+  const existing = await prisma.callLog.findUnique({ where: { vapiCallId: call.id }, select: { status: true } });
+  if (existing?.status === 'ended') return null;
+
+  const createdAt = toDate(call.createdAt);
+  return upsertCallLog(call.id, {
+    assistantId: call.assistantId ?? null,
+    status: update.status,
+    ...(createdAt && { createdAt }),
+    ...(update.endedReason && { endedReason: update.endedReason }),
+    callerPhone: call.customer?.number ?? null,
+  }, { assistantId: call.assistantId ?? undefined, phoneNumber: call.phoneNumber });
+}
+
+/**
+ * Pulls recent calls from the Vapi API into CallLog. Calls that have already
+ * ended and been stored are not fetched again.
+ */
+export async function syncCallLogsFromVapi({ assistantId, limit = 50 }: { assistantId?: string; limit?: number } = {}) {
+  const VAPI_API_KEY = process.env.VAPI_API_KEY;
+  if (!VAPI_API_KEY) {
+    throw new Error('VAPI_API_KEY environment variable is not set.');
+  }
+
+  const client = new VapiClient({ token: VAPI_API_KEY });
+  const callsList = await client.calls.list({ limit, ...(assistantId && { assistantId }) });
+  log(`Found ${callsList.length} calls in list.`);
+
+  const stored = await prisma.callLog.findMany({
+    where: { vapiCallId: { in: callsList.map(call => call.id) }, status: 'ended', endedAt: { not: null } },
+    select: { vapiCallId: true },
+  });
+  const alreadyStored = new Set(stored.map(call => call.vapiCallId));
+
+  let synced = 0;
+  let failed = 0;
+  for (const basicCall of callsList) {
+    if (alreadyStored.has(basicCall.id)) continue;
+    try {
+      const detailedCall = await client.calls.get(basicCall.id);
+      await saveCallFromVapi(detailedCall);
+      synced++;
+    } catch (error) {
+      failed++;
+      log(`Error syncing call ${basicCall.id}`, { error: errorMessage(error) });
+    }
+  }
+
+  log('Sync finished', { listed: callsList.length, synced, skipped: alreadyStored.size, failed });
+  return { listed: callsList.length, synced, skipped: alreadyStored.size, failed };
+}
@@ -0,0 +1,30 @@
+import { prisma } from '@/lib/prisma';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('caller-id');
+
+// All patients in the practice whose number matches, in any formatting. Every patient write
+// stores phoneE164 next to phoneNumber, and the caller-matching migration filled it in for older rows.
+export async function findPatientsByPhone(phone: string, organizationId: string) {
+  const phoneE164 = normalizePhoneNumber(phone);
+  if (!phoneE164) return [];
+
+  return prisma.patient.findMany({
+    where: { phoneE164, organizationId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Resolves a caller's number to a single patient. Shared family numbers match
+ * several patients; those calls are left unlinked rather than guessed.
+ */
+export async function matchCallerToPatient(phone: string, organizationId: string): Promise<string | null> {
+  const matches = await findPatientsByPhone(phone, organizationId);
+  if (matches.length !== 1) {
+    if (matches.length > 1) log('Caller number matches several patients; not linking', { count: matches.length });
+    return null;
+  }
+  return matches[0].id;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MIN_DATE_CONFIDENCE, parseDateRequest } from '@/lib/dateParser';
+
+// Wednesday, April 8 2026 at 10:00 AM in Chicago (CDT, UTC-5)
+const now = new Date('2026-04-08T15:00:00Z');
+const timeZone = 'America/Chicago';
+
+const cases = [
+  {
+    input: 'tomorrow morning',
+    kind: 'range',
+    start: '2026-04-09T05:00:00.000Z',
+    end: '2026-04-09T17:00:00.000Z',
+    description: 'tomorrow in the morning',
+    confidence: 1,
+  },
+  {
+    input: 'next Tuesday after 2',
+    kind: 'range',
+    start: '2026-04-14T19:00:00.000Z',
+    end: '2026-04-15T05:00:00.000Z',
+    description: 'Tuesday, April 14 after 2 PM',
+    confidence: 0.8,
+  },
+  {
+    input: 'the 14th',
+    kind: 'range',
+    start: '2026-04-14T05:00:00.000Z',
+    end: '2026-04-15T05:00:00.000Z',
+    description: 'Tuesday, April 14',
+    confidence: 0.9,
+  },
+  {
+    input: 'in two weeks',
+    kind: 'range',
+    start: '2026-04-22T05:00:00.000Z',
+    end: '2026-04-29T05:00:00.000Z',
+    description: 'the week of Wednesday, April 22',
+    confidence: 0.85,
+  },
+  {
+    input: 'earliest available',
+    kind: 'earliest',
+    start: '2026-04-08T15:00:00.000Z',
+    end: '2026-05-08T15:00:00.000Z',
+    description: 'the earliest available time',
+    confidence: 1,
+  },
+  {
+    input: '2026-04-09T15:00',
+    kind: 'exact',
+    start: '2026-04-09T20:00:00.000Z',
+    end: '2026-04-09T20:00:00.000Z',
+    description: 'Thursday, April 9 at 3:00 PM',
+    confidence: 1,
+  },
+] as const;
+
+describe('parseDateRequest', () => {
+  it.each(cases)('reads "$input"', ({ input, kind, start, end, description, confidence }) => {
+    const request = parseDateRequest(input, { timeZone, now });
+
+    expect(request).toMatchObject({ kind, description, confidence, clarification: null });
+    expect(request?.start.toISOString()).toBe(start);
+    expect(request?.end.toISOString()).toBe(end);
+    expect(request!.confidence).toBeGreaterThanOrEqual(MIN_DATE_CONFIDENCE);
+  });
+
+  it.each([
+    { input: 'at 3', start: '2026-04-08T20:00:00.000Z', clarification: 'Ask the caller which day they would like to come in at 3 PM.' },
+    // 9 AM has passed today, so the guess is tomorrow's
+    { input: 'at 9', start: '2026-04-09T14:00:00.000Z', clarification: 'Ask the caller which day they would like to come in at 9 AM.' },
+  ])('asks which day "$input" means instead of guessing', ({ input, start, clarification }) => {
+    const request = parseDateRequest(input, { timeZone, now });
+
+    expect(request?.start.toISOString()).toBe(start);
+    expect(request?.clarification).toBe(clarification);
+    expect(request!.confidence).toBeLessThan(MIN_DATE_CONFIDENCE);
+  });
+
+  it('asks about times that have already passed', () => {
+    const request = parseDateRequest('today at 8am', { timeZone, now });
+
+    expect(request?.confidence).toBeLessThan(MIN_DATE_CONFIDENCE);
+    expect(request?.clarification).toMatch(/already passed/);
+  });
+
+  it('returns null when nothing sounds like a date', () => {
+    expect(parseDateRequest('whatever works for the dentist', { timeZone, now })).toBeNull();
+  });
+});
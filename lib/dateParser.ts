@@ -0,0 +1,402 @@
+import {
+  addZonedDays,
+  formatSpokenDateTime,
+  fromZoned,
+  parseInTimeZone,
+  startOfZonedDay,
+  toZoned,
+} from '@/lib/dates';
+import type { ZonedDateTime } from '@/lib/dates';
+import { DAYS_OF_WEEK } from '@/lib/scheduling';
+
+// Below this the assistant should ask the caller rather than act on our reading
+export const MIN_DATE_CONFIDENCE = 0.6;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+// Practice-local minutes of the day for spoken parts of the day
+const PARTS_OF_DAY: Record<string, { startMinute: number; endMinute: number }> = {
+  morning: { startMinute: 0, endMinute: 12 * 60 },
+  afternoon: { startMinute: 12 * 60, endMinute: 17 * 60 },
+  evening: { startMinute: 17 * 60, endMinute: 24 * 60 },
+};
+
+export type DateRequestKind = 'exact' | 'range' | 'earliest';
+
+export interface TimeWindow {
+  // Minutes since practice-local midnight; slots must start within [startMinute, endMinute)
+  startMinute: number;
+  endMinute: number;
+}
+
+export interface DateRequest {
+  kind: DateRequestKind;
+  // Earliest acceptable start; for `exact` the requested time itself
+  start: Date;
+  // Slots must start before this; equal to `start` for `exact`
+  end: Date;
+  // Time of day the caller limited themselves to on every day of the range, e.g. "after 2"
+  timeWindow: TimeWindow | null;
+  // 0..1; below MIN_DATE_CONFIDENCE ask `clarification` instead of acting
+  confidence: number;
+  // How the request was understood, e.g. "tomorrow in the morning"
+  description: string;
+  clarification: string | null;
+}
+
+export interface DateParseOptions {
+  timeZone: string;
+  now?: Date;
+  // How far ahead "earliest available" looks
+  searchDays?: number;
+}
+
+interface DayPart {
+  start: Date;
+  // Exclusive; several days for "next week" or "in two weeks"
+  end: Date;
+  label: string;
+  confidence: number;
+}
+
+// Exact wall-clock minute, or a window of the day
+type TimePart = { label: string; confidence: number } & (
+  | { minute: number; window: null }
+  | { minute: null; window: TimeWindow }
+);
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d)\s*([ap])\.?\s*m\b\.?/g, '$1$2m')
+    .replace(/\b(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\b/g, word => String(NUMBER_WORDS[word]))
+    .replace(/\bin a (day|week)\b/g, 'in 1 $1')
+    .replace(/\ba couple (?:of )?/g, '2 ')
+    .replace(/[^a-z0-9:/\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function formatMinute(minute: number): string {
+  const hours = Math.floor(minute / 60) % 24;
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return minute % 60 === 0 ? `${displayHours} ${suffix}` : `${displayHours}:${String(minute % 60).padStart(2, '0')} ${suffix}`;
+}
+
+// "3", "3:30" with an optional am/pm; hours without one are read as practice hours (7-11 am, 12-6 pm)
+function readClockTime(hourText: string, minuteText: string | undefined, meridiem: string | undefined) {
+  const hour = Number(hourText);
+  const minute = minuteText ? Number(minuteText) : 0;
+  if (minute > 59) return null;
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    const hours24 = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+    return { minute: hours24 * 60 + minute, confidence: 1 };
+  }
+  if (hour > 23) return null;
+  if (hour >= 13 || minuteText && hour === 0) {
+    return { minute: hour * 60 + minute, confidence: 1 };
+  }
+  if (hour < 1) return null;
+  const hours24 = hour >= 7 && hour <= 11 ? hour : (hour % 12) + 12;
+  return { minute: hours24 * 60 + minute, confidence: 0.85 };
+}
+
+const CLOCK = String.raw`(\d{1,2})(?::(\d{2}))?\s*(am|pm)?`;
+
+function parseTimePart(text: string): TimePart | null {
+  const between = new RegExp(String.raw`\bbetween ${CLOCK} and ${CLOCK}`).exec(text);
+  if (between) {
+    const from = readClockTime(between[1], between[2], between[3] ?? between[6]);
+    const to = readClockTime(between[4], between[5], between[6]);
+    if (from && to && from.minute < to.minute) {
+      return {
+        minute: null,
+        window: { startMinute: from.minute, endMinute: to.minute },
+        label: `between ${formatMinute(from.minute)} and ${formatMinute(to.minute)}`,
+        confidence: Math.min(from.confidence, to.confidence),
+      };
+    }
+  }
+
+  const bounded = new RegExp(String.raw`\b(after|before|by|until|around|about|at)\s+${CLOCK}\b`).exec(text)
+    ?? new RegExp(String.raw`\b()${CLOCK.replace('(am|pm)?', '(am|pm)')}\b`).exec(text);
+  if (bounded) {
+    const time = readClockTime(bounded[2], bounded[3], bounded[4]);
+    if (time) {
+      const qualifier = bounded[1];
+      if (qualifier === 'after') {
+        return { minute: null, window: { startMinute: time.minute, endMinute: 24 * 60 }, label: `after ${formatMinute(time.minute)}`, confidence: time.confidence };
+      }
+      if (qualifier === 'before' || qualifier === 'by' || qualifier === 'until') {
+        return { minute: null, window: { startMinute: 0, endMinute: time.minute }, label: `before ${formatMinute(time.minute)}`, confidence: time.confidence };
+      }
+      if (qualifier === 'around' || qualifier === 'about') {
+        return {
+          minute: null,
+          // An hour either side, including the hour after itself
+          window: { startMinute: Math.max(0, time.minute - 60), endMinute: Math.min(24 * 60, time.minute + 61) },
+          label: `around ${formatMinute(time.minute)}`,
+          confidence: time.confidence,
+        };
+      }
+      return { minute: time.minute, window: null, label: `at ${formatMinute(time.minute)}`, confidence: time.confidence };
+    }
+  }
+
+  if (/\bnoon\b/.test(text)) {
+    return { minute: 12 * 60, window: null, label: 'at noon', confidence: 1 };
+  }
+
+  const partOfDay = /\b(morning|afternoon|evening|tonight)s?\b/.exec(text);
+  if (partOfDay) {
+    const name = partOfDay[1] === 'tonight' ? 'evening' : partOfDay[1];
+    return { minute: null, window: PARTS_OF_DAY[name], label: `in the ${name}`, confidence: 1 };
+  }
+
+  return null;
+}
+
+function dayRange(start: Date, days: number, timeZone: string, label: string, confidence: number): DayPart {
+  const dayStart = startOfZonedDay(start, timeZone);
+  return { start: dayStart, end: addZonedDays(dayStart, days, timeZone), label, confidence };
+}
+
+function describeDay(date: Date, timeZone: string): string {
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone });
+}
+
+// The practice-local midnight of a calendar date, or null for dates like February 30th
+function calendarDate(year: number, month: number, day: number, timeZone: string): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const candidate = fromZoned({ year, month, day }, timeZone);
+  const zoned = toZoned(candidate, timeZone);
+  return zoned.month === month && zoned.day === day ? candidate : null;
+}
+
+// The next date with this month and day on or after today, rolling into next year if it has passed
+function nextMonthDay(today: ZonedDateTime, month: number, day: number, timeZone: string): Date | null {
+  const hasPassed = month < today.month || (month === today.month && day < today.day);
+  return calendarDate(hasPassed ? today.year + 1 : today.year, month, day, timeZone);
+}
+
+function parseDayPart(text: string, now: Date, timeZone: string): DayPart | null {
+  const today = toZoned(now, timeZone);
+
+  if (/\bday after tomorrow\b/.test(text)) {
+    return dayRange(addZonedDays(now, 2, timeZone), 1, timeZone, 'the day after tomorrow', 1);
+  }
+  if (/\btomorrow\b/.test(text)) {
+    return dayRange(addZonedDays(now, 1, timeZone), 1, timeZone, 'tomorrow', 1);
+  }
+  if (/\b(today|tonight|this (morning|afternoon|evening))\b/.test(text)) {
+    return dayRange(now, 1, timeZone, 'today', 1);
+  }
+
+  const inPeriod = /\bin (?:a )?(\d{1,2}|few) (day|week)s?\b/.exec(text);
+  if (inPeriod) {
+    const count = inPeriod[1] === 'few' ? 3 : Number(inPeriod[1]);
+    const isWeeks = inPeriod[2] === 'week';
+    const target = addZonedDays(now, isWeeks ? count * 7 : count, timeZone);
+    const confidence = inPeriod[1] === 'few' ? 0.5 : isWeeks ? 0.85 : 1;
+    // "In two weeks" means roughly that week, not one exact day
+    return isWeeks
+      ? dayRange(target, 7, timeZone, `the week of ${describeDay(target, timeZone)}`, confidence)
+      : dayRange(target, 1, timeZone, describeDay(target, timeZone), confidence);
+  }
+
+  const week = /\b(this|next) week\b/.exec(text);
+  if (week) {
+    // Weeks run Monday to Sunday
+    const daysSinceMonday = (today.dayOfWeek + 6) % 7;
+    if (week[1] === 'this') {
+      return dayRange(now, 7 - daysSinceMonday, timeZone, 'this week', 1);
+    }
+    const nextMonday = addZonedDays(now, 7 - daysSinceMonday, timeZone);
+    return dayRange(nextMonday, 7, timeZone, 'next week', 1);
+  }
+
+  if (/\bnext month\b/.test(text)) {
+    const firstOfNext = fromZoned({ year: today.year, month: today.month + 1, day: 1 }, timeZone);
+    const { year, month } = toZoned(firstOfNext, timeZone);
+    const firstOfFollowing = fromZoned({ year, month: month + 1, day: 1 }, timeZone);
+    return { start: firstOfNext, end: firstOfFollowing, label: 'next month', confidence: 0.8 };
+  }
+
+  const weekday = new RegExp(String.raw`\b(?:(next|this|coming)\s+)?(${DAYS_OF_WEEK.map(d => d.toLowerCase()).join('|')}|mon|tues?|wed|weds|thu|thurs?|fri|sat|sun)\b`).exec(text);
+  if (weekday) {
+    const target = DAYS_OF_WEEK.findIndex(d => d.toLowerCase().startsWith(weekday[2].slice(0, 3)));
+    let daysAhead = (target + 7 - today.dayOfWeek) % 7;
+    // A bare weekday naming today may mean today or next week's, so it is confirmed; "this Tuesday" on a Tuesday means today
+    let confidence = 1;
+    if (daysAhead === 0 && weekday[1] !== 'this') {
+      daysAhead = 7;
+      confidence = 0.5;
+    }
+    if (weekday[1] === 'next' && daysAhead < 7) {
+      // Some callers mean the coming one, others the one after; take the coming one but note the doubt
+      confidence = 0.8;
+    }
+    const date = addZonedDays(now, daysAhead, timeZone);
+    return dayRange(date, 1, timeZone, describeDay(date, timeZone), confidence);
+  }
+
+  const monthNames = MONTHS.map(m => `${m}|${m.slice(0, 3)}`).join('|');
+  const monthDay = new RegExp(String.raw`\b(${monthNames})\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\b`).exec(text)
+    ?? new RegExp(String.raw`\b(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(${monthNames})\b`).exec(text);
+  if (monthDay) {
+    const [monthText, dayText] = /^\d/.test(monthDay[1]) ? [monthDay[2], monthDay[1]] : [monthDay[1], monthDay[2]];
+    const month = MONTHS.findIndex(m => m.startsWith(monthText.slice(0, 3))) + 1;
+    const date = nextMonthDay(today, month, Number(dayText), timeZone);
+    return date ? dayRange(date, 1, timeZone, describeDay(date, timeZone), 1) : null;
+  }
+
+  const numeric = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/.exec(text);
+  if (numeric) {
+    // Month first, as callers in the US say it
+    const date = nextMonthDay(today, Number(numeric[1]), Number(numeric[2]), timeZone);
+    return date ? dayRange(date, 1, timeZone, describeDay(date, timeZone), 0.85) : null;
+  }
+
+  const ordinal = /\b(?:the\s+)?(\d{1,2})(st|nd|rd|th)\b/.exec(text);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    // This month if the day is still ahead, otherwise next month
+    const date = day >= today.day
+      ? calendarDate(today.year, today.month, day, timeZone)
+      : calendarDate(today.month === 12 ? today.year + 1 : today.year, today.month === 12 ? 1 : today.month + 1, day, timeZone);
+    return date ? dayRange(date, 1, timeZone, describeDay(date, timeZone), 0.9) : null;
+  }
+
+  return null;
+}
+
+function atMinute(day: Date, minute: number, timeZone: string): Date {
+  const { year, month, day: dayOfMonth } = toZoned(day, timeZone);
+  return fromZoned({ year, month, day: dayOfMonth, minute }, timeZone);
+}
+
+/**
+ * Reads what a caller said about when they want to come in ("tomorrow morning",
+ * "next Tuesday after 2", "the 14th", "in two weeks", "earliest available") or
+ * an ISO timestamp, in the practice's time zone. Returns a single time or a range
+ * of acceptable start times with a confidence score, or null when nothing
+ * date-like was found. Never substitutes a default day for something it could
+ * not read; low confidence comes with a question to put to the caller instead.
+ */
+export function parseDateRequest(input: string, { timeZone, now = new Date(), searchDays = 30 }: DateParseOptions): DateRequest | null {
+  const raw = input.trim();
+  if (!raw) return null;
+
+  // Machine-readable values from the assistant
+  if (/^\d{4}-\d{2}-\d{2}/.test(raw)) {
+    const parsed = parseInTimeZone(raw, timeZone);
+    if (!parsed) return null;
+    const hasTime = /^\d{4}-\d{2}-\d{2}[T ]\d/.test(raw);
+    if (hasTime) {
+      const inPast = parsed < now;
+      return {
+        kind: 'exact',
+        start: parsed,
+        end: parsed,
+        timeWindow: null,
+        confidence: inPast ? 0.2 : 1,
+        description: formatSpokenDateTime(parsed, timeZone),
+        clarification: inPast ? 'That time has already passed. Ask the caller which upcoming day and time they would like.' : null,
+      };
+    }
+    const day = dayRange(parsed, 1, timeZone, describeDay(parsed, timeZone), 1);
+    return finishRange(day, null, now, timeZone);
+  }
+
+  const text = normalize(raw);
+  const time = parseTimePart(text);
+  const day = parseDayPart(text, now, timeZone);
+  const wantsEarliest = /\b(earliest|soonest|first (available|opening|open)|asap|as soon as possible|any ?time|whenever)\b/.test(text);
+
+  if (!day) {
+    if (!time) {
+      if (!wantsEarliest) return null;
+      return {
+        kind: 'earliest',
+        start: now,
+        end: addZonedDays(now, searchDays, timeZone),
+        timeWindow: null,
+        confidence: 1,
+        description: 'the earliest available time',
+        clarification: null,
+      };
+    }
+
+    if (wantsEarliest && time.window) {
+      return {
+        kind: 'earliest',
+        start: now,
+        end: addZonedDays(now, searchDays, timeZone),
+        timeWindow: time.window,
+        confidence: time.confidence,
+        description: `the earliest available time ${time.label}`,
+        clarification: null,
+      };
+    }
+    // A time with no day is read as today if it is still ahead, otherwise tomorrow, but only
+    // as a guess to put to the caller: it scores below MIN_DATE_CONFIDENCE so nothing is booked on it
+    const stillToday = atMinute(now, time.minute ?? time.window.endMinute, timeZone) > now;
+    const assumed = stillToday
+      ? dayRange(now, 1, timeZone, 'today', 0.5)
+      : dayRange(addZonedDays(now, 1, timeZone), 1, timeZone, 'tomorrow', 0.5);
+    return finishRange(assumed, time, now, timeZone, `Ask the caller which day they would like to come in ${time.label}.`);
+  }
+
+  return finishRange(day, time, now, timeZone);
+}
+
+function finishRange(day: DayPart, time: TimePart | null, now: Date, timeZone: string, dayQuestion?: string): DateRequest {
+  const confidence = Math.min(day.confidence, time?.confidence ?? 1);
+  const description = time ? `${day.label} ${time.label}` : day.label;
+  const clarification = confidence < MIN_DATE_CONFIDENCE
+    ? dayQuestion ?? `Confirm with the caller that they mean ${description}.`
+    : null;
+
+  if (time?.minute !== null && time?.minute !== undefined) {
+    const start = atMinute(day.start, time.minute, timeZone);
+    const inPast = start < now;
+    return {
+      kind: 'exact',
+      start,
+      end: start,
+      timeWindow: null,
+      confidence: inPast ? 0.2 : confidence,
+      description: formatSpokenDateTime(start, timeZone),
+      clarification: inPast ? 'That time has already passed. Ask the caller which upcoming day and time they would like.' : clarification,
+    };
+  }
+
+  const window = time?.window ?? null;
+  // Single days are narrowed to the window here; longer ranges apply it to each day
+  const singleDay = day.end.getTime() - day.start.getTime() <= 25 * 60 * 60 * 1000;
+  const rangeStart = singleDay && window ? atMinute(day.start, window.startMinute, timeZone) : day.start;
+  const rangeEnd = singleDay && window ? atMinute(day.start, window.endMinute, timeZone) : day.end;
+  const start = rangeStart < now ? now : rangeStart;
+  const inPast = rangeEnd <= now;
+
+  return {
+    kind: 'range',
+    start,
+    end: rangeEnd,
+    timeWindow: window,
+    confidence: inPast ? 0.2 : confidence,
+    description,
+    clarification: inPast ? 'That time has already passed. Ask the caller which upcoming day and time they would like.' : clarification,
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { addZonedDays, formatZonedDate, fromZoned, parseInTimeZone, startOfZonedDay, toZoned } from '@/lib/dates';
+
+// In 2026 Chicago springs forward at 2:00 on March 8 (CST, UTC-6 -> CDT, UTC-5)
+// and falls back at 2:00 on November 1
+const ZONE = 'America/Chicago';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('fromZoned', () => {
+  it('reads ordinary times on the spring-forward day with the offset in force', () => {
+    expect(fromZoned({ year: 2026, month: 3, day: 8, hour: 1, minute: 30 }, ZONE).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(fromZoned({ year: 2026, month: 3, day: 8, hour: 3, minute: 30 }, ZONE).toISOString()).toBe('2026-03-08T08:30:00.000Z');
+  });
+
+  it('pushes a skipped 2:30 forward by the gap', () => {
+    const date = fromZoned({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, ZONE);
+    expect(date.toISOString()).toBe('2026-03-08T08:30:00.000Z');
+    expect(toZoned(date, ZONE)).toMatchObject({ day: 8, hour: 3, minute: 30 });
+  });
+
+  it('resolves a repeated 1:30 to its first occurrence', () => {
+    const date = fromZoned({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, ZONE);
+    expect(date.toISOString()).toBe('2026-11-01T06:30:00.000Z');
+    // The second 1:30, an hour later, reads the same on the wall
+    expect(toZoned(new Date(date.getTime() + HOUR_MS), ZONE)).toMatchObject({ day: 1, hour: 1, minute: 30 });
+  });
+});
+
+describe('addZonedDays', () => {
+  it('keeps the wall-clock time across spring forward', () => {
+    const saturday = fromZoned({ year: 2026, month: 3, day: 7, hour: 9 }, ZONE);
+    const sunday = addZonedDays(saturday, 1, ZONE);
+    expect(sunday.toISOString()).toBe('2026-03-08T14:00:00.000Z');
+    expect(sunday.getTime() - saturday.getTime()).toBe(23 * HOUR_MS);
+  });
+
+  it('keeps the wall-clock time across fall back', () => {
+    const saturday = fromZoned({ year: 2026, month: 10, day: 31, hour: 9 }, ZONE);
+    const sunday = addZonedDays(saturday, 1, ZONE);
+    expect(sunday.toISOString()).toBe('2026-11-01T15:00:00.000Z');
+    expect(sunday.getTime() - saturday.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('lands a 2:30 on the day it is skipped at 3:30', () => {
+    const saturday = fromZoned({ year: 2026, month: 3, day: 7, hour: 2, minute: 30 }, ZONE);
+    expect(toZoned(addZonedDays(saturday, 1, ZONE), ZONE)).toMatchObject({ day: 8, hour: 3, minute: 30 });
+  });
+});
+
+describe('parseInTimeZone', () => {
+  it('reads bare times as practice wall-clock time across the transitions', () => {
+    expect(parseInTimeZone('2026-03-08T02:30', ZONE)?.toISOString()).toBe('2026-03-08T08:30:00.000Z');
+    expect(parseInTimeZone('2026-11-01T01:30', ZONE)?.toISOString()).toBe('2026-11-01T06:30:00.000Z');
+  });
+
+  it('keeps explicit offsets as exact instants', () => {
+    expect(parseInTimeZone('2026-11-01T01:30:00-06:00', ZONE)?.toISOString()).toBe('2026-11-01T07:30:00.000Z');
+    expect(parseInTimeZone('2026-03-08T08:30:00Z', ZONE)?.toISOString()).toBe('2026-03-08T08:30:00.000Z');
+  });
+
+  it('returns null for unreadable text', () => {
+    expect(parseInTimeZone('next week sometime', ZONE)).toBeNull();
+  });
+});
+
+describe('day boundaries', () => {
+  it('puts a late-evening visit on the practice-local day, not the UTC one', () => {
+    // 10:30pm on April 10 in Chicago is already April 11 in UTC
+    const evening = parseInTimeZone('2026-04-10T22:30', ZONE)!;
+    expect(evening.toISOString()).toBe('2026-04-11T03:30:00.000Z');
+    expect(formatZonedDate(evening, ZONE)).toBe('2026-04-10');
+    expect(startOfZonedDay(evening, ZONE).toISOString()).toBe('2026-04-10T05:00:00.000Z');
+    expect(parseInTimeZone('2026-04-10', ZONE)?.toISOString()).toBe('2026-04-10T05:00:00.000Z');
+  });
+
+  it('gives the fall-back day 25 hours', () => {
+    const day = startOfZonedDay(parseInTimeZone('2026-11-01T12:00', ZONE)!, ZONE);
+    expect(day.toISOString()).toBe('2026-11-01T05:00:00.000Z');
+    expect(addZonedDays(day, 1, ZONE).getTime() - day.getTime()).toBe(25 * HOUR_MS);
+  });
+});
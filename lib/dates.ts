@@ -0,0 +1,173 @@
+// Practice time zone used when an organization has not set one
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// A wall-clock reading in some time zone; month is 1-12
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // 0 = Sunday ... 6 = Saturday, as on BusinessHours / ProviderSchedule
+  dayOfWeek: number;
+}
+
+export type ZonedDateTimeInput = Pick<ZonedDateTime, 'year' | 'month' | 'day'> & Partial<Pick<ZonedDateTime, 'hour' | 'minute' | 'second'>>;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What a clock on the practice wall shows at this instant
+export function toZoned(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  const { year, month, day, minute, second } = parts;
+  // Some runtimes report midnight as hour 24 even with h23
+  const hour = parts.hour % 24;
+  return { year, month, day, hour, minute, second, dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay() };
+}
+
+// Minutes the zone is ahead of UTC at this instant (negative west of Greenwich)
+function offsetMinutes(instant: number, timeZone: string): number {
+  const zoned = toZoned(new Date(instant), timeZone);
+  const wallAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return Math.round((wallAsUtc - Math.floor(instant / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to. Out-of-range fields roll
+ * over like Date.UTC (day 32 is the 1st of next month, minute 90 is 1:30).
+ * Around daylight saving changes: a time that happens twice (fall back) resolves
+ * to the first occurrence, and a time that never happens (spring forward) is
+ * pushed forward by the size of the gap, so 2:30 becomes 3:30.
+ */
+export function fromZoned({ year, month, day, hour = 0, minute = 0, second = 0 }: ZonedDateTimeInput, timeZone: string): Date {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  // A transition can only sit between these two readings of the offset
+  const offsetBefore = offsetMinutes(wallAsUtc - 12 * HOUR_MS, timeZone);
+  const offsetAfter = offsetMinutes(wallAsUtc + 12 * HOUR_MS, timeZone);
+
+  const matches = [offsetBefore, offsetAfter]
+    .map(offset => wallAsUtc - offset * MINUTE_MS)
+    .filter(instant => {
+      const zoned = toZoned(new Date(instant), timeZone);
+      return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) === wallAsUtc;
+    });
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  return new Date(wallAsUtc - offsetBefore * MINUTE_MS);
+}
+
+// Midnight at the practice on the day `date` falls on there
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const { year, month, day } = toZoned(date, timeZone);
+  return fromZoned({ year, month, day }, timeZone);
+}
+
+// The same wall-clock time `days` calendar days later, whatever DST does in between
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const zoned = toZoned(date, timeZone);
+  return fromZoned({ ...zoned, day: zoned.day + days }, timeZone);
+}
+
+// The same wall-clock time `months` calendar months later; the 31st lands on the last day of shorter months
+export function addZonedMonths(date: Date, months: number, timeZone: string): Date {
+  const zoned = toZoned(date, timeZone);
+  const monthIndex = zoned.month - 1 + months;
+  const year = zoned.year + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12 + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return fromZoned({ ...zoned, year, month, day: Math.min(zoned.day, lastDay) }, timeZone);
+}
+
+// `date`'s practice-local day at the given wall-clock time, e.g. 3pm on the same day
+export function setZonedTime(date: Date, { hour = 0, minute = 0, second = 0 }: Partial<Pick<ZonedDateTime, 'hour' | 'minute' | 'second'>>, timeZone: string): Date {
+  const { year, month, day } = toZoned(date, timeZone);
+  return fromZoned({ year, month, day, hour, minute, second }, timeZone);
+}
+
+export function zonedDayOfWeek(date: Date, timeZone: string): number {
+  return toZoned(date, timeZone).dayOfWeek;
+}
+
+export function minutesIntoZonedDay(date: Date, timeZone: string): number {
+  const { hour, minute } = toZoned(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Reads a date/time sent by the assistant or a client. Values with an explicit
+ * offset or "Z" are exact instants; bare ISO values ("2025-04-10T15:00" or
+ * "2025-04-10") are read as practice wall-clock time, which is what a caller
+ * means by "3pm". Other text is left to Date. Returns null when unreadable.
+ */
+export function parseInTimeZone(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  const local = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/.exec(trimmed);
+  if (local) {
+    const [, year, month, day, hour = '0', minute = '0', second = '0'] = local;
+    return fromZoned({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: Number(second),
+    }, timeZone);
+  }
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// "Tuesday, April 15 at 3:00 PM" in the practice's zone, for reading back to callers
+export function formatSpokenDateTime(date: Date, timeZone: string, { withYear = false } = {}): string {
+  return date.toLocaleString('en-US', {
+    weekday: 'long',
+    ...(withYear && { year: 'numeric' }),
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hour12: true,
+    timeZone,
+  });
+}
+
+// "YYYY-MM-DD" of the practice-local day `date` falls on
+export function formatZonedDate(date: Date, timeZone: string): string {
+  const { year, month, day } = toZoned(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import { PatientType, Role } from '@prisma/client'; // Keep value imports
+import type { Patient, Appointment } from '@prisma/client'; // Use type imports for types
+import { formatSpokenDateTime, parseInTimeZone } from '@/lib/dates';
+import { patientPhoneFields } from '@/lib/phone';
+import { bookSlot } from '@/lib/booking';
+import type { BookingResult } from '@/lib/booking';
+import { scopedPrisma } from '@/lib/organizationContext';
+import { checkAppointmentAvailability, findAppointmentType } from '@/lib/scheduling';
+import { defineToolHandler } from '@/lib/vapiToolCalls';
+import { assistantActor, recordAuditEvent } from '@/lib/audit';
+import { createLogger, errorMessage } from '@/lib/logger';
+
+// --- Configuration & Constants ---
+const DEFAULT_APPOINTMENT_REASON = "Appointment via voice assistant";
+
+// --- Logging Utility ---
+const log = createLogger('book-appointment');
+
+// --- Arguments ---
+const BookAppointmentArgsSchema = z.object({
+  start: z.string().min(1, 'Start date is required'), // Expect ISO 8601 string
+  patientId: z.string().trim().min(1).optional(), // From lookupPatient; replaces name and email
+  name: z.string().trim().min(1, 'Patient name is required').optional(),
+  email: z.string().trim().email('Invalid email format').optional(),
+  smsReminderNumber: z.string().optional().catch(undefined),
+  appointmentType: z.string().optional().catch(undefined), // Name of an AppointmentType, e.g. "Cleaning"
+}).refine(args => args.patientId || (args.name && args.email), {
+  message: 'Either patientId or both name and email are required',
+});
+
+// --- Helper Functions ---
+
+// Parse Name
+function parseFullName(fullName: string): { firstName: string; lastName: string } {
+  const nameParts = fullName.trim().split(' ');
+  const firstName = nameParts[0] || 'Unknown'; // Default if empty
+  const lastName = nameParts.length > 1 ? nameParts.slice(1).join(' ') : 'Patient'; // Default if only one name part
+  return { firstName, lastName };
+}
+
+export const bookAppointmentTool = defineToolHandler({
+  schema: BookAppointmentArgsSchema,
+  async handle({ start, patientId, name, email, smsReminderNumber, appointmentType: appointmentTypeName }, { call, organization, assistant }) {
+    const organizationId = organization.id;
+    const timeZone = organization.timezone;
+    const db = scopedPrisma(organizationId);
+
+    // A time without an offset is the practice's local time
+    const appointmentDate = parseInTimeZone(start, timeZone);
+    if (!appointmentDate) {
+      log('Error: Invalid date format received', { start });
+      return { error: `Invalid date format: ${start}. Please use ISO 8601 format.` };
+    }
+
+    // --- Availability Validation (schedule + overlapping appointments) ---
+    const appointmentType = await findAppointmentType({ organizationId, name: appointmentTypeName });
+    const availabilityOptions = {
+      organizationId,
+      durationMinutes: appointmentType?.durationMinutes,
+      providerRole: appointmentType?.requiredRole,
+      // A time offered earlier in this call is held for it
+      holdOwner: call?.id ?? null,
+    };
+    const availability = await checkAppointmentAvailability(appointmentDate, availabilityOptions);
+    if (!availability.valid) {
+      log('Requested time is not available', { start, reason: availability.message, conflicts: availability.conflicts.length });
+      return { error: `Cannot book at that time. ${availability.message} Please check availability for another time.` };
+    }
+
+    log('Processing booking', { patientId: patientId ?? null, start: appointmentDate });
+
+    // --- Find or Create Patient ---
+    let patient: Patient | null = null;
+    let patientWasCreated = false;
+
+    try {
+      if (patientId) {
+        // Already identified by lookupPatient; never fall back to creating someone new
+        patient = await db.patient.findUnique({ where: { id: patientId } });
+        if (!patient) {
+          log('Resolved patient not found', { patientId });
+          return { error: 'That patient record could not be found. Look the caller up again, or collect their name and email.' };
+        }
+      } else if (name && email) {
+        patient = await db.patient.findFirst({ where: { email } });
+      }
+
+      if (!patient && name && email) {
+        const { firstName, lastName } = parseFullName(name);
+        log('No patient with that email. Creating new patient.');
+        // The assistant's default provider, else any dentist at the practice
+        const dentist = (assistant?.defaultProviderId
+          ? await db.user.findUnique({ where: { id: assistant.defaultProviderId } })
+          : null) ?? await db.user.findFirst({ where: { role: Role.DENTIST } }); // Use imported Enum
+        if (!dentist) {
+          log('CRITICAL Error: No DENTIST user found in the database.');
+          return { error: 'Internal setup error. Cannot schedule appointment.' };
+        }
+
+        patient = await db.patient.create({
+          data: {
+            firstName,
+            lastName,
+            email,
+            ...patientPhoneFields(smsReminderNumber),
+            userId: dentist.id,
+            organizationId,
+          },
+        });
+        patientWasCreated = true;
+        log('New patient created successfully', { patientId: patient.id });
+      } else if (patient) {
+        log('Existing patient found', { patientId: patient.id });
+        if (smsReminderNumber && patient.phoneNumber !== smsReminderNumber) {
+           const before = patient;
+           await db.$transaction(async (tx) => {
+             const updated = await tx.patient.update({
+               where: { id: before.id },
+               data: patientPhoneFields(smsReminderNumber),
+             });
+             await recordAuditEvent(organizationId, assistantActor({ call, assistant }), {
+               entityType: 'Patient',
+               entityId: before.id,
+               action: 'update',
+               before,
+               after: updated,
+             }, tx);
+           });
+           log(`Updated phone number for existing patient ${patient.id}`);
+        }
+      }
+    } catch (dbError) {
+      log('Database error during patient find/create', { error: errorMessage(dbError) });
+      return { error: 'There was an issue accessing patient records.' };
+    }
+    if (!patient) {
+      return { error: 'There was an issue accessing patient records.' };
+    }
+
+    // Attempt rollback if a new patient was created
+    const rollbackNewPatient = async () => {
+      if (!patientWasCreated || !patient) return;
+      const createdPatientId = patient.id;
+      log(`Attempting to rollback patient creation for ${createdPatientId}`);
+      await db.patient.delete({ where: { id: createdPatientId } }).catch(rollbackError => {
+        log(`CRITICAL: Failed to rollback patient creation for ${createdPatientId}`, { error: errorMessage(rollbackError) });
+      });
+    };
+
+    // --- Create Appointment (re-checked under the booking lock) ---
+    const bookedPatient = patient;
+    const actor = assistantActor({ call, assistant });
+    let booking: BookingResult<Appointment>;
+    try {
+      booking = await bookSlot(appointmentDate, availabilityOptions, async (tx, slot) => {
+        const appointment = await tx.appointment.create({
+          data: {
+            date: appointmentDate,
+            endTime: slot.end,
+            reason: appointmentType?.name ?? DEFAULT_APPOINTMENT_REASON,
+            patientType: patientWasCreated ? PatientType.NEW : PatientType.EXISTING,
+            status: 'SCHEDULED',
+            notes: `Booked via VAPI Tool.${smsReminderNumber ? ` SMS Reminder #: ${smsReminderNumber}` : ''}`,
+            patientId: bookedPatient.id,
+            appointmentTypeId: appointmentType?.id ?? null,
+            providerId: slot.providerId,
+            organizationId,
+          },
+        });
+        // Audited with the visit; a patient rolled back below was never really added
+        if (patientWasCreated) {
+          await recordAuditEvent(organizationId, actor, { entityType: 'Patient', entityId: bookedPatient.id, action: 'create', after: bookedPatient }, tx);
+        }
+        await recordAuditEvent(organizationId, actor, {
+          entityType: 'Appointment',
+          entityId: appointment.id,
+          action: 'create',
+          after: appointment,
+        }, tx);
+        return appointment;
+      });
+    } catch (dbError: unknown) {
+      log('Database error during appointment creation', { error: errorMessage(dbError) });
+      await rollbackNewPatient();
+      return { error: 'Failed to save the appointment in the schedule. Please try again.' };
+    }
+
+    if (!booking.booked) {
+      // Someone else took the time between the check above and now
+      await rollbackNewPatient();
+      return { error: `Sorry, that time was just taken. ${booking.availability.message} Please check availability for another time.` };
+    }
+    log('Appointment created successfully in DB', { appointmentId: booking.record.id });
+
+    // --- Format Confirmation & Return Success ---
+    const formattedDate = formatSpokenDateTime(appointmentDate, timeZone, { withYear: true });
+    const patientName = name ?? `${patient.firstName} ${patient.lastName}`;
+    const confirmationMessage = `Okay, I've booked the appointment for ${patientName} on ${formattedDate}.`;
+    log('Sending success response');
+
+    return { result: confirmationMessage };
+  },
+});
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { AppointmentStatus, Role, TaskPriority } from '@prisma/client';
+import type { Appointment, Patient } from '@prisma/client';
+import { scopedPrisma } from '@/lib/organizationContext';
+import { matchCallerToPatient } from '@/lib/callerId';
+import { formatSpokenDateTime } from '@/lib/dates';
+import type { ToolCallResult, VapiCall } from '@/lib/vapiToolCalls';
+
+// Cancelling or moving a visit with less notice than this is flagged to the front desk
+export const LATE_CHANGE_NOTICE_HOURS = 24;
+
+// Set by the assistant once the caller has said yes; anything but true or "true" means not yet
+export const ConfirmedSchema = z.preprocess(value => value === true || value === 'true', z.boolean());
+
+export type CallerAppointment = Appointment & {
+  patient: Pick<Patient, 'id' | 'firstName' | 'lastName'>;
+  appointmentType: { name: string; durationMinutes: number; requiredRole: Role | null } | null;
+};
+
+/**
+ * The patient the assistant is acting for: the id resolved by lookupPatient, or
+ * else the single patient whose number the call came from. Returns null when the
+ * caller has not been identified; the tools then ask for a lookup first.
+ */
+export async function resolveCallerPatientId(
+  patientId: string | undefined,
+  call: VapiCall | null,
+  organizationId: string
+): Promise<string | null> {
+  if (patientId) {
+    const patient = await scopedPrisma(organizationId).patient.findUnique({ where: { id: patientId }, select: { id: true } });
+    return patient?.id ?? null;
+  }
+  const callerNumber = call?.customer?.number;
+  return callerNumber ? matchCallerToPatient(callerNumber, organizationId) : null;
+}
+
+// Visits that have not started yet and can still be changed, soonest first
+export async function findUpcomingAppointments(patientId: string, organizationId: string): Promise<CallerAppointment[]> {
+  return scopedPrisma(organizationId).appointment.findMany({
+    where: {
+      patientId,
+      date: { gte: new Date() },
+      status: { in: [AppointmentStatus.SCHEDULED, AppointmentStatus.CONFIRMED] },
+    },
+    include: {
+      patient: { select: { id: true, firstName: true, lastName: true } },
+      appointmentType: { select: { name: true, durationMinutes: true, requiredRole: true } },
+    },
+    orderBy: { date: 'asc' },
+  });
+}
+
+export function describeAppointment(appointment: CallerAppointment, timeZone: string): string {
+  return `${appointment.appointmentType?.name ?? appointment.reason} on ${formatSpokenDateTime(appointment.date, timeZone)}`;
+}
+
+// Tells the assistant which visits the caller has so it can ask which one they mean
+export function listAppointmentChoices(appointments: CallerAppointment[], action: string, timeZone: string): string {
+  const choices = appointments.map(a => `${describeAppointment(a, timeZone)} (appointmentId "${a.id}")`);
+  return `The caller has these upcoming appointments: ${choices.join('; ')}. Confirm with the caller which one they want to ${action}, then call again with its appointmentId.`;
+}
+
+/**
+ * Picks the appointment a cancel or reschedule call is about. Until the assistant
+ * names one of the caller's own upcoming visits by id, the tool answers with the
+ * choices instead, so nothing is changed on a guess.
+ */
+export async function selectCallerAppointment({ patientId, appointmentId, call, organizationId, timeZone, action }: {
+  patientId?: string;
+  appointmentId?: string;
+  call: VapiCall | null;
+  organizationId: string;
+  timeZone: string;
+  action: string;
+}): Promise<{ appointment: CallerAppointment } | { response: ToolCallResult }> {
+  const callerPatientId = await resolveCallerPatientId(patientId, call, organizationId);
+  if (!callerPatientId) {
+    return { response: { error: 'The caller has not been identified. Use lookupPatient first, then pass the patientId it returns.' } };
+  }
+
+  const upcoming = await findUpcomingAppointments(callerPatientId, organizationId);
+  if (upcoming.length === 0) {
+    return { response: { result: `The caller has no upcoming appointments to ${action}.` } };
+  }
+
+  const appointment = appointmentId ? upcoming.find(a => a.id === appointmentId) : undefined;
+  if (!appointment) {
+    return { response: { result: listAppointmentChoices(upcoming, action, timeZone) } };
+  }
+  return { appointment };
+}
+
+export function hoursUntil(date: Date): number {
+  return (date.getTime() - Date.now()) / (60 * 60 * 1000);
+}
+
+/**
+ * Leaves a task for the front desk when a change came in with less notice than
+ * the practice asks for, so staff can apply the late-change policy and refill the slot.
+ */
+export async function flagLateChange(
+  appointment: CallerAppointment,
+  change: 'cancellation' | 'reschedule',
+  { callId, organizationId, timeZone }: { callId?: string | null; organizationId: string; timeZone: string }
+) {
+  const noticeHours = Math.max(0, Math.floor(hoursUntil(appointment.date)));
+  const { firstName, lastName } = appointment.patient;
+  return scopedPrisma(organizationId).task.create({
+    data: {
+      description: `Late ${change}: ${firstName} ${lastName} ${change === 'cancellation' ? 'cancelled' : 'moved'} their ${describeAppointment(appointment, timeZone)} with ${noticeHours} hours' notice (policy is ${LATE_CHANGE_NOTICE_HOURS} hours). Review the late-change policy and try to fill the slot.`,
+      priority: TaskPriority.HIGH,
+      assignedRole: Role.RECEPTIONIST,
+      callId: callId ?? null,
+      appointmentId: appointment.id,
+      patientId: appointment.patientId,
+      organizationId,
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { AppointmentStatus } from '@prisma/client';
+import { scopedPrisma } from '@/lib/organizationContext';
+import { defineToolHandler } from '@/lib/vapiToolCalls';
+import {
+  ConfirmedSchema,
+  describeAppointment,
+  flagLateChange,
+  hoursUntil,
+  LATE_CHANGE_NOTICE_HOURS,
+  selectCallerAppointment,
+} from './callerAppointments';
+import { assistantActor, recordAuditEvent } from '@/lib/audit';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('cancel-appointment');
+
+const CancelAppointmentArgsSchema = z.object({
+  patientId: z.string().trim().min(1).optional().catch(undefined), // From lookupPatient
+  appointmentId: z.string().trim().min(1).optional().catch(undefined),
+  // Only cancel once the caller has said yes to the specific visit
+  confirmed: ConfirmedSchema,
+});
+
+export const cancelAppointmentTool = defineToolHandler({
+  schema: CancelAppointmentArgsSchema,
+  async handle({ patientId, appointmentId, confirmed }, { call, organization, assistant }) {
+    const organizationId = organization.id;
+    const timeZone = organization.timezone;
+
+    const selection = await selectCallerAppointment({ patientId, appointmentId, call, organizationId, timeZone, action: 'cancel' });
+    if ('response' in selection) return selection.response;
+    const { appointment } = selection;
+
+    if (!confirmed) {
+      return {
+        result: `Ask the caller to confirm they want to cancel their ${describeAppointment(appointment, timeZone)}. If they agree, call again with this appointmentId and confirmed set to true.`,
+      };
+    }
+
+    await scopedPrisma(organizationId).$transaction(async (tx) => {
+      const cancelled = await tx.appointment.update({
+        where: { id: appointment.id },
+        data: {
+          status: AppointmentStatus.CANCELLED,
+          cancelledAt: new Date(),
+          cancellationReason: 'Cancelled by the patient via voice assistant',
+        },
+      });
+      await recordAuditEvent(organizationId, assistantActor({ call, assistant }), {
+        entityType: 'Appointment',
+        entityId: appointment.id,
+        action: 'cancel',
+        before: appointment,
+        after: cancelled,
+      }, tx);
+    });
+    log('Appointment cancelled', { appointmentId: appointment.id });
+
+    if (hoursUntil(appointment.date) < LATE_CHANGE_NOTICE_HOURS) {
+      const task = await flagLateChange(appointment, 'cancellation', { callId: call?.id, organizationId, timeZone });
+      log('Late cancellation flagged for the front desk', { appointmentId: appointment.id, taskId: task?.id ?? null });
+      return {
+        result: `The ${describeAppointment(appointment, timeZone)} is cancelled. Because it was less than ${LATE_CHANGE_NOTICE_HOURS} hours away, let the caller know the front desk will be in touch about the late cancellation policy.`,
+      };
+    }
+
+    return { result: `The ${describeAppointment(appointment, timeZone)} is cancelled.` };
+  },
+});
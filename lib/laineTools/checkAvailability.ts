@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { formatSpokenDateTime } from '@/lib/dates';
+import { MIN_DATE_CONFIDENCE, parseDateRequest } from '@/lib/dateParser';
+import { checkAppointmentAvailability, DAYS_OF_WEEK, findAppointmentType } from '@/lib/scheduling';
+import { findOpenSlots } from '@/lib/slotSearch';
+import { holdSlots } from '@/lib/booking';
+import { scopedPrisma } from '@/lib/organizationContext';
+import { defineToolHandler } from '@/lib/vapiToolCalls';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('check-availability');
+
+// Optional constraints are dropped rather than rejected when the assistant sends something unexpected
+const CheckAvailabilityArgsSchema = z.object({
+  startDate: z.string().optional(), // The caller's words ("next Tuesday after 2") or an ISO timestamp
+  appointmentType: z.string().optional().catch(undefined),
+  partOfDay: z.enum(['morning', 'afternoon']).optional().catch(undefined),
+  preferredDay: z.string().optional().catch(undefined), // Weekday name the caller is limited to
+  providerName: z.string().optional().catch(undefined),
+}).passthrough();
+
+export const checkAvailabilityTool = defineToolHandler({
+  schema: CheckAvailabilityArgsSchema,
+  async handle(args, { call, organization }) {
+    const startDate = args.startDate?.trim() ?? '';
+    const appointmentTypeName = args.appointmentType ?? '';
+    const partOfDay = args.partOfDay ?? null;
+    const preferredDayIndex = args.preferredDay
+      ? DAYS_OF_WEEK.findIndex(day => day.toLowerCase() === args.preferredDay?.trim().toLowerCase())
+      : -1;
+    const providerName = args.providerName?.trim() ?? '';
+
+    // For debugging, log the extracted parameters
+    log('Extracted parameters', { startDate, appointmentTypeName, partOfDay, preferredDayIndex, providerName });
+
+    if (!startDate) {
+      log('No start date provided in request');
+      return { error: 'Start date is required' };
+    }
+
+    const organizationId = organization.id;
+    const timeZone = organization.timezone;
+
+    // Ask the caller rather than guess when we can't tell which day or time they mean
+    const request = parseDateRequest(startDate, { timeZone });
+    if (!request || request.confidence < MIN_DATE_CONFIDENCE) {
+      log('Requested time is unclear', { startDate, confidence: request?.confidence ?? 0 });
+      const question = request?.clarification
+        ?? `I couldn't tell which day or time "${startDate}" means. Ask the caller which day and roughly what time they'd like.`;
+      return { result: `${question} Then check availability again.` };
+    }
+    log('Understood requested time', {
+      startDate,
+      kind: request.kind,
+      description: request.description,
+      confidence: request.confidence,
+    });
+
+    // The visit length (and which providers can do it) comes from the appointment type, if the caller gave one
+    const appointmentType = await findAppointmentType({ organizationId, name: appointmentTypeName });
+    const provider = providerName
+      ? await scopedPrisma(organizationId).user.findFirst({
+          where: { name: { contains: providerName, mode: 'insensitive' } },
+          select: { id: true, name: true },
+        })
+      : null;
+    // Times offered on a call are held for it, so the booking that follows can't be beaten to them
+    const holdOwner = call?.id ?? null;
+    const availabilityOptions = {
+      organizationId,
+      providerId: provider?.id ?? null,
+      durationMinutes: appointmentType?.durationMinutes,
+      providerRole: appointmentType?.requiredRole,
+      holdOwner,
+    };
+    const offer = async <S extends { start: Date }>(slots: S[]) =>
+      holdOwner && slots.length > 0 ? holdSlots(holdOwner, slots, availabilityOptions) : slots;
+
+    const constraints = {
+      count: 3,
+      stepMinutes: 30,
+      partOfDay,
+      dayOfWeek: preferredDayIndex === -1 ? null : preferredDayIndex,
+    };
+
+    if (request.kind !== 'exact') {
+      // A day, part of a day or "earliest": offer open times inside what the caller asked for
+      const searchDays = Math.ceil((request.end.getTime() - request.start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      const openSlots = await offer(await findOpenSlots(request.start, {
+        ...availabilityOptions,
+        ...constraints,
+        timeWindow: request.timeWindow,
+        until: request.end,
+        searchDays,
+      }));
+      log('Open slots found in requested range', { count: openSlots.length, appointmentType: appointmentType?.name ?? null });
+
+      if (openSlots.length > 0) {
+        const times = openSlots.map(slot => formatSpokenDateTime(slot.start, timeZone));
+        return { result: `Open times for ${request.description}: ${times.join(', ')}` };
+      }
+
+      const laterSlots = await offer(await findOpenSlots(request.end, { ...availabilityOptions, ...constraints }));
+      const alternatives = laterSlots.map(slot => formatSpokenDateTime(slot.start, timeZone));
+      return {
+        result: alternatives.length > 0
+          ? `Nothing is open for ${request.description}. The next open times are ${alternatives.join(', ')}`
+          : `Nothing is open for ${request.description}, and I couldn't find another open time in the following month.`,
+      };
+    }
+
+    const requestedTime = request.start;
+    const formattedTime = formatSpokenDateTime(requestedTime, timeZone);
+
+    // Business hours, closures, provider schedules and overlapping appointments
+    const availability = await checkAppointmentAvailability(requestedTime, availabilityOptions);
+
+    log('Availability check', {
+      organizationId,
+      appointmentType: appointmentType?.name ?? null,
+      provider: provider?.name ?? null,
+      valid: availability.valid,
+      reason: availability.message,
+      conflicts: availability.conflicts.length,
+    });
+
+    if (availability.valid && (await offer([{ start: requestedTime }])).length > 0) {
+      return { result: `Yes ${formattedTime} is available` };
+    }
+
+    // Offer the earliest genuinely free slots after the requested time, honouring the caller's constraints
+    const openSlots = await offer(await findOpenSlots(requestedTime, { ...availabilityOptions, ...constraints }));
+    const alternatives = openSlots.map(slot => formatSpokenDateTime(slot.start, timeZone));
+    log('Open slots found', { count: openSlots.length });
+
+    const reason = availability.message ? ` ${availability.message}` : '';
+    return {
+      result: alternatives.length > 0
+        ? `No ${formattedTime} is not available.${reason} The next open times are ${alternatives.join(', ')}`
+        : `No ${formattedTime} is not available.${reason} I couldn't find another open time in the next month.`,
+    };
+  },
+});
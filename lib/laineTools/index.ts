@@ -0,0 +1,16 @@
+import type { ToolRegistry } from '@/lib/vapiToolCalls';
+import { bookAppointmentTool } from './bookAppointment';
+import { cancelAppointmentTool } from './cancelAppointment';
+import { checkAvailabilityTool } from './checkAvailability';
+import { lookupPatientTool } from './lookupPatient';
+import { rescheduleAppointmentTool } from './rescheduleAppointment';
+
+// Every tool the laine assistant can call. Register new tools here; the name must
+// match the function name configured in Vapi (case and punctuation are ignored).
+export const laineTools: ToolRegistry = {
+  checkAvailability: checkAvailabilityTool,
+  bookAppointment: bookAppointmentTool,
+  lookupPatient: lookupPatientTool,
+  cancelAppointment: cancelAppointmentTool,
+  rescheduleAppointment: rescheduleAppointmentTool,
+};
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { parseDateOfBirth, searchPatients } from '@/lib/patientSearch';
+import { defineToolHandler } from '@/lib/vapiToolCalls';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('lookup-patient');
+
+// Every detail is optional; the caller's own number is used when no phone number is given
+const LookupPatientArgsSchema = z.object({
+  phoneNumber: z.string().trim().optional().catch(undefined),
+  name: z.string().trim().optional().catch(undefined),
+  dateOfBirth: z.string().trim().optional().catch(undefined),
+  email: z.string().trim().optional().catch(undefined),
+});
+
+/**
+ * Identifies the caller before booking. Nothing from the record is read back to
+ * the assistant until at least two independent details agree with it, so whoever
+ * holds a patient's phone cannot learn their name or date of birth.
+ */
+export const lookupPatientTool = defineToolHandler({
+  schema: LookupPatientArgsSchema,
+  async handle({ phoneNumber, name, dateOfBirth: dateOfBirthText, email }, { call, organization }) {
+    const phone = phoneNumber || call?.customer?.number || null;
+    const dateOfBirth = dateOfBirthText ? parseDateOfBirth(dateOfBirthText) : null;
+    if (dateOfBirthText && !dateOfBirth) {
+      return { error: `Could not understand the date of birth "${dateOfBirthText}". Ask the caller to repeat it as month, day and year.` };
+    }
+    if (!phone && !email && !(name && dateOfBirth)) {
+      return { error: 'Ask the caller for their phone number, email, or full name and date of birth, then look them up again.' };
+    }
+
+    const matches = await searchPatients({ phone, email, name, dateOfBirth, organizationId: organization.id });
+    const confirmed = matches.filter(match => match.matchedOn.length >= 2);
+    log('Lookup finished', {
+      usedCallerNumber: !phoneNumber && Boolean(phone),
+      candidates: matches.length,
+      confirmed: confirmed.length,
+    });
+
+    if (confirmed.length === 1) {
+      const { patient, matchedOn } = confirmed[0];
+      return {
+        result: `Found the patient record (matched on ${matchedOn.join(', ')}). Greet the caller as ${patient.firstName}. When booking, cancelling or rescheduling, pass patientId "${patient.id}" instead of their name and email.`,
+      };
+    }
+    if (confirmed.length > 1) {
+      return {
+        result: dateOfBirth
+          ? 'Several patient records match these details. Do not pick one; take the caller\'s name and number so staff can call them back.'
+          : 'Several patient records match. Ask the caller for their date of birth, then look them up again including it.',
+      };
+    }
+    if (matches.length > 0) {
+      // Something matched, but one detail on its own is not enough to share the record
+      return {
+        result: 'A possible patient record was found but is not confirmed. Do not read out any details. Ask the caller for their full name and date of birth, then look them up again including them.',
+      };
+    }
+    return {
+      result: 'No patient record matches. Treat the caller as a new patient and collect their full name and email to book.',
+    };
+  },
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { prisma, selectCallerAppointment } = vi.hoisted(() => ({
+  prisma: {
+    organization: { findUnique: vi.fn() },
+    businessHours: { findMany: vi.fn() },
+    scheduleClosure: { findMany: vi.fn() },
+    user: { findMany: vi.fn() },
+    appointment: { findMany: vi.fn(), update: vi.fn() },
+    slotHold: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+  selectCallerAppointment: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+vi.mock('./callerAppointments', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./callerAppointments')>(),
+  selectCallerAppointment,
+}));
+
+import { rescheduleAppointmentTool } from '@/lib/laineTools/rescheduleAppointment';
+import type { ToolCallContext } from '@/lib/vapiToolCalls';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const start = new Date(Date.now() + 7 * 24 * HOUR_MS);
+start.setUTCHours(15, 0, 0, 0);
+const newStart = new Date(start.getTime() + 24 * HOUR_MS);
+
+const appointment = {
+  id: 'appt-1',
+  date: start,
+  endTime: new Date(start.getTime() + HOUR_MS),
+  providerId: 'dr-a',
+  operatoryId: 'chair-1',
+  notes: null,
+  appointmentType: null,
+};
+
+const context = {
+  scope: 'test',
+  call: null,
+  request: new Request('https://example.test/api/laine/reschedule'),
+  organization: { id: 'org-1', name: 'Practice', timezone: 'America/Chicago' },
+  assistant: null,
+} as ToolCallContext;
+
+describe('rescheduleAppointmentTool', () => {
+  beforeEach(() => {
+    prisma.organization.findUnique.mockResolvedValue({ timezone: 'America/Chicago' });
+    prisma.businessHours.findMany.mockResolvedValue([]);
+    prisma.scheduleClosure.findMany.mockResolvedValue([]);
+    // Another dentist is free, so only the chair stands in the way
+    prisma.user.findMany.mockResolvedValue([{ id: 'dr-a', schedules: [] }, { id: 'dr-b', schedules: [] }]);
+    prisma.slotHold.findMany.mockResolvedValue([]);
+    prisma.appointment.findMany.mockResolvedValue([]);
+    prisma.appointment.update.mockReset();
+    prisma.$transaction.mockReset();
+    selectCallerAppointment.mockResolvedValue({ appointment });
+  });
+
+  it("refuses a new time when the visit's chair is taken", async () => {
+    prisma.appointment.findMany.mockResolvedValue([{
+      id: 'appt-2',
+      date: newStart,
+      endTime: new Date(newStart.getTime() + HOUR_MS),
+      providerId: 'dr-b',
+      operatoryId: 'chair-1',
+    }]);
+
+    const response = await rescheduleAppointmentTool(
+      { appointmentId: 'appt-1', newStart: newStart.toISOString(), confirmed: true },
+      context
+    );
+
+    expect(response).toMatchObject({ result: expect.stringContaining('That chair is already booked at that time.') });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(prisma.appointment.update).not.toHaveBeenCalled();
+  });
+
+  it('offers the new time when the chair is free', async () => {
+    const response = await rescheduleAppointmentTool(
+      { appointmentId: 'appt-1', newStart: newStart.toISOString() },
+      context
+    );
+
+    expect(response).toMatchObject({ result: expect.stringContaining('is available') });
+  });
+});
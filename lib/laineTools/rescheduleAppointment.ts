@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { formatSpokenDateTime } from '@/lib/dates';
+import { MIN_DATE_CONFIDENCE, parseDateRequest } from '@/lib/dateParser';
+import { bookSlot, holdSlots } from '@/lib/booking';
+import { checkAppointmentAvailability, DEFAULT_APPOINTMENT_MINUTES } from '@/lib/scheduling';
+import { findOpenSlots } from '@/lib/slotSearch';
+import { defineToolHandler } from '@/lib/vapiToolCalls';
+import {
+  ConfirmedSchema,
+  describeAppointment,
+  flagLateChange,
+  hoursUntil,
+  LATE_CHANGE_NOTICE_HOURS,
+  selectCallerAppointment,
+} from './callerAppointments';
+import { assistantActor, recordAuditEvent } from '@/lib/audit';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('reschedule-appointment');
+
+const RescheduleAppointmentArgsSchema = z.object({
+  patientId: z.string().trim().min(1).optional().catch(undefined), // From lookupPatient
+  appointmentId: z.string().trim().min(1).optional().catch(undefined),
+  newStart: z.string().trim().optional().catch(undefined), // ISO 8601 or the caller's words, e.g. "Friday at 3pm"
+  // Only move once the caller has said yes to the specific new time
+  confirmed: ConfirmedSchema,
+});
+
+export const rescheduleAppointmentTool = defineToolHandler({
+  schema: RescheduleAppointmentArgsSchema,
+  async handle({ patientId, appointmentId, newStart, confirmed }, { call, organization, assistant }) {
+    const organizationId = organization.id;
+    const timeZone = organization.timezone;
+
+    const selection = await selectCallerAppointment({ patientId, appointmentId, call, organizationId, timeZone, action: 'reschedule' });
+    if ('response' in selection) return selection.response;
+    const { appointment } = selection;
+
+    if (!newStart) {
+      return { result: `Ask the caller when they would like to move their ${describeAppointment(appointment, timeZone)} to, then check availability.` };
+    }
+    const request = parseDateRequest(newStart, { timeZone });
+    if (!request || request.confidence < MIN_DATE_CONFIDENCE) {
+      const question = request?.clarification
+        ?? `I couldn't tell which day or time "${newStart}" means. Ask the caller when they would like to come in instead.`;
+      return { result: `${question} Then try again.` };
+    }
+    if (request.kind !== 'exact') {
+      return {
+        result: `"${newStart}" means ${request.description}, not a specific time. Use checkAvailability to find open times, agree one with the caller, then call again with it as newStart.`,
+      };
+    }
+    const newDate = request.start;
+
+    // Same visit length as booked (a visit given extra time keeps it) and, where possible, the same
+    // provider, in the same chair; the type's default length is only used when the booked end is unusable.
+    // The visit itself is not an overlap
+    const bookedMinutes = Math.round((appointment.endTime.getTime() - appointment.date.getTime()) / 60000);
+    const durationMinutes = bookedMinutes > 0
+      ? bookedMinutes
+      : appointment.appointmentType?.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+    const availabilityOptions = {
+      organizationId,
+      providerId: appointment.providerId,
+      providerRole: appointment.appointmentType?.requiredRole,
+      durationMinutes,
+      excludeAppointmentId: appointment.id,
+      operatoryId: appointment.operatoryId,
+      holdOwner: call?.id ?? null,
+    };
+    const availability = await checkAppointmentAvailability(newDate, availabilityOptions);
+
+    if (!availability.valid) {
+      const foundSlots = await findOpenSlots(newDate, { ...availabilityOptions, count: 3, stepMinutes: 30 });
+      const openSlots = call?.id && foundSlots.length > 0 ? await holdSlots(call.id, foundSlots, availabilityOptions) : foundSlots;
+      const alternatives = openSlots.map(slot => formatSpokenDateTime(slot.start, timeZone));
+      log('Requested time is not available', { appointmentId: appointment.id, reason: availability.message });
+      const reason = availability.message ? ` ${availability.message}` : '';
+      return {
+        result: alternatives.length > 0
+          ? `${formatSpokenDateTime(newDate, timeZone)} is not available.${reason} The next open times are ${alternatives.join(', ')}`
+          : `${formatSpokenDateTime(newDate, timeZone)} is not available.${reason} I couldn't find another open time in the next month.`,
+      };
+    }
+
+    if (!confirmed) {
+      return {
+        result: `${formatSpokenDateTime(newDate, timeZone)} is available. Ask the caller to confirm moving their ${describeAppointment(appointment, timeZone)} to then. If they agree, call again with this appointmentId, newStart and confirmed set to true.`,
+      };
+    }
+
+    // Re-checked under the booking lock in case the time was taken since it was offered
+    const booking = await bookSlot(newDate, availabilityOptions, async (tx, slot) => {
+      const updated = await tx.appointment.update({
+        where: { id: appointment.id },
+        data: {
+          date: newDate,
+          endTime: slot.end,
+          providerId: slot.providerId,
+          notes: [appointment.notes, `Moved from ${appointment.date.toISOString()} by the patient via voice assistant.`].filter(Boolean).join('\n'),
+        },
+      });
+      await recordAuditEvent(organizationId, assistantActor({ call, assistant }), {
+        entityType: 'Appointment',
+        entityId: appointment.id,
+        action: 'reschedule',
+        before: appointment,
+        after: updated,
+      }, tx);
+      return updated;
+    });
+    if (!booking.booked) {
+      return { error: `Sorry, ${formatSpokenDateTime(newDate, timeZone)} was just taken. ${booking.availability.message} Please check availability for another time.` };
+    }
+    log('Appointment rescheduled', { appointmentId: appointment.id, from: appointment.date.toISOString(), to: newDate.toISOString() });
+
+    const confirmation = `Okay, I've moved the appointment to ${formatSpokenDateTime(newDate, timeZone)}.`;
+    if (hoursUntil(appointment.date) < LATE_CHANGE_NOTICE_HOURS) {
+      const task = await flagLateChange(appointment, 'reschedule', { callId: call?.id, organizationId, timeZone });
+      log('Late reschedule flagged for the front desk', { appointmentId: appointment.id, taskId: task?.id ?? null });
+      return {
+        result: `${confirmation} Because the original visit was less than ${LATE_CHANGE_NOTICE_HOURS} hours away, let the caller know the front desk may follow up about the late change policy.`,
+      };
+    }
+
+    return { result: confirmation };
+  },
+});
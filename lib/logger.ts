@@ -0,0 +1,44 @@
+export type LogValue = string | number | boolean | null | undefined | Date | readonly (string | number)[];
+
+/**
+ * Ids, counts, flags and short system messages that help follow a request.
+ * Pick these out rather than passing a record, request body or API response:
+ * those carry patient details and transcripts, which have no place in the logs.
+ */
+export type LogDetails = Record<string, LogValue>;
+
+export type Logger = (message: string, details?: LogDetails) => void;
+
+// Anything longer is more likely free text than an identifier or a status
+const MAX_STRING_LENGTH = 200;
+
+// Only the message of a caught error is logged, not whatever else it carries
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatValue(value: LogValue): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`;
+  }
+  return value;
+}
+
+/**
+ * Returns a logger writing one line per entry, as `[timestamp] [scope] message`
+ * followed by the details as compact JSON.
+ */
+export function createLogger(scope: string): Logger {
+  return (message, details) => {
+    const line = `[${new Date().toISOString()}] [${scope}] ${message}`;
+    if (!details) {
+      console.log(line);
+      return;
+    }
+    const formatted = Object.fromEntries(
+      Object.entries(details).map(([key, value]) => [key, formatValue(value)])
+    );
+    console.log(`${line} ${JSON.stringify(formatted)}`);
+  };
+}
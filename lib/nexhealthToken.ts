@@ -0,0 +1,23 @@
+import type { NextRequest, NextResponse } from 'next/server';
+
+// The NexHealth bearer token obtained by /api/nexhealth/test-connection. It
+// stays in an httpOnly cookie scoped to the NexHealth routes so the browser
+// never gets to read it.
+const NEXHEALTH_TOKEN_COOKIE = 'laine-nexhealth-token';
+
+// NexHealth tokens are valid for an hour; give up on ours a little earlier
+const NEXHEALTH_TOKEN_MAX_AGE_SECONDS = 55 * 60;
+
+export function setNexhealthTokenCookie(response: NextResponse, token: string) {
+  response.cookies.set(NEXHEALTH_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/nexhealth',
+    maxAge: NEXHEALTH_TOKEN_MAX_AGE_SECONDS,
+  });
+}
+
+export function readNexhealthToken(request: NextRequest): string | null {
+  return request.cookies.get(NEXHEALTH_TOKEN_COOKIE)?.value || null;
+}
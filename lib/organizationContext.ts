@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import type { Assistant, Organization } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getRequestUser } from '@/lib/auth';
+import { findAssistantForCall, findOrganizationAssistant } from '@/lib/assistants';
+import type { InboundCallIdentity } from '@/lib/assistants';
+import { createLogger } from '@/lib/logger';
+
+export type OrganizationContext = Pick<Organization, 'id' | 'name' | 'timezone'>;
+
+const organizationSelect = { id: true, name: true, timezone: true } as const;
+
+const log = createLogger('organization-context');
+
+/**
+ * The practice to fall back on when nothing names one: only a deployment with
+ * exactly one organization has an unambiguous answer. With two or more, a
+ * request that doesn't say which practice it is for gets nothing rather than
+ * another practice's data.
+ */
+export async function soleOrganization(): Promise<OrganizationContext | null> {
+  const organizations = await prisma.organization.findMany({ select: organizationSelect, take: 2 });
+  return organizations.length === 1 ? organizations[0] : null;
+}
+
+export async function findOrganization(id: string | null | undefined): Promise<OrganizationContext | null> {
+  if (!id) return null;
+  return prisma.organization.findUnique({ where: { id }, select: organizationSelect });
+}
+
+// Organization a dashboard API request acts for: the signed-in staff member's practice
+export async function resolveRequestOrganization(request: Request): Promise<OrganizationContext | null> {
+  const user = await getRequestUser(request);
+  if (!user) return null;
+  if (!user.organizationId) {
+    log('Signed-in user has no organization', { userId: user.id });
+    return null;
+  }
+  return findOrganization(user.organizationId);
+}
+
+export interface CallOrganization {
+  organization: OrganizationContext;
+  // The practice's assistant that answered, when it is registered
+  assistant: Assistant | null;
+}
+
+/**
+ * Practice a Vapi call is handled for: the one its assistant is registered to
+ * (in that assistant's time zone, if it has its own), or, for assistants not
+ * registered yet, the only practice there is.
+ */
+export async function resolveCallOrganization(call: InboundCallIdentity | null): Promise<CallOrganization | null> {
+  const found = await findAssistantForCall(call);
+  if (found) {
+    const { organization, ...assistant } = found;
+    return {
+      organization: { ...organization, timezone: assistant.timezone ?? organization.timezone },
+      assistant,
+    };
+  }
+
+  const organization = await soleOrganization();
+  if (call?.assistantId) {
+    log('Call from an unregistered assistant', { assistantId: call.assistantId, fallback: organization?.id ?? null });
+  }
+  return organization ? { organization, assistant: null } : null;
+}
+
+/**
+ * For dashboard routes acting on a Vapi assistant named by the client: the
+ * assistant, if it is registered to the request's practice, else the response
+ * to send instead.
+ */
+export async function resolveRequestAssistant(
+  request: Request,
+  vapiAssistantId: string,
+  headers?: HeadersInit
+): Promise<{ assistant: Assistant } | { response: NextResponse }> {
+  const organization = await resolveRequestOrganization(request);
+  if (!organization) return { response: organizationRequiredResponse(headers) };
+  const assistant = await findOrganizationAssistant(organization.id, vapiAssistantId);
+  if (!assistant) {
+    return { response: NextResponse.json({ error: 'Assistant not found' }, { status: 404, headers }) };
+  }
+  return { assistant };
+}
+
+export function organizationRequiredResponse(headers?: HeadersInit) {
+  return NextResponse.json(
+    { error: 'Sign in with a staff account that belongs to a practice.' },
+    { status: 401, headers }
+  );
+}
+
+// Models carrying an organizationId column; every query on them is confined to one practice
+const ORGANIZATION_SCOPED_MODELS = new Set(
+  Prisma.dmmf.datamodel.models
+    .filter(model => model.fields.some(field => field.name === 'organizationId'))
+    .map(model => model.name)
+);
+
+const WHERE_OPERATIONS = new Set([
+  'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow', 'findMany',
+  'count', 'aggregate', 'groupBy', 'update', 'updateMany', 'updateManyAndReturn',
+  'delete', 'deleteMany', 'upsert',
+]);
+
+type QueryArgs = Record<string, unknown> & { where?: object; data?: unknown; create?: unknown };
+
+// Creates that connect relations as objects must name the practice the same way
+function withOrganization(data: unknown, organizationId: string) {
+  const record = (data ?? {}) as Record<string, unknown>;
+  const usesRelationWrites = Object.values(record).some(value =>
+    value !== null && typeof value === 'object' && ['connect', 'create', 'connectOrCreate'].some(key => key in value)
+  );
+  if (usesRelationWrites) {
+    const rest = { ...record };
+    delete rest.organizationId;
+    return { ...rest, organization: { connect: { id: organizationId } } };
+  }
+  return { ...record, organizationId };
+}
+
+function scopeArgs(operation: string, args: QueryArgs, organizationId: string): QueryArgs {
+  const scoped = { ...args };
+  if (WHERE_OPERATIONS.has(operation)) {
+    scoped.where = { ...args.where, organizationId };
+  }
+  if (operation === 'create') {
+    scoped.data = withOrganization(args.data, organizationId);
+  }
+  if (operation === 'createMany' || operation === 'createManyAndReturn') {
+    scoped.data = Array.isArray(args.data)
+      ? args.data.map(row => ({ ...row, organizationId }))
+      : { ...(args.data as object), organizationId };
+  }
+  if (operation === 'upsert') {
+    scoped.create = withOrganization(args.create, organizationId);
+  }
+  return scoped;
+}
+
+/**
+ * A Prisma client that can only see and write one practice's rows: filters are
+ * added to every read, update and delete on organization-owned models, and
+ * creates are stamped with the organization. Use it for everything a request
+ * does on behalf of a practice.
+ */
+export function scopedPrisma(organizationId: string) {
+  return prisma.$extends({
+    name: 'organizationScope',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!ORGANIZATION_SCOPED_MODELS.has(model)) return query(args);
+          return query(scopeArgs(operation, args as QueryArgs, organizationId) as typeof args);
+        },
+      },
+    },
+  });
+}
+
+export type ScopedPrisma = ReturnType<typeof scopedPrisma>;
@@ -0,0 +1,127 @@
+import type { Patient } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { findPatientsByPhone } from '@/lib/callerId';
+
+// Names at least this similar (0..1) are treated as the same person, e.g. "Jon Smyth" vs "John Smith"
+const NAME_MATCH_THRESHOLD = 0.75;
+
+export type PatientMatchField = 'phone' | 'email' | 'name' | 'dateOfBirth';
+
+export interface PatientSearchCriteria {
+  phone?: string | null;
+  email?: string | null;
+  name?: string | null;
+  dateOfBirth?: Date | null;
+  organizationId: string;
+}
+
+export interface PatientMatch {
+  patient: Patient;
+  // Which of the given details agree with the record
+  matchedOn: PatientMatchField[];
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How alike a spoken or typed name is to a patient's, from 0 to 1. Word order is
+ * ignored and each word tolerates small misspellings, so transcription slips like
+ * "Katherine Jonson" still match "Catherine Johnson".
+ */
+export function nameSimilarity(given: string, patient: Pick<Patient, 'firstName' | 'lastName'>): number {
+  const givenWords = normalizeName(given).split(' ').filter(Boolean);
+  const patientWords = normalizeName(`${patient.firstName} ${patient.lastName}`).split(' ').filter(Boolean);
+  if (givenWords.length === 0 || patientWords.length === 0) return 0;
+
+  const wordScore = (word: string) => Math.max(...patientWords.map(candidate => {
+    const longest = Math.max(word.length, candidate.length);
+    return 1 - levenshtein(word, candidate) / longest;
+  }));
+  const total = givenWords.reduce((sum, word) => sum + wordScore(word), 0);
+  return total / givenWords.length;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a date of birth as a calendar day stored at UTC midnight, matching how
+ * patient records keep it. Accepts ISO dates and anything Date can parse
+ * ("May 15 1985"). Returns null for unreadable input.
+ */
+export function parseDateOfBirth(raw: string): Date | null {
+  const iso = raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    const date = new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+}
+
+/**
+ * Finds patients matching any of the given details and reports which details
+ * agree with each record. Candidates come from phone, email, or date of birth;
+ * a name alone is never enough to pull a record and only narrows the others.
+ */
+export async function searchPatients({ phone, email, name, dateOfBirth, organizationId }: PatientSearchCriteria): Promise<PatientMatch[]> {
+  const candidates = new Map<string, Patient>();
+
+  const byPhone = phone ? await findPatientsByPhone(phone, organizationId) : [];
+  for (const patient of byPhone) candidates.set(patient.id, patient);
+
+  if (email) {
+    const byEmail = await prisma.patient.findMany({
+      where: { email: { equals: email.trim(), mode: 'insensitive' }, organizationId },
+    });
+    for (const patient of byEmail) candidates.set(patient.id, patient);
+  }
+  if (dateOfBirth && name) {
+    const nextDay = new Date(dateOfBirth.getTime() + 24 * 60 * 60 * 1000);
+    const byBirthday = await prisma.patient.findMany({
+      where: { dateOfBirth: { gte: dateOfBirth, lt: nextDay }, organizationId },
+    });
+    for (const patient of byBirthday) candidates.set(patient.id, patient);
+  }
+
+  const phoneMatches = new Set(byPhone.map(patient => patient.id));
+
+  return [...candidates.values()]
+    .map(patient => {
+      const matchedOn: PatientMatchField[] = [];
+      if (phoneMatches.has(patient.id)) matchedOn.push('phone');
+      if (email && patient.email?.toLowerCase() === email.trim().toLowerCase()) matchedOn.push('email');
+      if (name && nameSimilarity(name, patient) >= NAME_MATCH_THRESHOLD) matchedOn.push('name');
+      if (dateOfBirth && patient.dateOfBirth && isSameDay(patient.dateOfBirth, dateOfBirth)) matchedOn.push('dateOfBirth');
+      return { patient, matchedOn };
+    })
+    // A birthday shared with a differently named patient is not a match
+    .filter(match => match.matchedOn.some(field => field !== 'dateOfBirth'))
+    .sort((a, b) => b.matchedOn.length - a.matchedOn.length);
+}
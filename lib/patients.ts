@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { patientPhoneFields } from '@/lib/phone';
+import { parseDateOfBirth } from '@/lib/patientSearch';
+import type { ScopedPrisma } from '@/lib/organizationContext';
+import { recordAuditEvent } from '@/lib/audit';
+import type { AuditActor } from '@/lib/audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Body of PUT /api/patients/[id]; any subset of the fields may be sent
+export const PatientUpdateSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').optional(),
+  lastName: z.string().trim().min(1, 'Last name is required').optional(),
+  email: z.string().trim().email('Invalid email').nullable().optional().or(z.literal('').transform(() => null)),
+  phoneNumber: z.string().trim().nullable().optional(),
+  dateOfBirth: z.string().refine(value => parseDateOfBirth(value) !== null, 'Invalid date of birth').nullable().optional(),
+  // The patient's responsible provider
+  userId: z.string().min(1).optional(),
+});
+
+export type PatientUpdate = z.infer<typeof PatientUpdateSchema>;
+
+export function patientUpdateData(update: PatientUpdate): Prisma.PatientUncheckedUpdateInput {
+  return {
+    ...(update.firstName !== undefined && { firstName: update.firstName }),
+    ...(update.lastName !== undefined && { lastName: update.lastName }),
+    ...(update.email !== undefined && { email: update.email }),
+    ...(update.phoneNumber !== undefined && patientPhoneFields(update.phoneNumber)),
+    ...(update.dateOfBirth !== undefined && {
+      dateOfBirth: update.dateOfBirth ? parseDateOfBirth(update.dateOfBirth) : null,
+    }),
+    ...(update.userId !== undefined && { userId: update.userId }),
+  };
+}
+
+/**
+ * Filter for the patient list search box. Every word typed must appear in the
+ * first name, last name or email; a search with digits and no letters also
+ * matches phone numbers.
+ * A date of birth, when given, must match exactly.
+ */
+export function patientSearchWhere(search?: string, dateOfBirth?: Date | null): Prisma.PatientWhereInput {
+  const words = (search ?? '').split(/\s+/).filter(Boolean);
+  const digits = (search ?? '').replace(/\D/g, '');
+  const looksLikePhone = digits.length >= 3 && !/[a-z]/i.test(search ?? '');
+  const byWords: Prisma.PatientWhereInput[] = words.map(word => ({
+    OR: [
+      { firstName: { contains: word, mode: 'insensitive' } },
+      { lastName: { contains: word, mode: 'insensitive' } },
+      { email: { contains: word, mode: 'insensitive' } },
+    ],
+  }));
+
+  const filters: Prisma.PatientWhereInput[] = [];
+  if (words.length > 0) {
+    // Phone numbers are typed with all sorts of punctuation, so they're matched on digits alone
+    filters.push(looksLikePhone ? { OR: [{ AND: byWords }, { phoneE164: { contains: digits } }] } : { AND: byWords });
+  }
+  if (dateOfBirth) {
+    filters.push({ dateOfBirth: { gte: dateOfBirth, lt: new Date(dateOfBirth.getTime() + DAY_MS) } });
+  }
+  return filters.length > 0 ? { AND: filters } : {};
+}
+
+/**
+ * Folds a duplicate patient record into the one being kept: the duplicate's
+ * appointments, calls and tasks move over, details the kept record is missing
+ * are copied from it, and the duplicate is deleted. Runs in one transaction,
+ * audit events included, so a failure leaves both records as they were.
+ */
+export async function mergePatients(
+  db: ScopedPrisma,
+  organizationId: string,
+  actor: AuditActor,
+  patientId: string,
+  duplicateId: string
+) {
+  return db.$transaction(async (tx) => {
+    const patient = await tx.patient.findUniqueOrThrow({ where: { id: patientId } });
+    const duplicate = await tx.patient.findUniqueOrThrow({ where: { id: duplicateId } });
+
+    const moved = {
+      appointments: (await tx.appointment.updateMany({ where: { patientId: duplicateId }, data: { patientId } })).count,
+      callLogs: (await tx.callLog.updateMany({ where: { patientId: duplicateId }, data: { patientId } })).count,
+      tasks: (await tx.task.updateMany({ where: { patientId: duplicateId }, data: { patientId } })).count,
+    };
+
+    // Deleted first: its email must be free before the kept record can take it
+    await tx.patient.delete({ where: { id: duplicateId } });
+    const merged = await tx.patient.update({
+      where: { id: patientId },
+      data: {
+        email: patient.email ?? duplicate.email,
+        dateOfBirth: patient.dateOfBirth ?? duplicate.dateOfBirth,
+        ...(!patient.phoneNumber && duplicate.phoneNumber && patientPhoneFields(duplicate.phoneNumber)),
+      },
+    });
+
+    await recordAuditEvent(organizationId, actor, {
+      entityType: 'Patient',
+      entityId: patientId,
+      action: 'merge',
+      before: patient,
+      after: { ...merged, mergedPatientId: duplicateId },
+    }, tx);
+    await recordAuditEvent(organizationId, actor, {
+      entityType: 'Patient',
+      entityId: duplicateId,
+      action: 'merge',
+      before: duplicate,
+      after: { mergedIntoPatientId: patientId, ...moved },
+    }, tx);
+
+    return { merged, moved };
+  });
+}
@@ -0,0 +1,33 @@
+import type { Role } from '@prisma/client';
+
+// Which roles may do what. Used by route handlers to refuse requests and by
+// the sidebar to hide pages a role can't use, so it must stay free of server code.
+const ROLE_PERMISSIONS = {
+  // Assistants, their prompts and tools, and the knowledge topics they answer from
+  'assistant:manage': ['ADMIN'],
+  // Staff accounts and role responsibilities
+  'staff:manage': ['ADMIN', 'OFFICE_MANAGER'],
+  // Business hours, provider schedules, closures, appointment types and operatories
+  'schedule:manage': ['ADMIN', 'OFFICE_MANAGER'],
+  // Adding and editing patient records; every role can look patients up
+  'patient:write': ['ADMIN', 'OFFICE_MANAGER', 'RECEPTIONIST', 'DENTIST'],
+  // Deleting patient records and merging duplicates
+  'patient:manage': ['ADMIN', 'OFFICE_MANAGER', 'RECEPTIONIST'],
+  // Booking, editing, moving, cancelling and checking in or completing visits
+  'appointment:write': ['ADMIN', 'OFFICE_MANAGER', 'RECEPTIONIST', 'DENTIST'],
+  // Erasing appointment records; staff cancel visits instead, which keeps their history
+  'appointment:delete': ['ADMIN'],
+  // Adding tasks and running task generation for a call; anyone can work the tasks they are given
+  'task:create': ['ADMIN', 'OFFICE_MANAGER', 'RECEPTIONIST', 'DENTIST'],
+  // Practice management system connections
+  'integration:manage': ['ADMIN'],
+  // The audit log of who changed what
+  'audit:read': ['ADMIN'],
+  'clinical-notes:read': ['ADMIN', 'DENTIST', 'RECEPTIONIST', 'OFFICE_MANAGER'],
+} satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof ROLE_PERMISSIONS;
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[permission] as readonly Role[]).includes(role);
+}
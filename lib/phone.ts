@@ -0,0 +1,38 @@
+// Country calling code assumed for numbers given without one (North American Numbering Plan)
+const DEFAULT_COUNTRY_CODE = '1';
+
+/**
+ * Normalises a phone number as typed by staff or reported by telephony to E.164
+ * ("+15551112222"). Extensions are dropped. Returns null when the digits cannot
+ * form a plausible number, so callers never match on garbage.
+ */
+export function normalizePhoneNumber(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  const withoutExtension = raw.split(/\s*(?:ext\.?|x|#)\s*\d+\s*$/i)[0].trim();
+  const digits = withoutExtension.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (withoutExtension.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.startsWith('00')) {
+    const international = digits.slice(2);
+    return international.length >= 8 && international.length <= 15 ? `+${international}` : null;
+  }
+  if (digits.length === 10) {
+    return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return `+${digits}`;
+  }
+  return null;
+}
+
+// Phone columns for a Patient write: the number as given plus its normalised form for lookups
+export function patientPhoneFields(phoneNumber: string | null | undefined) {
+  return {
+    phoneNumber: phoneNumber || null,
+    phoneE164: normalizePhoneNumber(phoneNumber),
+  };
+}
@@ -1,11 +1,19 @@
 import { PrismaClient } from '@prisma/client'
+import type { Prisma } from '@prisma/client'
 
-const globalForPrisma = global as unknown as { prisma: PrismaClient }
-
-export const prisma =
-  globalForPrisma.prisma ||
-  new PrismaClient({
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+    // Never sent anywhere by accident; sign-in asks for it explicitly
+    omit: { user: { passwordHash: true } },
   })
+}
+
+const globalForPrisma = global as unknown as { prisma: ReturnType<typeof createPrismaClient> }
+
+export const prisma = globalForPrisma.prisma || createPrismaClient()
+
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
-if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma 
\ No newline at end of file
+// The shared client or an interactive transaction, for queries that may need to run inside one
+export type PrismaDb = typeof prisma | Prisma.TransactionClient
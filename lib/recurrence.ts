@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import type { RecurrenceFrequency } from '@prisma/client';
+import { addZonedDays, addZonedMonths } from '@/lib/dates';
+
+// Most visits one series may book; longer plans are booked as a new series later
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// `recurrence` on POST /api/appointments: repeat every `interval` weeks or months,
+// for `count` visits in all or until the `until` date
+export const RecurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(['WEEKLY', 'MONTHLY']),
+    interval: z.number().int().min(1).max(24).default(1),
+    count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+  })
+  .refine(rule => (rule.count === undefined) !== (rule.until === undefined), {
+    message: 'Give either a number of visits or an end date',
+  });
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
+// A rule as stored on AppointmentSeries or sent to the browser
+export interface StoredRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number | null;
+  until?: Date | string | null;
+}
+
+/**
+ * Start times of every visit in a series beginning at `first`, keeping its
+ * practice wall-clock time across daylight saving changes. Stops at the
+ * rule's count or end date, or one past MAX_SERIES_OCCURRENCES so callers
+ * can tell an end date is too far out.
+ */
+export function occurrenceStarts(first: Date, rule: StoredRecurrenceRule, timeZone: string): Date[] {
+  const until = rule.until ? new Date(rule.until) : null;
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES + 1;
+  const starts: Date[] = [];
+  for (let index = 0; starts.length < limit; index++) {
+    const start = rule.frequency === 'WEEKLY'
+      ? addZonedDays(first, 7 * rule.interval * index, timeZone)
+      : addZonedMonths(first, rule.interval * index, timeZone);
+    if (until && start > until) break;
+    starts.push(start);
+  }
+  return starts;
+}
+
+// "Every 6 months, 4 visits" or "Every week until 3/1/2027"
+export function describeRecurrence(rule: StoredRecurrenceRule): string {
+  const unit = rule.frequency === 'WEEKLY' ? 'week' : 'month';
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  if (rule.count) return `${every}, ${rule.count} visits`;
+  if (rule.until) return `${every} until ${new Date(rule.until).toLocaleDateString()}`;
+  return every;
+}
@@ -0,0 +1,324 @@
+import { prisma } from '@/lib/prisma';
+import type { PrismaDb } from '@/lib/prisma';
+import { AppointmentStatus, Role } from '@prisma/client';
+import type { Appointment, BusinessHours, ProviderSchedule, ScheduleClosure, SlotHold } from '@prisma/client';
+import { DEFAULT_TIMEZONE, minutesIntoZonedDay, zonedDayOfWeek } from '@/lib/dates';
+
+export const DAYS_OF_WEEK = [
+  'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'
+];
+
+// Length assumed for a visit when the caller does not know it yet
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+// "HH:mm" (24h) as stored on BusinessHours / ProviderSchedule
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface ScheduleCheckResult {
+  valid: boolean;
+  message?: string;
+  // Providers who are working and not on a break or time off for the whole interval
+  providerIds: string[];
+}
+
+interface ScheduleCheckOptions {
+  organizationId?: string | null;
+  providerId?: string | null;
+  // Only providers with this role are considered, e.g. from AppointmentType.requiredRole
+  providerRole?: Role | null;
+  durationMinutes?: number;
+}
+
+export interface AvailabilityCheckOptions extends ScheduleCheckOptions {
+  // Ignore this appointment when looking for overlaps, e.g. when moving it
+  excludeAppointmentId?: string;
+  // Ignore these too, e.g. every visit of a series being moved together
+  excludeAppointmentIds?: string[];
+  // Slots held for this owner (a Vapi call id) are free to them; everyone else's holds are busy
+  holdOwner?: string | null;
+  // Chair the visit is booked into; it must be free for the whole visit too
+  operatoryId?: string | null;
+}
+
+export interface AvailabilityResult extends ScheduleCheckResult {
+  end: Date;
+  conflicts: Pick<Appointment, 'id' | 'date' | 'endTime' | 'providerId' | 'operatoryId'>[];
+}
+
+// Everything needed to answer availability questions for a time range without further queries
+export interface ScheduleContext {
+  // Hours and schedules are wall-clock times in this zone
+  timeZone: string;
+  businessHours: BusinessHours[];
+  closures: ScheduleClosure[];
+  providers: { id: string; schedules: ProviderSchedule[] }[];
+  appointments: Pick<Appointment, 'id' | 'date' | 'endTime' | 'providerId' | 'operatoryId'>[];
+  // Unexpired holds placed for other callers
+  holds: Pick<SlotHold, 'id' | 'start' | 'end' | 'providerId'>[];
+}
+
+// Convert "HH:mm" to minutes since midnight
+export function parseTimeOfDay(value: string): number {
+  const match = TIME_OF_DAY_REGEX.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+  return Number.parseInt(match[1], 10) * 60 + Number.parseInt(match[2], 10);
+}
+
+// Convert "HH:mm" to a spoken-friendly "9:30 AM"
+export function formatTimeOfDay(value: string): string {
+  const minutes = parseTimeOfDay(value);
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+function withinWindow(startMinute: number, endMinute: number, open: string, close: string): boolean {
+  return startMinute >= parseTimeOfDay(open) && endMinute <= parseTimeOfDay(close);
+}
+
+function overlapsLunch(startMinute: number, endMinute: number, schedule: ProviderSchedule): boolean {
+  if (!schedule.lunchStart || !schedule.lunchEnd) return false;
+  return startMinute < parseTimeOfDay(schedule.lunchEnd) && endMinute > parseTimeOfDay(schedule.lunchStart);
+}
+
+// Two intervals overlap when each starts before the other ends; touching edges do not
+export function intervalsOverlap(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA < endB && endA > startB;
+}
+
+// Human readable opening hours for a day, used when re-offering times to callers
+export function describeBusinessHours(dayOfWeek: number, hours: BusinessHours[]): string {
+  const day = hours.find(h => h.dayOfWeek === dayOfWeek);
+  if (!day) {
+    return `We're closed on ${DAYS_OF_WEEK[dayOfWeek]}s.`;
+  }
+  return `Our hours on ${DAYS_OF_WEEK[dayOfWeek]} are ${formatTimeOfDay(day.openTime)} to ${formatTimeOfDay(day.closeTime)}.`;
+}
+
+// The zone a practice's schedule is kept in; practices not found use the default
+export async function getPracticeTimeZone(
+  organizationId?: string | null,
+  db: PrismaDb = prisma
+): Promise<string> {
+  if (!organizationId) return DEFAULT_TIMEZONE;
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+  return organization?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Loads business hours, closures, provider schedules and non-cancelled
+ * appointments touching [rangeStart, rangeEnd) in one round of queries.
+ * Pass the transaction as `db` when checking under the booking lock.
+ */
+export async function loadScheduleContext(
+  rangeStart: Date,
+  rangeEnd: Date,
+  { organizationId, providerId, providerRole, excludeAppointmentId, excludeAppointmentIds, holdOwner }: AvailabilityCheckOptions = {},
+  db: PrismaDb = prisma
+): Promise<ScheduleContext> {
+  const [timeZone, businessHours, closures, providers, appointments, holds] = await Promise.all([
+    getPracticeTimeZone(organizationId, db),
+    organizationId
+      ? db.businessHours.findMany({ where: { organizationId } })
+      : Promise.resolve<BusinessHours[]>([]),
+    organizationId
+      ? db.scheduleClosure.findMany({
+          where: { organizationId, startsAt: { lt: rangeEnd }, endsAt: { gt: rangeStart } },
+        })
+      : Promise.resolve<ScheduleClosure[]>([]),
+    db.user.findMany({
+      where: {
+        role: providerRole ?? Role.DENTIST,
+        ...(organizationId && { organizationId }),
+        ...(providerId && { id: providerId }),
+      },
+      select: { id: true, schedules: true },
+      orderBy: { createdAt: 'asc' },
+    }),
+    findOverlappingAppointments(rangeStart, rangeEnd, { organizationId, excludeAppointmentId, excludeAppointmentIds }, db),
+    db.slotHold.findMany({
+      where: {
+        start: { lt: rangeEnd },
+        end: { gt: rangeStart },
+        expiresAt: { gt: new Date() },
+        ...(organizationId && { organizationId }),
+        ...(holdOwner && { owner: { not: holdOwner } }),
+      },
+      select: { id: true, start: true, end: true, providerId: true },
+    }),
+  ]);
+
+  return { timeZone, businessHours, closures, providers, appointments, holds };
+}
+
+/**
+ * Checks a proposed appointment interval against the practice's business hours,
+ * closures, and each provider's working schedule, lunch break and time off.
+ * Practices that have not configured any hours are treated as always open, and
+ * providers without a schedule are assumed to work the practice's hours.
+ */
+export function evaluateSchedule(
+  context: ScheduleContext,
+  start: Date,
+  durationMinutes: number,
+  providerId?: string | null
+): ScheduleCheckResult {
+  const end = new Date(start.getTime() + durationMinutes * 60000);
+  const dayOfWeek = zonedDayOfWeek(start, context.timeZone);
+  const startMinute = minutesIntoZonedDay(start, context.timeZone);
+  // Derived from the start so intervals running past midnight fall outside every window
+  const endMinute = startMinute + durationMinutes;
+
+  const closures = context.closures.filter(c => intervalsOverlap(c.startsAt, c.endsAt, start, end));
+
+  const practiceClosure = closures.find(closure => closure.providerId === null);
+  if (practiceClosure) {
+    return {
+      valid: false,
+      message: `The practice is closed${practiceClosure.reason ? ` for ${practiceClosure.reason}` : ''} at that time.`,
+      providerIds: [],
+    };
+  }
+
+  if (context.businessHours.length > 0) {
+    const day = context.businessHours.find(h => h.dayOfWeek === dayOfWeek);
+    if (!day || !withinWindow(startMinute, endMinute, day.openTime, day.closeTime)) {
+      return {
+        valid: false,
+        message: `That time is outside our office hours. ${describeBusinessHours(dayOfWeek, context.businessHours)}`,
+        providerIds: [],
+      };
+    }
+  }
+
+  const providerIds = context.providers
+    .filter(provider => {
+      if (closures.some(closure => closure.providerId === provider.id)) return false;
+      if (provider.schedules.length === 0) return true;
+      const schedule = provider.schedules.find(s => s.dayOfWeek === dayOfWeek);
+      if (!schedule) return false;
+      return withinWindow(startMinute, endMinute, schedule.startTime, schedule.endTime)
+        && !overlapsLunch(startMinute, endMinute, schedule);
+    })
+    .map(provider => provider.id);
+
+  if (providerIds.length === 0) {
+    return {
+      valid: false,
+      message: providerId
+        ? 'That provider is not working at that time.'
+        : 'None of our dentists are available at that time.',
+      providerIds,
+    };
+  }
+
+  return { valid: true, providerIds };
+}
+
+/**
+ * Full availability check for a visit: the schedule rules above plus true
+ * interval overlap against existing appointments. `providerIds` in the result
+ * are the providers who are both working and free for the whole visit.
+ * Appointments without a provider each take up one otherwise free provider.
+ * A visit booked into a chair also needs that chair to be free.
+ */
+export function evaluateAvailability(
+  context: ScheduleContext,
+  start: Date,
+  { durationMinutes = DEFAULT_APPOINTMENT_MINUTES, providerId, operatoryId }: AvailabilityCheckOptions = {}
+): AvailabilityResult {
+  const end = new Date(start.getTime() + durationMinutes * 60000);
+
+  const scheduleCheck = evaluateSchedule(context, start, durationMinutes, providerId);
+  if (!scheduleCheck.valid) {
+    return { ...scheduleCheck, end, conflicts: [] };
+  }
+
+  const conflicts = context.appointments.filter(a => intervalsOverlap(a.date, a.endTime, start, end));
+  if (operatoryId) {
+    const chairConflicts = conflicts.filter(a => a.operatoryId === operatoryId);
+    if (chairConflicts.length > 0) {
+      return { valid: false, message: 'That chair is already booked at that time.', providerIds: [], end, conflicts: chairConflicts };
+    }
+  }
+  // Someone else's hold takes up a provider exactly like a booked visit
+  const heldSlots = context.holds.filter(h => intervalsOverlap(h.start, h.end, start, end));
+  const busy = [...conflicts, ...heldSlots];
+  const busyProviderIds = new Set(busy.map(b => b.providerId).filter((id): id is string => !!id));
+  const unassignedCount = busy.filter(b => !b.providerId).length;
+  const providerIds = scheduleCheck.providerIds
+    .filter(id => !busyProviderIds.has(id))
+    .slice(unassignedCount);
+
+  if (providerIds.length === 0) {
+    return {
+      valid: false,
+      message: conflicts.length === 0 && heldSlots.length > 0
+        ? 'That time is being held for another caller.'
+        : 'That time is already booked.',
+      providerIds,
+      end,
+      conflicts,
+    };
+  }
+
+  return { valid: true, providerIds, end, conflicts };
+}
+
+export async function checkAppointmentAvailability(
+  start: Date,
+  options: AvailabilityCheckOptions = {},
+  db: PrismaDb = prisma
+): Promise<AvailabilityResult> {
+  const durationMinutes = options.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+  const end = new Date(start.getTime() + durationMinutes * 60000);
+  const context = await loadScheduleContext(start, end, options, db);
+  return evaluateAvailability(context, start, { ...options, durationMinutes });
+}
+
+// Non-cancelled appointments whose interval overlaps [start, end)
+export async function findOverlappingAppointments(
+  start: Date,
+  end: Date,
+  {
+    organizationId,
+    excludeAppointmentId,
+    excludeAppointmentIds = [],
+  }: Pick<AvailabilityCheckOptions, 'organizationId' | 'excludeAppointmentId' | 'excludeAppointmentIds'> = {},
+  db: PrismaDb = prisma
+) {
+  const excluded = excludeAppointmentId ? [excludeAppointmentId, ...excludeAppointmentIds] : excludeAppointmentIds;
+  return db.appointment.findMany({
+    where: {
+      date: { lt: end },
+      endTime: { gt: start },
+      status: { not: AppointmentStatus.CANCELLED },
+      ...(organizationId && { organizationId }),
+      ...(excluded.length > 0 && { id: { notIn: excluded } }),
+    },
+    select: { id: true, date: true, endTime: true, providerId: true, operatoryId: true },
+    orderBy: { date: 'asc' },
+  });
+}
+
+// Look up an appointment type by id or (case-insensitive) name within a practice
+export async function findAppointmentType(
+  { organizationId, appointmentTypeId, name }: { organizationId?: string | null; appointmentTypeId?: string | null; name?: string | null }
+) {
+  if (appointmentTypeId) {
+    return prisma.appointmentType.findFirst({ where: { id: appointmentTypeId, ...(organizationId && { organizationId }) } });
+  }
+  if (!name) return null;
+  return prisma.appointmentType.findFirst({
+    where: {
+      name: { equals: name.trim(), mode: 'insensitive' },
+      ...(organizationId && { organizationId }),
+    },
+  });
+}
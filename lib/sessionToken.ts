@@ -0,0 +1,60 @@
+// Signed session cookies. Only Web Crypto is used, so the middleware (edge
+// runtime) can reject missing, forged or expired cookies without a database;
+// route handlers additionally check the session still exists (see lib/auth).
+
+export const SESSION_COOKIE = 'laine-session';
+export const SESSION_TTL_HOURS = 12;
+
+export interface SessionTokenPayload {
+  sessionId: string;
+  expiresAt: Date;
+}
+
+const encoder = new TextEncoder();
+
+function sessionSecret(): string | null {
+  return process.env.SESSION_SECRET || null;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+}
+
+// Compares every character so the time taken says nothing about where a forgery differs
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// "<sessionId>.<expiry in epoch seconds>.<HMAC of both>"
+export async function signSessionToken({ sessionId, expiresAt }: SessionTokenPayload): Promise<string> {
+  const secret = sessionSecret();
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is not set.');
+  }
+  const value = `${sessionId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${value}.${await sign(value, secret)}`;
+}
+
+// Null for anything but an untampered, unexpired token signed with the current secret
+export async function verifySessionToken(token: string | null | undefined): Promise<SessionTokenPayload | null> {
+  const secret = sessionSecret();
+  if (!token || !secret) return null;
+
+  const [sessionId, expiry, signature, ...rest] = token.split('.');
+  if (!sessionId || !expiry || !signature || rest.length > 0) return null;
+  if (!constantTimeEqual(signature, await sign(`${sessionId}.${expiry}`, secret))) return null;
+
+  const expiresAt = new Date(Number(expiry) * 1000);
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt <= new Date()) return null;
+  return { sessionId, expiresAt };
+}
@@ -0,0 +1,108 @@
+import {
+  DEFAULT_APPOINTMENT_MINUTES,
+  evaluateAvailability,
+  loadScheduleContext,
+  parseTimeOfDay,
+} from '@/lib/scheduling';
+import type { AvailabilityCheckOptions, ScheduleContext } from '@/lib/scheduling';
+import { addZonedDays, fromZoned, toZoned } from '@/lib/dates';
+
+export type PartOfDay = 'morning' | 'afternoon';
+
+export interface SlotSearchOptions extends AvailabilityCheckOptions {
+  count?: number;
+  // Restrict results to before or after noon
+  partOfDay?: PartOfDay | null;
+  // Restrict results to one weekday (0 = Sunday ... 6 = Saturday)
+  dayOfWeek?: number | null;
+  // Restrict results to starts within these practice-local minutes of each day, e.g. "after 2"
+  timeWindow?: { startMinute: number; endMinute: number } | null;
+  // Only slots starting before this instant
+  until?: Date | null;
+  // How far ahead to look before giving up
+  searchDays?: number;
+  // Granularity of candidate start times
+  stepMinutes?: number;
+}
+
+export interface OpenSlot {
+  start: Date;
+  end: Date;
+  providerIds: string[];
+}
+
+const NOON_MINUTE = 12 * 60;
+
+// Searched when a practice has configured neither business hours nor provider schedules
+const FALLBACK_DAY_WINDOW = { open: '08:00', close: '17:00' };
+
+// Earliest and latest minute of the day anything could be booked on this weekday
+function dayWindow(context: ScheduleContext, dayOfWeek: number): { open: number; close: number } | null {
+  if (context.businessHours.length > 0) {
+    const hours = context.businessHours.find(h => h.dayOfWeek === dayOfWeek);
+    return hours ? { open: parseTimeOfDay(hours.openTime), close: parseTimeOfDay(hours.closeTime) } : null;
+  }
+
+  const schedules = context.providers.flatMap(p => p.schedules).filter(s => s.dayOfWeek === dayOfWeek);
+  if (schedules.length > 0) {
+    return {
+      open: Math.min(...schedules.map(s => parseTimeOfDay(s.startTime))),
+      close: Math.max(...schedules.map(s => parseTimeOfDay(s.endTime))),
+    };
+  }
+
+  return { open: parseTimeOfDay(FALLBACK_DAY_WINDOW.open), close: parseTimeOfDay(FALLBACK_DAY_WINDOW.close) };
+}
+
+/**
+ * Walks forward from `from` across provider schedules and existing appointments
+ * and returns the earliest `count` slots that are genuinely free. The schedule
+ * and appointments for the whole search window are loaded once up front.
+ */
+export async function findOpenSlots(from: Date, options: SlotSearchOptions = {}): Promise<OpenSlot[]> {
+  const {
+    count = 3,
+    partOfDay,
+    dayOfWeek,
+    timeWindow,
+    until,
+    searchDays = 30,
+    stepMinutes = 15,
+    durationMinutes = DEFAULT_APPOINTMENT_MINUTES,
+  } = options;
+
+  // Never offer times in the past
+  const searchStart = new Date(Math.max(from.getTime(), Date.now()));
+  const searchEnd = new Date(searchStart.getTime() + (searchDays + 1) * 24 * 60 * 60 * 1000);
+
+  const context = await loadScheduleContext(searchStart, searchEnd, options);
+  const slots: OpenSlot[] = [];
+
+  for (let dayOffset = 0; dayOffset < searchDays && slots.length < count; dayOffset++) {
+    // Days and opening times are the practice's, not the server's
+    const day = toZoned(addZonedDays(searchStart, dayOffset, context.timeZone), context.timeZone);
+
+    if (dayOfWeek !== null && dayOfWeek !== undefined && day.dayOfWeek !== dayOfWeek) continue;
+
+    const window = dayWindow(context, day.dayOfWeek);
+    if (!window) continue;
+
+    for (let minute = window.open; minute + durationMinutes <= window.close && slots.length < count; minute += stepMinutes) {
+      if (partOfDay === 'morning' && minute >= NOON_MINUTE) break;
+      if (partOfDay === 'afternoon' && minute < NOON_MINUTE) continue;
+      if (timeWindow && minute >= timeWindow.endMinute) break;
+      if (timeWindow && minute < timeWindow.startMinute) continue;
+
+      const start = fromZoned({ year: day.year, month: day.month, day: day.day, minute }, context.timeZone);
+      if (start < searchStart) continue;
+      if (until && start >= until) return slots;
+
+      const result = evaluateAvailability(context, start, { ...options, durationMinutes });
+      if (result.valid) {
+        slots.push({ start, end: result.end, providerIds: result.providerIds });
+      }
+    }
+  }
+
+  return slots;
+}
@@ -0,0 +1,236 @@
+import { openai } from '@ai-sdk/openai';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { AppointmentStatus, TaskGenerationStatus, TaskStatus } from '@prisma/client';
+import type { Prisma, TaskGenerationRun } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { startOfZonedDay } from '@/lib/dates';
+import { getPracticeTimeZone } from '@/lib/scheduling';
+import { recordAuditEvent } from '@/lib/audit';
+import type { AuditActor } from '@/lib/audit';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('task-generation');
+
+// Define the schema for task generation
+const TaskSchema = z.object({
+  description: z.string().min(5).describe("Clear, concise description of the task."),
+  priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).describe("Estimated task priority."),
+  assignedRole: z.enum([
+    "ADMIN",
+    "DENTIST",
+    "RECEPTIONIST",
+    "OFFICE_MANAGER",
+    "BILLING_SPECIALIST"
+  ]).nullable().describe("The role best suited for this task based on responsibilities, or null if unsure."),
+  appointmentId: z.string().nullable().describe("ID of the related appointment from the PATIENT APPOINTMENTS list, or null if none applies.")
+});
+
+const TaskListSchema = z.object({
+  tasks: z.array(TaskSchema).describe("List of generated tasks.")
+});
+
+export const generatedTaskInclude = {
+  assignedTo: true,
+  patient: true,
+  appointment: {
+    include: {
+      patient: true,
+    },
+  },
+} satisfies Prisma.TaskInclude;
+
+// A run left RUNNING this long is assumed to have died with its process and may be claimed again
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+interface GenerateTasksOptions {
+  // Remove this call's earlier suggestions that nobody has started on before adding new ones
+  replace?: boolean;
+  // Who asked for the tasks; their creation is audited along with them
+  actor?: AuditActor;
+}
+
+export type TaskGenerationOutcome =
+  | { outcome: 'generated'; run: TaskGenerationRun; tasks: Prisma.TaskGetPayload<{ include: typeof generatedTaskInclude }>[] }
+  | { outcome: 'already-generated'; run: TaskGenerationRun }
+  | { outcome: 'in-progress'; run: TaskGenerationRun }
+  | { outcome: 'call-not-found' }
+  | { outcome: 'nothing-to-analyse' };
+
+// The caller matched from their phone number, with the visits tasks may relate to
+async function loadPatientContext(patientId: string | null, callStartedAt: Date, organizationId: string) {
+  if (!patientId) return null;
+
+  const dayStart = startOfZonedDay(callStartedAt, await getPracticeTimeZone(organizationId));
+
+  return prisma.patient.findUnique({
+    where: { id: patientId },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      appointments: {
+        // Anything from the day of the call onwards, including visits booked during it
+        where: { date: { gte: dayStart }, status: { not: AppointmentStatus.CANCELLED } },
+        select: { id: true, date: true, reason: true, status: true },
+        orderBy: { date: 'asc' },
+        take: 5,
+      },
+    },
+  });
+}
+
+type PatientContext = Awaited<ReturnType<typeof loadPatientContext>>;
+
+async function buildPrompt(
+  organizationId: string,
+  call: { summary: string | null; transcript: string | null; structuredData: Prisma.JsonValue },
+  patient: PatientContext
+) {
+  // Fetch role responsibilities for the organization
+  const roleResponsibilities = await prisma.roleResponsibility.findMany({
+    where: {
+      organizationId,
+    },
+  });
+
+  // Format role responsibilities for the prompt
+  const roleDescriptions = roleResponsibilities.map(resp =>
+    `ROLE: ${resp.role}, RESPONSIBILITIES: ${resp.description}`
+  ).join('\n');
+
+  const appointmentLines = patient?.appointments.map(a =>
+    `ID: ${a.id}, DATE: ${a.date.toISOString()}, REASON: ${a.reason ?? 'N/A'}, STATUS: ${a.status}`
+  ) ?? [];
+  const patientSection = patient
+    ? `CALLER (matched by phone number): ${patient.firstName} ${patient.lastName}${patient.dateOfBirth ? `, born ${patient.dateOfBirth.toISOString().slice(0, 10)}` : ''}
+
+PATIENT APPOINTMENTS:
+${appointmentLines.length > 0 ? appointmentLines.join('\n') : 'None upcoming.'}
+`
+    : 'CALLER: not matched to a patient record.\n';
+
+  return `
+You are an AI assistant for a dental practice. Your job is to analyze call data and generate appropriate follow-up tasks.
+
+CALL SUMMARY:
+${call.summary ?? 'No summary available.'}
+
+CALL TRANSCRIPT:
+${call.transcript ?? 'No transcript available.'}
+
+${call.structuredData ? `STRUCTURED DATA FROM CALL:\n${JSON.stringify(call.structuredData, null, 2)}\n` : ''}
+${patientSection}
+
+ROLE RESPONSIBILITIES IN THE DENTAL PRACTICE:
+${roleDescriptions}
+
+Based on the call information above and the defined role responsibilities, generate a list of necessary follow-up tasks.
+For each task, provide a clear description, suggest a priority (LOW, MEDIUM, HIGH, URGENT), and assign it to the most appropriate role based on the responsibilities.
+Only create tasks that are necessary and relevant to the call content.
+If no specific role fits for a task, assign null.
+If a task is about one of the listed patient appointments, give its ID as appointmentId; otherwise use null.
+`;
+}
+
+/**
+ * Generates follow-up tasks for a stored call at most once. The TaskGenerationRun
+ * row for the call acts as a lock: only the caller that moves it to RUNNING calls
+ * the model, and its final status and error are kept for staff to see.
+ */
+export async function generateTasksForCall(callId: string, { replace = false, actor }: GenerateTasksOptions = {}): Promise<TaskGenerationOutcome> {
+  const call = await prisma.callLog.findUnique({ where: { vapiCallId: callId } });
+  if (!call?.organizationId) {
+    return { outcome: 'call-not-found' };
+  }
+  if (!call.summary && !call.transcript) {
+    return { outcome: 'nothing-to-analyse' };
+  }
+
+  const run = await prisma.taskGenerationRun.upsert({
+    where: { callId },
+    create: { callId, organizationId: call.organizationId },
+    update: {},
+  });
+
+  const isStale = run.status === TaskGenerationStatus.RUNNING
+    && (!run.startedAt || Date.now() - run.startedAt.getTime() > STALE_RUN_MS);
+  if (run.status === TaskGenerationStatus.RUNNING && !isStale) {
+    return { outcome: 'in-progress', run };
+  }
+  if (run.status === TaskGenerationStatus.COMPLETED && !replace) {
+    return { outcome: 'already-generated', run };
+  }
+
+  // Claim the run; if another request changed it since we read it, that request owns it
+  const claimed = await prisma.taskGenerationRun.updateMany({
+    where: { id: run.id, status: run.status, updatedAt: run.updatedAt },
+    data: { status: TaskGenerationStatus.RUNNING, startedAt: new Date(), finishedAt: null, error: null, attempts: { increment: 1 } },
+  });
+  if (claimed.count === 0) {
+    const current = await prisma.taskGenerationRun.findUniqueOrThrow({ where: { id: run.id } });
+    return { outcome: 'in-progress', run: current };
+  }
+
+  try {
+    const patient = await loadPatientContext(call.patientId, call.startedAt ?? call.createdAt, call.organizationId);
+    const prompt = await buildPrompt(call.organizationId, call, patient);
+    // Only accept appointment ids we actually offered the model
+    const knownAppointmentIds = new Set(patient?.appointments.map(a => a.id) ?? []);
+
+    // Generate tasks using OpenAI
+    const { object } = await generateObject({
+      model: openai('gpt-4o-mini'),
+      schema: TaskListSchema,
+      prompt,
+    });
+
+    const [tasks, finishedRun] = await prisma.$transaction(async (tx) => {
+      if (replace) {
+        await tx.task.deleteMany({ where: { generationRunId: run.id, status: TaskStatus.PENDING } });
+      }
+
+      const created = await Promise.all(
+        object.tasks.map(task =>
+          tx.task.create({
+            data: {
+              description: task.description,
+              priority: task.priority,
+              assignedRole: task.assignedRole,
+              callId,
+              organizationId: run.organizationId,
+              generationRunId: run.id,
+              patientId: patient?.id ?? null,
+              appointmentId: task.appointmentId && knownAppointmentIds.has(task.appointmentId) ? task.appointmentId : null,
+            },
+            include: generatedTaskInclude,
+          })
+        )
+      );
+
+      if (actor) {
+        for (const task of created) {
+          await recordAuditEvent(run.organizationId, actor, { entityType: 'Task', entityId: task.id, action: 'create', after: task }, tx);
+        }
+      }
+
+      const updated = await tx.taskGenerationRun.update({
+        where: { id: run.id },
+        data: { status: TaskGenerationStatus.COMPLETED, finishedAt: new Date() },
+      });
+      return [created, updated] as const;
+    });
+
+    log('Generated tasks for call', { callId, count: tasks.length, replace });
+    return { outcome: 'generated', run: finishedRun, tasks };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('Task generation failed', { callId, error: message });
+    await prisma.taskGenerationRun.update({
+      where: { id: run.id },
+      data: { status: TaskGenerationStatus.FAILED, finishedAt: new Date(), error: message },
+    });
+    throw error;
+  }
+}
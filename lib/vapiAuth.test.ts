@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { findUnique, findMany } = vi.hoisted(() => {
+  process.env.VAPI_WEBHOOK_SECRET = 'deployment-secret';
+  return { findUnique: vi.fn(), findMany: vi.fn() };
+});
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { assistant: { findUnique, findMany } },
+}));
+
+import { signVapiPayload, verifyVapiRequest } from '@/lib/vapiAuth';
+
+const ASSISTANT_SECRET = 'assistant-secret';
+const body = JSON.stringify({ message: { type: 'status-update', call: { id: 'call-1', assistantId: 'asst-1' } } });
+const call = { assistantId: 'asst-1' };
+
+function request(headers: Record<string, string>) {
+  return new Request('https://example.test/api/vapi/webhook', { method: 'POST', headers, body });
+}
+
+function signed(secret: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const ts = String(timestamp);
+  return request({ 'x-vapi-timestamp': ts, 'x-vapi-signature': signVapiPayload(secret, ts, body) });
+}
+
+describe('verifyVapiRequest', () => {
+  beforeEach(() => {
+    findUnique.mockReset().mockResolvedValue({ serverSecret: ASSISTANT_SECRET });
+    findMany.mockReset().mockResolvedValue([]);
+  });
+
+  describe('shared secret', () => {
+    it("accepts the assistant's own secret", async () => {
+      expect(await verifyVapiRequest(request({ 'x-vapi-secret': ASSISTANT_SECRET }), body, call)).toEqual({ ok: true });
+    });
+
+    it('accepts the secret as a bearer token', async () => {
+      const result = await verifyVapiRequest(request({ authorization: `Bearer ${ASSISTANT_SECRET}` }), body, call);
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('rejects a wrong secret', async () => {
+      const result = await verifyVapiRequest(request({ 'x-vapi-secret': 'guess' }), body, call);
+      expect(result).toMatchObject({ ok: false, status: 401 });
+    });
+
+    it('rejects the deployment secret when the assistant has its own', async () => {
+      const result = await verifyVapiRequest(request({ 'x-vapi-secret': 'deployment-secret' }), body, call);
+      expect(result).toMatchObject({ ok: false, status: 401 });
+    });
+
+    it('falls back to the deployment secret for unregistered assistants', async () => {
+      findUnique.mockResolvedValue(null);
+      const result = await verifyVapiRequest(request({ 'x-vapi-secret': 'deployment-secret' }), body, call);
+      expect(result).toEqual({ ok: true });
+    });
+
+    it('checks calls routed by the dialled number against that assistant', async () => {
+      findMany.mockResolvedValue([{ serverSecret: ASSISTANT_SECRET }]);
+      const byNumber = { phoneNumber: { number: '+14155550100' } };
+
+      expect(await verifyVapiRequest(request({ 'x-vapi-secret': ASSISTANT_SECRET }), body, byNumber)).toEqual({ ok: true });
+      expect(await verifyVapiRequest(request({ 'x-vapi-secret': 'deployment-secret' }), body, byNumber))
+        .toMatchObject({ ok: false, status: 401 });
+    });
+  });
+
+  describe('HMAC signature', () => {
+    it('accepts a fresh signature', async () => {
+      expect(await verifyVapiRequest(signed(ASSISTANT_SECRET), body, call)).toEqual({ ok: true });
+    });
+
+    it('rejects a signature made with another secret', async () => {
+      const result = await verifyVapiRequest(signed('guess'), body, call);
+      expect(result).toEqual({ ok: false, status: 401, error: 'Invalid request signature' });
+    });
+
+    it('rejects a signature over a different body', async () => {
+      const result = await verifyVapiRequest(signed(ASSISTANT_SECRET), body.replace('call-1', 'call-2'), call);
+      expect(result).toEqual({ ok: false, status: 401, error: 'Invalid request signature' });
+    });
+
+    it('rejects an expired signature', async () => {
+      const result = await verifyVapiRequest(signed(ASSISTANT_SECRET, Math.floor(Date.now() / 1000) - 10 * 60), body, call);
+      expect(result).toEqual({ ok: false, status: 401, error: 'Request signature has expired' });
+    });
+
+    it('rejects a signature without a timestamp', async () => {
+      const ts = String(Math.floor(Date.now() / 1000));
+      const result = await verifyVapiRequest(
+        request({ 'x-vapi-signature': signVapiPayload(ASSISTANT_SECRET, ts, body) }),
+        body,
+        call
+      );
+      expect(result).toMatchObject({ ok: false, status: 401 });
+    });
+  });
+
+  it('rejects unsigned requests', async () => {
+    const result = await verifyVapiRequest(request({}), body, call);
+    expect(result).toEqual({ ok: false, status: 401, error: 'Invalid server secret' });
+  });
+});
@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { findAssistantForCall, type InboundCallIdentity } from '@/lib/assistants';
+import { createLogger } from '@/lib/logger';
+
+// Deployment-wide secret, used for assistants that don't have their own
+const VAPI_WEBHOOK_SECRET = process.env.VAPI_WEBHOOK_SECRET;
+
+// Signed requests older (or newer) than this are refused, so a captured one can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const log = createLogger('vapi-auth');
+
+function secretsMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export type VapiVerification = { ok: true } | { ok: false; status: number; error: string };
+
+// Hex HMAC-SHA256 of "<timestamp>.<raw body>"
+export function signVapiPayload(secret: string, timestamp: string, rawBody: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * The secret a request claiming to come from this call must prove it knows:
+ * the answering assistant's own, if it is registered with one, else the
+ * deployment-wide one. The assistant is resolved exactly as the call is routed,
+ * so a request is always checked against the practice it will be handled for.
+ */
+async function expectedSecret(call: InboundCallIdentity | null): Promise<string | null> {
+  const assistant = await findAssistantForCall(call);
+  return assistant?.serverSecret || VAPI_WEBHOOK_SECRET || null;
+}
+
+function verifySignature(request: Request, rawBody: string, secret: string): VapiVerification {
+  const signature = request.headers.get('x-vapi-signature') ?? '';
+  const timestamp = request.headers.get('x-vapi-timestamp') ?? '';
+  const seconds = Number(timestamp);
+  if (!timestamp || !Number.isFinite(seconds)) {
+    return { ok: false, status: 401, error: 'Signed requests must carry x-vapi-timestamp' };
+  }
+  if (Math.abs(Date.now() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, status: 401, error: 'Request signature has expired' };
+  }
+  if (!secretsMatch(signature.toLowerCase(), signVapiPayload(secret, timestamp, rawBody))) {
+    return { ok: false, status: 401, error: 'Invalid request signature' };
+  }
+  return { ok: true };
+}
+
+/**
+ * Checks a Vapi server request before anything in it is trusted. Vapi can be
+ * set up to authenticate in one of two ways:
+ *  - HMAC: `x-vapi-signature` holds the hex HMAC-SHA256 of
+ *    "<x-vapi-timestamp>.<raw body>", the timestamp in epoch seconds;
+ *  - shared secret: `x-vapi-secret: <secret>` or `Authorization: Bearer <secret>`.
+ * Requests are rejected when no secret applies, so a missing configuration
+ * never leaves the endpoints open.
+ */
+export async function verifyVapiRequest(
+  request: Request,
+  rawBody: string,
+  call: InboundCallIdentity | null
+): Promise<VapiVerification> {
+  const secret = await expectedSecret(call);
+  if (!secret) {
+    log('No server secret applies; rejecting request', { assistantId: call?.assistantId ?? null });
+    return { ok: false, status: 500, error: 'Server secret is not configured' };
+  }
+
+  if (request.headers.has('x-vapi-signature')) {
+    return verifySignature(request, rawBody, secret);
+  }
+
+  const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  const received = request.headers.get('x-vapi-secret') ?? bearer;
+  if (!received || !secretsMatch(received, secret)) {
+    return { ok: false, status: 401, error: 'Invalid server secret' };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,279 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resolveCallOrganization } from '@/lib/organizationContext';
+import { verifyVapiRequest } from '@/lib/vapiAuth';
+import type { Assistant } from '@prisma/client';
+import type { OrganizationContext } from '@/lib/organizationContext';
+import { createLogger, errorMessage } from '@/lib/logger';
+import type { LogDetails } from '@/lib/logger';
+
+// Each tool endpoint logs under its own scope
+function log(scope: string, message: string, details?: LogDetails) {
+  createLogger(scope)(message, details);
+}
+
+// --- CORS Headers ---
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Vapi-Secret, X-Vapi-Signature, X-Vapi-Timestamp',
+};
+
+// --- Inbound Payload Schemas (Zod) ---
+// Vapi (and the OpenAI-style proxy in front of it) deliver tool calls in several shapes.
+// Arguments arrive either as a JSON string or as an already-parsed object.
+const RawArgumentsSchema = z.union([z.string(), z.record(z.unknown())]).optional();
+
+const RawToolCallSchema = z.object({
+  id: z.string().min(1),
+  function: z.object({
+    name: z.string().optional(),
+    arguments: RawArgumentsSchema,
+  }).optional(),
+});
+
+const CallSchema = z.object({
+  id: z.string().optional(),
+  assistantId: z.string().optional(),
+  customer: z.object({ number: z.string().optional() }).passthrough().optional(),
+  // The practice number that was dialled
+  phoneNumber: z.object({ number: z.string().optional() }).passthrough().optional(),
+}).passthrough();
+
+const ServerMessageBodySchema = z.object({
+  message: z.object({
+    type: z.string().optional(),
+    call: CallSchema.optional(),
+    toolCalls: z.array(RawToolCallSchema).optional(),
+    toolCallList: z.array(RawToolCallSchema).optional(),
+    toolWithToolCallList: z.array(z.object({
+      name: z.string().optional(),
+      toolCall: RawToolCallSchema,
+    }).passthrough()).optional(),
+  }).passthrough().optional(),
+  // Direct Vapi format
+  tool_call_id: z.string().optional(),
+  parameters: z.record(z.unknown()).optional(),
+  // OpenAI format (from Vapi proxy)
+  toolCallId: z.string().optional(),
+  arguments: RawArgumentsSchema,
+  // Vapi array format
+  toolCalls: z.array(RawToolCallSchema).optional(),
+  // Tool name, when the flat formats carry one
+  name: z.string().optional(),
+}).passthrough();
+
+export type VapiCall = z.infer<typeof CallSchema>;
+
+// --- Normalised Types ---
+export interface ToolCall {
+  id: string;
+  name: string | null;
+  arguments: Record<string, unknown>;
+  // Set when the arguments could not be decoded; the call is answered with an error
+  argumentsError?: string;
+}
+
+export interface ToolCallContext {
+  scope: string;
+  call: VapiCall | null;
+  request: Request;
+  // Practice the call is for; tools must confine every lookup and write to it
+  organization: OrganizationContext;
+  // The practice's assistant that answered, when it is registered
+  assistant: Assistant | null;
+}
+
+export type ToolCallResult = { result: string } | { error: string };
+
+// A registered tool: receives the decoded arguments of one call
+export type ToolHandler = (args: Record<string, unknown>, context: ToolCallContext) => Promise<ToolCallResult>;
+
+// Keyed by tool name; lookups ignore case and punctuation, so
+// "bookAppointment", "book_appointment" and "book-appointment" are the same tool
+export type ToolRegistry = Record<string, ToolHandler>;
+
+interface ToolDefinition<Args> {
+  // Validates and narrows the decoded arguments before `handle` runs
+  schema: z.ZodType<Args, z.ZodTypeDef, unknown>;
+  handle: (args: Args, context: ToolCallContext) => Promise<ToolCallResult>;
+}
+
+export function defineToolHandler<Args>({ schema, handle }: ToolDefinition<Args>): ToolHandler {
+  return async (args, context) => {
+    const validation = schema.safeParse(args);
+    if (!validation.success) {
+      const issues = validation.error.issues.map(issue => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+      log(context.scope, 'Invalid tool arguments', { issues });
+      return { error: `Could not understand the provided details (${issues.join('; ')}).` };
+    }
+    return handle(validation.data, context);
+  };
+}
+
+function normaliseToolName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function decodeArguments(raw: string | Record<string, unknown> | undefined): Pick<ToolCall, 'arguments' | 'argumentsError'> {
+  if (raw === undefined) return { arguments: {} };
+  if (typeof raw !== 'string') return { arguments: raw };
+  if (raw.trim() === '') return { arguments: {} };
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return { arguments: parsed as Record<string, unknown> };
+    }
+    return { arguments: {}, argumentsError: 'Tool arguments must be a JSON object.' };
+  } catch {
+    return { arguments: {}, argumentsError: 'Tool arguments are not valid JSON.' };
+  }
+}
+
+export interface ParsedServerMessage {
+  toolCalls: ToolCall[];
+  call: VapiCall | null;
+}
+
+/**
+ * Normalises every known inbound shape into one de-duplicated list of tool calls.
+ * Vapi sends the same calls in both `toolCalls` and `toolCallList`, so calls are keyed by id.
+ */
+export function parseServerMessage(body: unknown): ParsedServerMessage {
+  const parsed = ServerMessageBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return { toolCalls: [], call: null };
+  }
+
+  const data = parsed.data;
+  const byId = new Map<string, ToolCall>();
+  const add = (id: string, name: string | null | undefined, rawArgs: string | Record<string, unknown> | undefined) => {
+    if (byId.has(id)) return;
+    byId.set(id, { id, name: name ?? null, ...decodeArguments(rawArgs) });
+  };
+
+  for (const toolCall of data.message?.toolCallList ?? []) {
+    add(toolCall.id, toolCall.function?.name, toolCall.function?.arguments);
+  }
+  for (const toolCall of data.message?.toolCalls ?? []) {
+    add(toolCall.id, toolCall.function?.name, toolCall.function?.arguments);
+  }
+  for (const entry of data.message?.toolWithToolCallList ?? []) {
+    add(entry.toolCall.id, entry.toolCall.function?.name ?? entry.name, entry.toolCall.function?.arguments);
+  }
+  if (data.tool_call_id) {
+    add(data.tool_call_id, data.name, data.parameters);
+  }
+  if (data.toolCallId) {
+    add(data.toolCallId, data.name, data.arguments);
+  }
+  for (const toolCall of data.toolCalls ?? []) {
+    add(toolCall.id, toolCall.function?.name, toolCall.function?.arguments);
+  }
+
+  return { toolCalls: [...byId.values()], call: data.message?.call ?? null };
+}
+
+// Standardised Vapi response: one entry per tool call, in request order
+export function createToolCallResponse(results: Array<{ toolCallId: string } & Partial<Record<'result' | 'error', string>>>, status = 200) {
+  return NextResponse.json({ results }, { status, headers: corsHeaders });
+}
+
+function findHandler(registry: ToolRegistry, name: string | null): ToolHandler | undefined {
+  if (!name) return undefined;
+  const wanted = normaliseToolName(name);
+  const key = Object.keys(registry).find(k => normaliseToolName(k) === wanted);
+  return key ? registry[key] : undefined;
+}
+
+async function runToolCall(
+  toolCall: ToolCall,
+  handler: ToolHandler | undefined,
+  context: ToolCallContext
+): Promise<ToolCallResult> {
+  if (!handler) {
+    return { error: `Unknown tool: ${toolCall.name ?? '(unnamed)'}` };
+  }
+  if (toolCall.argumentsError) {
+    return { error: `Could not understand the provided details. ${toolCall.argumentsError}` };
+  }
+
+  try {
+    return await handler(toolCall.arguments, context);
+  } catch (error) {
+    log(context.scope, 'Unhandled error in tool handler', { toolCallId: toolCall.id, error: errorMessage(error) });
+    return { error: 'Something went wrong on our side. Please try again.' };
+  }
+}
+
+interface ToolCallRouteOptions {
+  scope: string;
+  tools: ToolRegistry;
+  // Answers calls whose name is missing or not registered (single-tool endpoints)
+  defaultTool?: string;
+}
+
+/**
+ * Answers every tool call in an already-read Vapi server message, running them
+ * in parallel and returning a single `results[]` array.
+ */
+export async function answerToolCalls(body: unknown, request: Request, { scope, tools, defaultTool }: ToolCallRouteOptions) {
+  const { toolCalls, call } = parseServerMessage(body);
+  log(scope, 'Parsed tool calls', { count: toolCalls.length, names: toolCalls.map(t => t.name ?? '(unnamed)'), callId: call?.id ?? null });
+
+  if (toolCalls.length === 0) {
+    return createToolCallResponse([], 400);
+  }
+
+  const resolved = await resolveCallOrganization(call);
+  if (!resolved) {
+    log(scope, 'No organization for call', { callId: call?.id ?? null, assistantId: call?.assistantId ?? null });
+    return createToolCallResponse(toolCalls.map(toolCall => ({
+      toolCallId: toolCall.id,
+      error: 'This assistant is not linked to a practice yet, so I cannot look anything up. Please call the office directly.',
+    })));
+  }
+
+  const fallback = defaultTool ? findHandler(tools, defaultTool) : undefined;
+  const context: ToolCallContext = { scope, call, request, ...resolved };
+  const outcomes = await Promise.all(toolCalls.map(toolCall =>
+    runToolCall(toolCall, findHandler(tools, toolCall.name) ?? fallback, context)
+  ));
+
+  const results = toolCalls.map((toolCall, i) => ({ toolCallId: toolCall.id, ...outcomes[i] }));
+  // Results are spoken back to the caller and can name the patient, so only their outcome is logged
+  log(scope, 'Sending response', {
+    count: results.length,
+    failed: results.filter(result => 'error' in result).length,
+  });
+  return createToolCallResponse(results);
+}
+
+export function createToolCallRoute(options: ToolCallRouteOptions) {
+  return async function POST(request: Request) {
+    log(options.scope, 'Received tool-call request');
+
+    let rawBody: string;
+    let body: unknown;
+    try {
+      rawBody = await request.text();
+      body = JSON.parse(rawBody);
+    } catch {
+      log(options.scope, 'Request body is not valid JSON');
+      return createToolCallResponse([], 400);
+    }
+
+    // Anyone can reach these URLs; only Vapi knows the secret that answers for the call
+    const verification = await verifyVapiRequest(request, rawBody, parseServerMessage(body).call);
+    if (!verification.ok) {
+      log(options.scope, 'Rejected unauthenticated tool-call request', { error: verification.error });
+      return NextResponse.json({ error: verification.error }, { status: verification.status, headers: corsHeaders });
+    }
+
+    return answerToolCalls(body, request, options);
+  };
+}
+
+export async function toolCallOptions() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
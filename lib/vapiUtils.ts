@@ -1,14 +1,11 @@
 import { randomUUID } from 'node:crypto';
+import { createLogger } from '@/lib/logger';
 
 const VAPI_API_KEY = process.env.VAPI_API_KEY;
 const VAPI_BASE_URL = 'https://api.vapi.ai';
 
-function logUtil(scope: string, message: string, data?: unknown) {
-    console.log(`[${new Date().toISOString()}] [${scope}] ${message}`);
-    if (data !== undefined) {
-        console.log(JSON.stringify(data, null, 2));
-    }
-}
+const logFetch = createLogger('vapiFetchUtil');
+const logUpload = createLogger('uploadFileToVapi');
 
 // --- Vapi API Call Helper (Modified for FormData) ---
 // This helper now needs to handle both JSON and FormData
@@ -19,7 +16,7 @@ async function vapiFetchUtil(endpoint: string, options: RequestInit & { body?: B
     const url = `${VAPI_BASE_URL}${endpoint}`;
     const isFormData = options.body instanceof FormData;
 
-    logUtil('vapiFetchUtil', `Calling Vapi: ${options.method || 'GET'} ${url}`, isFormData ? '(FormData body)' : (options.body ? '(JSON body)' : ''));
+    logFetch(`Calling Vapi: ${options.method || 'GET'} ${url}`, { body: isFormData ? 'form-data' : (options.body ? 'json' : 'none') });
 
     const headers: HeadersInit = {
         'Authorization': `Bearer ${VAPI_API_KEY}`,
@@ -48,23 +45,22 @@ async function vapiFetchUtil(endpoint: string, options: RequestInit & { body?: B
                  if (!response.ok) {
                      throw new Error(`Vapi request failed with status ${response.status}. Response: ${textResponse}`);
                  }
-                 logUtil('vapiFetchUtil', `Vapi call ${options.method || 'GET'} ${url} succeeded (${response.status}) but response was not JSON. Body: ${textResponse}`);
+                 logFetch(`Vapi call ${options.method || 'GET'} ${url} succeeded (${response.status}) but response was not JSON.`, { length: textResponse.length });
                  responseData = textResponse; // Or null if text isn't useful
              }
         }
     } catch (e) {
         if (response.ok && !(e instanceof SyntaxError)) { // Don't throw if OK status but non-JSON body was expected/handled
-             logUtil('vapiFetchUtil', `Vapi call ${options.method || 'GET'} ${url} succeeded (${response.status}) but response parsing failed or was not JSON.`);
+             logFetch(`Vapi call ${options.method || 'GET'} ${url} succeeded (${response.status}) but response parsing failed or was not JSON.`);
              responseData = null;
         } else {
-             logUtil('vapiFetchUtil', `Vapi call ${options.method || 'GET'} ${url} failed (${response.status}) and/or response parsing failed.`);
+             logFetch(`Vapi call ${options.method || 'GET'} ${url} failed (${response.status}) and/or response parsing failed.`);
              const errorMsg = e instanceof Error ? e.message : 'Unknown parsing error';
              throw new Error(`Vapi request failed with status ${response.status}. Error: ${errorMsg}`);
         }
     }
 
     if (!response.ok) {
-        logUtil('vapiFetchUtil', `Vapi Error: ${response.status} ${response.statusText}`, responseData);
         let errorMessage = `Request failed with status ${response.status}`;
         if (responseData && typeof responseData === 'object') {
              if ('message' in responseData && responseData.message) errorMessage = String(responseData.message);
@@ -72,17 +68,19 @@ async function vapiFetchUtil(endpoint: string, options: RequestInit & { body?: B
         } else if (typeof responseData === 'string') {
             errorMessage = responseData; // Use text response if available for non-JSON errors
         }
+        logFetch(`Vapi Error: ${response.status} ${response.statusText}`, { error: errorMessage });
         throw new Error(`Vapi API Error: ${errorMessage}`);
     }
 
-    logUtil('vapiFetchUtil', `Vapi Success: ${options.method || 'GET'} ${url} (${response.status})`, responseData);
+    // Responses can hold call transcripts and assistant prompts, so they aren't logged
+    logFetch(`Vapi Success: ${options.method || 'GET'} ${url} (${response.status})`);
     return responseData;
 }
 
 
 // --- File Upload Utility ---
 export async function uploadFileToVapi(content: string, filename: string): Promise<string> {
-    logUtil('uploadFileToVapi', `Preparing to upload file: ${filename}`);
+    logUpload(`Preparing to upload file: ${filename}`);
     const blob = new Blob([content], { type: 'text/plain' });
     const formData = new FormData();
     formData.append('file', blob, filename); // Vapi expects the field name 'file'
@@ -97,7 +95,7 @@ export async function uploadFileToVapi(content: string, filename: string): Promi
     if (!vapiFileId) {
         throw new Error('Vapi did not return a valid file ID after upload.');
     }
-    logUtil('uploadFileToVapi', `File uploaded successfully: ${vapiFileId}`);
+    logUpload(`File uploaded successfully: ${vapiFileId}`);
     return vapiFileId;
 }
 
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import type { Prisma, VapiEvent } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { saveCallFromEndOfCallReport, saveCallStatus } from '@/lib/callLogs';
+import { generateTasksForCall } from '@/lib/taskGeneration';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('vapi-webhook');
+
+// --- Server Message Schemas (Zod) ---
+
+const CallSchema = z.object({
+  id: z.string(),
+  assistantId: z.string().nullish(),
+  createdAt: z.string().optional(),
+  customer: z.object({ number: z.string().optional() }).passthrough().optional(),
+  // The practice number dialled, for calls routed without an assistant id
+  phoneNumber: z.object({ number: z.string().optional() }).passthrough().optional(),
+}).passthrough();
+
+const BaseMessageSchema = z.object({
+  call: CallSchema.optional(),
+  timestamp: z.union([z.number(), z.string()]).optional(),
+}).passthrough();
+
+export const EndOfCallReportSchema = BaseMessageSchema.extend({
+  type: z.literal('end-of-call-report'),
+  endedReason: z.string().optional(),
+  startedAt: z.string().optional(),
+  endedAt: z.string().optional(),
+  durationSeconds: z.number().optional(),
+  cost: z.number().optional(),
+  artifact: z.object({
+    transcript: z.string().optional(),
+    recordingUrl: z.string().optional(),
+    messages: z.array(z.unknown()).optional(),
+  }).passthrough().optional(),
+  analysis: z.object({
+    summary: z.string().optional(),
+    structuredData: z.unknown().optional(),
+    successEvaluation: z.unknown().optional(),
+  }).passthrough().optional(),
+});
+
+export const StatusUpdateSchema = BaseMessageSchema.extend({
+  type: z.literal('status-update'),
+  status: z.string(),
+  endedReason: z.string().optional(),
+});
+
+export const TranscriptSchema = BaseMessageSchema.extend({
+  type: z.literal('transcript'),
+  role: z.string().optional(),
+  transcriptType: z.enum(['partial', 'final']).optional(),
+  transcript: z.string().optional(),
+});
+
+export const HangSchema = BaseMessageSchema.extend({
+  type: z.literal('hang'),
+});
+
+export const PersistedServerMessageSchema = z.discriminatedUnion('type', [
+  EndOfCallReportSchema,
+  StatusUpdateSchema,
+  TranscriptSchema,
+  HangSchema,
+]);
+
+export type PersistedServerMessage = z.infer<typeof PersistedServerMessageSchema>;
+export type VapiEventType = PersistedServerMessage['type'];
+
+// Only finished utterances are stored; partial transcripts are superseded almost immediately
+export function shouldPersist(message: PersistedServerMessage): boolean {
+  return message.type !== 'transcript' || message.transcriptType !== 'partial';
+}
+
+// Payloads hold transcripts and caller details, so each event is filed under the call's practice
+export async function recordVapiEvent(message: PersistedServerMessage, organizationId: string | null): Promise<VapiEvent> {
+  return prisma.vapiEvent.create({
+    data: {
+      type: message.type,
+      callId: message.call?.id ?? null,
+      assistantId: message.call?.assistantId ?? null,
+      payload: message as Prisma.InputJsonValue,
+      organizationId,
+    },
+  });
+}
+
+// --- Follow-up Processing ---
+
+type VapiEventProcessor = (event: VapiEvent, message: PersistedServerMessage) => Promise<void>;
+
+// Work that runs after the webhook has been acknowledged, keyed by message type
+const eventProcessors: Partial<Record<VapiEventType, VapiEventProcessor[]>> = {
+  'end-of-call-report': [
+    async (_event, message) => {
+      if (message.type === 'end-of-call-report') await saveCallFromEndOfCallReport(message);
+    },
+    // Once per call; repeated reports for the same call are no-ops
+    async (event) => {
+      if (event.callId) await generateTasksForCall(event.callId);
+    },
+  ],
+  'status-update': [
+    async (_event, message) => {
+      if (message.type === 'status-update') await saveCallStatus(message);
+    },
+  ],
+};
+
+/**
+ * Runs the registered follow-up work for a stored event and records the outcome
+ * on the event; unprocessed events are picked up again by retryVapiEvents.
+ * Returns whether the event has been processed.
+ */
+export async function processVapiEvent(eventId: string): Promise<boolean> {
+  const event = await prisma.vapiEvent.findUnique({ where: { id: eventId } });
+  if (!event) return false;
+  if (event.processedAt) return true;
+
+  const parsed = PersistedServerMessageSchema.safeParse(event.payload);
+  if (!parsed.success) {
+    await prisma.vapiEvent.update({
+      where: { id: event.id },
+      data: { processingError: 'Stored payload no longer matches the server message schema' },
+    });
+    return false;
+  }
+
+  try {
+    for (const processor of eventProcessors[parsed.data.type] ?? []) {
+      await processor(event, parsed.data);
+    }
+    await prisma.vapiEvent.update({
+      where: { id: event.id },
+      data: { processedAt: new Date(), processingError: null },
+    });
+    log('Processed event', { eventId: event.id, type: event.type, callId: event.callId });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log('Error processing event', { eventId: event.id, type: event.type, error: message });
+    await prisma.vapiEvent.update({
+      where: { id: event.id },
+      data: { processingError: message },
+    });
+    return false;
+  }
+}
+
+// Newer events may still be running in the webhook's after() callback
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+
+export interface VapiEventRetryResult {
+  retried: number;
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Processes a practice's events that failed or never finished, oldest first.
+ * Every processor is safe to run again: call logs are upserted and tasks are
+ * generated once per call.
+ */
+export async function retryVapiEvents(organizationId: string, { limit = 100 } = {}): Promise<VapiEventRetryResult> {
+  const pending = await prisma.vapiEvent.findMany({
+    where: { organizationId, processedAt: null, receivedAt: { lt: new Date(Date.now() - RETRY_AFTER_MS) } },
+    select: { id: true },
+    orderBy: { receivedAt: 'asc' },
+    take: limit,
+  });
+
+  let processed = 0;
+  for (const { id } of pending) {
+    if (await processVapiEvent(id)) processed++;
+  }
+  log('Retried events', { organizationId, retried: pending.length, processed });
+  return { retried: pending.length, processed, failed: pending.length - processed };
+}
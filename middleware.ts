@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/sessionToken';
+
+// Reachable without signing in
+const PUBLIC_PATHS = new Set(['/login', '/api/auth/login']);
+
+// Called by Vapi rather than by staff; these authenticate the caller themselves
+const MACHINE_API_PREFIXES = ['/api/laine/', '/api/vapi/'];
+
+/**
+ * Turns away requests without a valid session cookie: pages redirect to the
+ * sign-in page, APIs answer 401. This only checks the cookie's signature and
+ * expiry; route handlers look the session up before trusting it.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.has(pathname) || MACHINE_API_PREFIXES.some(prefix => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) return NextResponse.next();
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except Next's own assets and files served from public/
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+};
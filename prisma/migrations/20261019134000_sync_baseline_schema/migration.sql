@@ -0,0 +1,169 @@
+-- Brings a database built from the first migration up to the schema the app
+-- shipped with, which until now was only applied with `prisma db push`.
+-- Databases that were already pushed to that schema should record this
+-- migration without running it:
+--   npx prisma migrate resolve --applied 20261019134000_sync_baseline_schema
+
+
+-- CreateEnum
+CREATE TYPE "TaskStatus" AS ENUM ('PENDING', 'IN_PROGRESS', 'COMPLETED', 'ARCHIVED');
+
+-- CreateEnum
+CREATE TYPE "TaskPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'URGENT');
+
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'NO_SHOW';
+
+-- The catch-all USER role was replaced by specific staff roles
+UPDATE "User" SET "role" = 'RECEPTIONIST' WHERE "role" = 'USER';
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "Role_new" AS ENUM ('ADMIN', 'DENTIST', 'RECEPTIONIST', 'OFFICE_MANAGER', 'BILLING_SPECIALIST');
+ALTER TABLE "User" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "User" ALTER COLUMN "role" TYPE "Role_new" USING ("role"::text::"Role_new");
+ALTER TYPE "Role" RENAME TO "Role_old";
+ALTER TYPE "Role_new" RENAME TO "Role";
+DROP TYPE "Role_old";
+ALTER TABLE "User" ALTER COLUMN "role" SET DEFAULT 'RECEPTIONIST';
+COMMIT;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "organizationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "organizationId" TEXT,
+ALTER COLUMN "role" SET DEFAULT 'RECEPTIONIST';
+
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL DEFAULT 'Default Practice',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RoleResponsibility" (
+    "id" TEXT NOT NULL,
+    "role" "Role" NOT NULL,
+    "description" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "RoleResponsibility_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Task" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "TaskStatus" NOT NULL DEFAULT 'PENDING',
+    "priority" "TaskPriority" NOT NULL DEFAULT 'MEDIUM',
+    "dueDate" TIMESTAMP(3),
+    "assignedToId" TEXT,
+    "assignedRole" "Role",
+    "callId" TEXT,
+    "appointmentId" TEXT,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "Task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "KnowledgeTopic" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "topicName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "assistantId" TEXT NOT NULL,
+    "vapiToolId" TEXT,
+    "vapiFileId" TEXT,
+    "vapiKbName" TEXT,
+    "vapiToolName" TEXT,
+    "vapiFileName" TEXT,
+    "vapiDescription" TEXT,
+    "organizationId" TEXT,
+
+    CONSTRAINT "KnowledgeTopic_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoleResponsibility_organizationId_idx" ON "RoleResponsibility"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoleResponsibility_role_organizationId_key" ON "RoleResponsibility"("role", "organizationId");
+
+-- CreateIndex
+CREATE INDEX "Task_assignedToId_idx" ON "Task"("assignedToId");
+
+-- CreateIndex
+CREATE INDEX "Task_assignedRole_idx" ON "Task"("assignedRole");
+
+-- CreateIndex
+CREATE INDEX "Task_status_idx" ON "Task"("status");
+
+-- CreateIndex
+CREATE INDEX "Task_organizationId_idx" ON "Task"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Task_callId_idx" ON "Task"("callId");
+
+-- CreateIndex
+CREATE INDEX "Task_appointmentId_idx" ON "Task"("appointmentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeTopic_vapiToolId_key" ON "KnowledgeTopic"("vapiToolId");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeTopic_assistantId_idx" ON "KnowledgeTopic"("assistantId");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeTopic_organizationId_idx" ON "KnowledgeTopic"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Appointment_organizationId_idx" ON "Appointment"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Appointment_patientId_idx" ON "Appointment"("patientId");
+
+-- CreateIndex
+CREATE INDEX "Patient_organizationId_idx" ON "Patient"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Patient_userId_idx" ON "Patient"("userId");
+
+-- CreateIndex
+CREATE INDEX "User_organizationId_idx" ON "User"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoleResponsibility" ADD CONSTRAINT "RoleResponsibility_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Patient" ADD CONSTRAINT "Patient_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeTopic" ADD CONSTRAINT "KnowledgeTopic_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,46 @@
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "appointmentTypeId" TEXT,
+ADD COLUMN     "endTime" TIMESTAMP(3),
+ADD COLUMN     "providerId" TEXT;
+
+-- Existing visits get the default 30 minute length
+UPDATE "Appointment" SET "endTime" = "date" + INTERVAL '30 minutes' WHERE "endTime" IS NULL;
+
+ALTER TABLE "Appointment" ALTER COLUMN "endTime" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "AppointmentType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL DEFAULT 30,
+    "color" TEXT NOT NULL DEFAULT '#3b82f6',
+    "requiredRole" "Role",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "AppointmentType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppointmentType_organizationId_idx" ON "AppointmentType"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentType_organizationId_name_key" ON "AppointmentType"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "Appointment_providerId_date_idx" ON "Appointment"("providerId", "date");
+
+-- CreateIndex
+CREATE INDEX "Appointment_appointmentTypeId_idx" ON "Appointment"("appointmentTypeId");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_appointmentTypeId_fkey" FOREIGN KEY ("appointmentTypeId") REFERENCES "AppointmentType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentType" ADD CONSTRAINT "AppointmentType_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,21 @@
+
+-- CreateTable
+CREATE TABLE "VapiEvent" (
+    "id" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "type" TEXT NOT NULL,
+    "callId" TEXT,
+    "assistantId" TEXT,
+    "payload" JSONB NOT NULL,
+    "processedAt" TIMESTAMP(3),
+    "processingError" TEXT,
+
+    CONSTRAINT "VapiEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VapiEvent_callId_idx" ON "VapiEvent"("callId");
+
+-- CreateIndex
+CREATE INDEX "VapiEvent_type_receivedAt_idx" ON "VapiEvent"("type", "receivedAt");
+
@@ -0,0 +1,38 @@
+
+-- CreateTable
+CREATE TABLE "CallLog" (
+    "id" TEXT NOT NULL,
+    "vapiCallId" TEXT NOT NULL,
+    "assistantId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'unknown',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "durationSeconds" INTEGER,
+    "endedReason" TEXT,
+    "transcript" TEXT,
+    "summary" TEXT,
+    "structuredData" JSONB,
+    "recordingUrl" TEXT,
+    "callerPhone" TEXT,
+    "syncedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT,
+
+    CONSTRAINT "CallLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CallLog_vapiCallId_key" ON "CallLog"("vapiCallId");
+
+-- CreateIndex
+CREATE INDEX "CallLog_organizationId_createdAt_idx" ON "CallLog"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CallLog_assistantId_idx" ON "CallLog"("assistantId");
+
+-- CreateIndex
+CREATE INDEX "CallLog_callerPhone_idx" ON "CallLog"("callerPhone");
+
+-- AddForeignKey
+ALTER TABLE "CallLog" ADD CONSTRAINT "CallLog_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
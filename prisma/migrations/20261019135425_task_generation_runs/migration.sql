@@ -0,0 +1,35 @@
+
+-- CreateEnum
+CREATE TYPE "TaskGenerationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "generationRunId" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaskGenerationRun" (
+    "id" TEXT NOT NULL,
+    "callId" TEXT NOT NULL,
+    "status" "TaskGenerationStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "TaskGenerationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskGenerationRun_callId_key" ON "TaskGenerationRun"("callId");
+
+-- CreateIndex
+CREATE INDEX "Task_generationRunId_idx" ON "Task"("generationRunId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_generationRunId_fkey" FOREIGN KEY ("generationRunId") REFERENCES "TaskGenerationRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskGenerationRun" ADD CONSTRAINT "TaskGenerationRun_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,49 @@
+
+-- AlterTable
+ALTER TABLE "CallLog" ADD COLUMN     "patientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "phoneE164" TEXT;
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "patientId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CallLog_patientId_idx" ON "CallLog"("patientId");
+
+-- CreateIndex
+CREATE INDEX "Patient_phoneE164_idx" ON "Patient"("phoneE164");
+
+-- CreateIndex
+CREATE INDEX "Task_patientId_idx" ON "Task"("patientId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CallLog" ADD CONSTRAINT "CallLog_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+
+-- Backfill phoneE164 for existing patients, mirroring normalizePhoneNumber in lib/phone.ts.
+-- Every later write sets it alongside phoneNumber (patientPhoneFields), so this runs once.
+UPDATE "Patient" AS p
+SET "phoneE164" = n.normalized
+FROM (
+  SELECT id,
+    CASE
+      WHEN stripped LIKE '+%' THEN CASE WHEN length(digits) BETWEEN 8 AND 15 THEN '+' || digits END
+      WHEN digits LIKE '00%' THEN CASE WHEN length(digits) - 2 BETWEEN 8 AND 15 THEN '+' || substr(digits, 3) END
+      WHEN length(digits) = 10 THEN '+1' || digits
+      WHEN length(digits) = 11 AND digits LIKE '1%' THEN '+' || digits
+    END AS normalized
+  FROM (
+    SELECT id, stripped, regexp_replace(stripped, '\D', '', 'g') AS digits
+    FROM (
+      -- Extensions are dropped
+      SELECT id, regexp_replace(regexp_replace("phoneNumber", '\s*(?:ext\.?|x|#)\s*\d+\s*$', '', 'i'), '^\s+|\s+$', '', 'g') AS stripped
+      FROM "Patient"
+      WHERE "phoneNumber" IS NOT NULL AND "phoneE164" IS NULL
+    ) AS trimmed
+  ) AS split
+) AS n
+WHERE p.id = n.id AND n.normalized IS NOT NULL;
@@ -0,0 +1,4 @@
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'America/Chicago';
+
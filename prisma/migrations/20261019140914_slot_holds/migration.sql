@@ -0,0 +1,30 @@
+
+-- CreateTable
+CREATE TABLE "SlotHold" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "start" TIMESTAMP(3) NOT NULL,
+    "end" TIMESTAMP(3) NOT NULL,
+    "owner" TEXT NOT NULL,
+    "providerId" TEXT,
+    "organizationId" TEXT,
+
+    CONSTRAINT "SlotHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SlotHold_owner_idx" ON "SlotHold"("owner");
+
+-- CreateIndex
+CREATE INDEX "SlotHold_organizationId_start_idx" ON "SlotHold"("organizationId", "start");
+
+-- CreateIndex
+CREATE INDEX "SlotHold_expiresAt_idx" ON "SlotHold"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "SlotHold" ADD CONSTRAINT "SlotHold_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotHold" ADD CONSTRAINT "SlotHold_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,21 @@
+-- Queries are now scoped to a practice, so rows saved before there was one would
+-- disappear. With a single practice they can only belong to it.
+UPDATE "User" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+UPDATE "Patient" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+UPDATE "Appointment" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+UPDATE "KnowledgeTopic" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+UPDATE "CallLog" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+UPDATE "SlotHold" SET "organizationId" = (SELECT "id" FROM "Organization" LIMIT 1)
+WHERE "organizationId" IS NULL AND (SELECT COUNT(*) FROM "Organization") = 1;
+
+-- DropIndex
+DROP INDEX "Patient_email_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Patient_organizationId_email_key" ON "Patient"("organizationId", "email");
+
@@ -0,0 +1,28 @@
+
+-- CreateTable
+CREATE TABLE "Assistant" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "vapiAssistantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phoneNumbers" TEXT[],
+    "defaultProviderId" TEXT,
+    "timezone" TEXT,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "Assistant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Assistant_vapiAssistantId_key" ON "Assistant"("vapiAssistantId");
+
+-- CreateIndex
+CREATE INDEX "Assistant_organizationId_idx" ON "Assistant"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "Assistant" ADD CONSTRAINT "Assistant_defaultProviderId_fkey" FOREIGN KEY ("defaultProviderId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Assistant" ADD CONSTRAINT "Assistant_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
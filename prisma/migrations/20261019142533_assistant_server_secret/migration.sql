@@ -0,0 +1,4 @@
+
+-- AlterTable
+ALTER TABLE "Assistant" ADD COLUMN     "serverSecret" TEXT;
+
@@ -0,0 +1,12 @@
+
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'CHECKED_IN';
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "checkedInAt" TIMESTAMP(3);
+
+
+-- Visits cancelled before this was recorded were last touched when they were cancelled
+UPDATE "Appointment" SET "cancelledAt" = "updatedAt" WHERE "status" = 'CANCELLED' AND "cancelledAt" IS NULL;
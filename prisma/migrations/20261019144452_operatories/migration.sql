@@ -0,0 +1,30 @@
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "operatoryId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Operatory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "organizationId" TEXT NOT NULL,
+
+    CONSTRAINT "Operatory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Operatory_organizationId_idx" ON "Operatory"("organizationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Operatory_organizationId_name_key" ON "Operatory"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "Appointment_operatoryId_date_idx" ON "Appointment"("operatoryId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_operatoryId_fkey" FOREIGN KEY ("operatoryId") REFERENCES "Operatory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Operatory" ADD CONSTRAINT "Operatory_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
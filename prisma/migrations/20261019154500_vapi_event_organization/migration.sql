@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "VapiEvent" ADD COLUMN     "organizationId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VapiEvent_organizationId_processedAt_idx" ON "VapiEvent"("organizationId", "processedAt");
+
+-- AddForeignKey
+ALTER TABLE "VapiEvent" ADD CONSTRAINT "VapiEvent_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing events take the practice their call log was saved under
+UPDATE "VapiEvent" AS e
+SET "organizationId" = c."organizationId"
+FROM "CallLog" AS c
+WHERE e."callId" = c."vapiCallId" AND e."organizationId" IS NULL;
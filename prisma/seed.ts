@@ -1,4 +1,7 @@
 import { PrismaClient, Role } from '@prisma/client'
+import { addZonedDays, fromZoned, setZonedTime, toZoned } from '../lib/dates'
+import { patientPhoneFields } from '../lib/phone'
+import { hashPassword } from '../lib/passwords'
 
 const prisma = new PrismaClient()
 
@@ -6,10 +9,18 @@ async function main() {
   // Clean the database first (optional, depends on desired seeding behavior)
   console.log('Clearing existing data...')
   await prisma.task.deleteMany({}) // Clear dependent models first
+  await prisma.callLog.deleteMany({})
   await prisma.roleResponsibility.deleteMany({})
+  await prisma.scheduleClosure.deleteMany({})
+  await prisma.providerSchedule.deleteMany({})
+  await prisma.businessHours.deleteMany({})
   await prisma.appointment.deleteMany({})
+  await prisma.appointmentSeries.deleteMany({})
+  await prisma.appointmentType.deleteMany({})
+  await prisma.operatory.deleteMany({})
   await prisma.patient.deleteMany({})
   await prisma.knowledgeTopic.deleteMany({})
+  await prisma.assistant.deleteMany({})
   await prisma.user.deleteMany({})
   await prisma.organization.deleteMany({})
 
@@ -23,12 +34,15 @@ async function main() {
   })
   console.log(`Created default organization: ${defaultOrg.name} (ID: ${defaultOrg.id})`)
 
-  // Create users and link to the organization
+  // Create users and link to the organization. They all sign in with the same
+  // password: SEED_USER_PASSWORD, or the demo one below.
+  const passwordHash = await hashPassword(process.env.SEED_USER_PASSWORD || 'laine-demo-password')
   const admin = await prisma.user.create({
     data: {
       email: 'admin@airodental.com',
       name: 'Admin User',
       role: 'ADMIN',
+      passwordHash,
       organizationId: defaultOrg.id, // Link to org
     },
   })
@@ -38,6 +52,7 @@ async function main() {
       email: 'dentist@airodental.com',
       name: 'Dr. Smith',
       role: 'DENTIST',
+      passwordHash,
       organizationId: defaultOrg.id, // Link to org
     },
   })
@@ -47,6 +62,7 @@ async function main() {
       email: 'receptionist@airodental.com',
       name: 'Jane Doe',
       role: 'RECEPTIONIST',
+      passwordHash,
       organizationId: defaultOrg.id, // Link to org
     },
   })
@@ -56,6 +72,7 @@ async function main() {
           email: 'manager@airodental.com',
           name: 'Sarah Manager',
           role: 'OFFICE_MANAGER',
+          passwordHash,
           organizationId: defaultOrg.id,
       },
   })
@@ -65,6 +82,7 @@ async function main() {
           email: 'billing@airodental.com',
           name: 'Mike Billington',
           role: 'BILLING_SPECIALIST',
+          passwordHash,
           organizationId: defaultOrg.id,
       },
   })
@@ -83,13 +101,45 @@ async function main() {
   })
   console.log('Created Role Responsibilities')
 
+  // Seed business hours (Mon-Fri 8-5, Sat 9-1) and the dentist's working week
+  await prisma.businessHours.createMany({
+      data: [
+          ...[1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, openTime: '08:00', closeTime: '17:00', organizationId: defaultOrg.id })),
+          { dayOfWeek: 6, openTime: '09:00', closeTime: '13:00', organizationId: defaultOrg.id },
+      ]
+  })
+
+  await prisma.providerSchedule.createMany({
+      data: [1, 2, 3, 4, 5].map(dayOfWeek => ({
+          dayOfWeek,
+          startTime: '08:00',
+          endTime: '17:00',
+          lunchStart: '12:00',
+          lunchEnd: '13:00',
+          providerId: dentist.id,
+          organizationId: defaultOrg.id,
+      }))
+  })
+
+  // Closures are absolute instants, so the holiday runs midnight to midnight at the practice
+  const christmasYear = toZoned(new Date(), defaultOrg.timezone).year
+  await prisma.scheduleClosure.create({
+      data: {
+          startsAt: fromZoned({ year: christmasYear, month: 12, day: 25 }, defaultOrg.timezone),
+          endsAt: fromZoned({ year: christmasYear, month: 12, day: 26 }, defaultOrg.timezone),
+          reason: 'Christmas Day',
+          organizationId: defaultOrg.id,
+      }
+  })
+  console.log('Created business hours, provider schedule and holidays')
+
   // Create patients and link to the organization and dentist
   const patient1 = await prisma.patient.create({
     data: {
       firstName: 'John',
       lastName: 'Test',
       email: 'john.test@example.com',
-      phoneNumber: '555-111-2222',
+      ...patientPhoneFields('555-111-2222'),
       dateOfBirth: new Date('1985-05-15'),
       userId: dentist.id,
       organizationId: defaultOrg.id, // Link to org
@@ -101,7 +151,7 @@ async function main() {
       firstName: 'Alice',
       lastName: 'Example',
       email: 'alice.example@example.com',
-      phoneNumber: '555-333-4444',
+      ...patientPhoneFields('555-333-4444'),
       dateOfBirth: new Date('1990-10-20'),
       userId: dentist.id,
       organizationId: defaultOrg.id, // Link to org
@@ -110,19 +160,44 @@ async function main() {
 
   console.log('Created patients:', { patient1, patient2 })
 
+  // Seed appointment types with their default lengths
+  const checkupType = await prisma.appointmentType.create({
+    data: { name: 'Checkup', durationMinutes: 30, color: '#3b82f6', requiredRole: Role.DENTIST, organizationId: defaultOrg.id },
+  })
+  const cleaningType = await prisma.appointmentType.create({
+    data: { name: 'Cleaning', durationMinutes: 45, color: '#14b8a6', organizationId: defaultOrg.id },
+  })
+  const newPatientType = await prisma.appointmentType.create({
+    data: { name: 'New Patient Exam', durationMinutes: 60, color: '#a855f7', requiredRole: Role.DENTIST, organizationId: defaultOrg.id },
+  })
+  await prisma.appointmentType.createMany({
+    data: [
+      { name: 'Recall', durationMinutes: 15, color: '#64748b', organizationId: defaultOrg.id },
+      { name: 'Crown Prep', durationMinutes: 90, color: '#f59e0b', requiredRole: Role.DENTIST, organizationId: defaultOrg.id },
+    ],
+  })
+  console.log('Created appointment types')
+
+  // Seed the chairs visits are booked into
+  const operatory1 = await prisma.operatory.create({ data: { name: 'Operatory 1', organizationId: defaultOrg.id } })
+  const operatory2 = await prisma.operatory.create({ data: { name: 'Operatory 2', organizationId: defaultOrg.id } })
+  await prisma.operatory.create({ data: { name: 'Hygiene', organizationId: defaultOrg.id } })
+  console.log('Created operatories')
+
   // Create appointments and link to organization and patient
+  // Times are the practice's wall clock, wherever the seed runs
   const today = new Date()
-  const tomorrow = new Date(today)
-  tomorrow.setDate(tomorrow.getDate() + 1)
-  tomorrow.setHours(10, 0, 0, 0) // Set specific time
+  const tomorrow = setZonedTime(addZonedDays(today, 1, defaultOrg.timezone), { hour: 10 }, defaultOrg.timezone)
 
-  const nextWeek = new Date(today)
-  nextWeek.setDate(nextWeek.getDate() + 7)
-  nextWeek.setHours(14, 30, 0, 0) // Set specific time
+  const nextWeek = setZonedTime(addZonedDays(today, 7, defaultOrg.timezone), { hour: 14, minute: 30 }, defaultOrg.timezone)
 
   const appointment1 = await prisma.appointment.create({
     data: {
       date: tomorrow,
+      endTime: new Date(tomorrow.getTime() + 30 * 60000),
+      appointmentTypeId: checkupType.id,
+      providerId: dentist.id,
+      operatoryId: operatory1.id,
       reason: 'Regular checkup',
       patientType: 'EXISTING',
       status: 'CONFIRMED',
@@ -135,6 +210,10 @@ async function main() {
   const appointment2 = await prisma.appointment.create({
     data: {
       date: nextWeek,
+      endTime: new Date(nextWeek.getTime() + 45 * 60000),
+      appointmentTypeId: cleaningType.id,
+      providerId: dentist.id,
+      operatoryId: operatory2.id,
       reason: 'Teeth cleaning',
       patientType: 'EXISTING',
       status: 'SCHEDULED',
@@ -145,13 +224,15 @@ async function main() {
   })
 
   // Add more appointments
-  const dayAfterTomorrow = new Date(today)
-  dayAfterTomorrow.setDate(dayAfterTomorrow.getDate() + 2)
-  dayAfterTomorrow.setHours(9, 0, 0, 0)
+  const dayAfterTomorrow = setZonedTime(addZonedDays(today, 2, defaultOrg.timezone), { hour: 9 }, defaultOrg.timezone)
 
   await prisma.appointment.create({
     data: {
       date: dayAfterTomorrow,
+      endTime: new Date(dayAfterTomorrow.getTime() + 60 * 60000),
+      appointmentTypeId: newPatientType.id,
+      providerId: dentist.id,
+      operatoryId: operatory1.id,
       reason: 'New patient consultation',
       patientType: 'NEW',
       status: 'CONFIRMED',
@@ -163,12 +244,23 @@ async function main() {
 
   console.log('Created appointments')
 
+  // Register the practice's voice assistant so calls to it resolve to the org
+  const assistant = await prisma.assistant.create({
+    data: {
+      vapiAssistantId: process.env.VAPI_ASSISTANT_ID || 'demo-assistant-id', // Set VAPI_ASSISTANT_ID to use a real assistant
+      name: 'Front Desk',
+      defaultProviderId: dentist.id,
+      organizationId: defaultOrg.id,
+    },
+  })
+  console.log(`Created assistant: ${assistant.name} (Vapi ID: ${assistant.vapiAssistantId})`)
+
   // Add a sample KnowledgeTopic linked to the org
   await prisma.knowledgeTopic.create({
       data: {
           topicName: 'Office Hours & Location',
           content: 'Our office hours are Monday to Friday, 9 AM to 5 PM. We are located at 123 Dental St, Smileville.',
-          assistantId: 'demo-assistant-id', // Replace with a real ID if needed for testing
+          assistantId: assistant.vapiAssistantId,
           organizationId: defaultOrg.id,
       }
   })